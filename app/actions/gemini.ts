@@ -1,329 +1,341 @@
 'use server';
 
-import { GoogleGenerativeAI, Part as GooglePart } from '@google/generative-ai';
-import { VertexAI, GenerativeModel, Part as VertexPart } from '@google-cloud/vertexai';
+import { v1beta1 } from '@google-cloud/aiplatform';
+import { GoogleAuth } from 'google-auth-library';
+import { MangaPage, validateStoryboard } from '@/lib/storyboard';
+import { DEFAULT_MODELS, isImagenModel } from '@/lib/models';
+import type { SafetyLevel } from '@/lib/generation';
+import { DEFAULT_STYLE, StyleGuide } from '@/lib/styles';
+import { characterSheet, imagePrompt, planningVariables } from '@/lib/prompts';
+import { renderActivePrompt } from '@/lib/prompt-store';
+import { STRING_LIST_SCHEMA, STORYBOARD_SCHEMA } from '@/lib/structured-output';
+import { contentModel, generateText, generateStructured, generateImagenImages, imagePart, geminiApiKey, vertexCredentials } from '@/lib/llm';
+
+// Server Actions for Gemini (Google AI Studio / Vertex AI). The prompts live in lib/prompts
+// (active edited versions in lib/prompt-store), the provider adapters and structured-output
+// handling in lib/llm.
 
 export type GeminiProvider = 'google' | 'vertex';
 
 export interface GeminiConfig {
     provider: GeminiProvider;
-    apiKey?: string; // For Google AI Studio
+    profile?: string; // Server-side credential profile holding the Google AI Studio key
     projectId?: string; // For Vertex AI
     location?: string; // For Vertex AI
+    textModel?: string; // Planning / storyboard model, defaults to DEFAULT_MODELS.textModel
+    imageModel?: string; // Page rendering model, defaults to DEFAULT_MODELS.imageModel
+    personGeneration?: PersonGeneration; // Imagen only
+    temperature?: number; // Prompt planning only
 }
 
-// Shared Interface for MangaPage (same as lib/gemini.ts)
-export interface MangaPage {
-    pageNumber: number;
-    panels: {
-        panelNumber: number;
-        description: string;
-        dialogue: string;
-        cameraAngle?: string;
-        characters?: string[];
-        imageUrl?: string;
-    }[];
-}
+export type PersonGeneration = 'dont_allow' | 'allow_adult' | 'allow_all';
 
-// Helper to convert base64 to parts
-function base64ToPart(base64: string, mimeType: string): GooglePart | VertexPart {
-    return {
-        inlineData: {
-            data: base64,
-            mimeType: mimeType
-        }
-    };
+export interface ImageGenerationOptions {
+    aspectRatio?: string;
+    sampleCount?: number; // Imagen only, 1-4
+    negativePrompt?: string; // Imagen only
+    seed?: number; // Imagen only
+    safety?: SafetyLevel;
+    style?: string; // Render line of the style preset, defaults to DEFAULT_STYLE
+    projectId?: string; // Attributes the call in the usage log
 }
 
+type ImageInput = { base64: string; type: string };
+
 export async function generateImageAction(
     config: GeminiConfig,
     prompt: string,
-    referenceImages: { base64: string; type: string }[] = [],
-    options: { aspectRatio?: string } = {}
+    referenceImages: ImageInput[] = [],
+    options: ImageGenerationOptions = {}
 ): Promise<string> {
+    const imageModel = config.imageModel || DEFAULT_MODELS.imageModel;
 
-    // --- Prompt Enhancement (Shared) ---
-    let enhancedPrompt = prompt;
-    if (options.aspectRatio) {
-        enhancedPrompt += `\n\nAspect Ratio: ${options.aspectRatio}`;
-        if (options.aspectRatio === '2:3') {
-            enhancedPrompt += `\nTarget Dimensions: 1696x2528 pixels`;
-        } else if (options.aspectRatio === '3:2') {
-            enhancedPrompt += `\nTarget Dimensions: 2528x1696 pixels`;
-        }
-    }
-    enhancedPrompt += `\nOutput Resolution: 2K`;
-    enhancedPrompt += `\nImage Quality: HD, High Definition`;
-    enhancedPrompt += `\nStyle: Manga style, anime style, high quality.`;
-    enhancedPrompt += `\nQuality: Masterpiece, best quality, highly detailed.`;
-
-    // --- Google AI Studio Implementation ---
-    if (config.provider === 'google') {
-        if (!config.apiKey) throw new Error("Gemini API Key is required for Google AI Studio provider.");
-
-        // Note: 'gemini-3-pro-image-preview' might need specific endpoint handling if standard SDK doesn't support it yet,
-        // but existing client code used REST. The Node SDK should handle it if 'model' arg is correct, 
-        // OR we might need to fallback to fetch if the SDK doesn't support the image preview model yet.
-        // Assuming SDK v0.24+ supports it or we use generic generateContent.
-
-        // However, the previous client-side implementation used `fetch` to `...:generateContent`.
-        // The SDK `getGenerativeModel` -> `generateContent` does roughly the same.
-
-        const genAI = new GoogleGenerativeAI(config.apiKey);
-        // Warning: gemini-3-pro-image-preview might not be fully supported in the typed SDK enum, passing string is fine.
-        const model = genAI.getGenerativeModel({ model: 'gemini-3-pro-image-preview' });
-
-        const parts: GooglePart[] = [{ text: enhancedPrompt }];
-        referenceImages.forEach(img => {
-            parts.push(base64ToPart(img.base64, img.type) as GooglePart);
-        });
-
-        const result = await model.generateContent({
-            contents: [{ role: 'user', parts }]
-        });
-
-        const response = await result.response;
-        // The SDK might not automatically parse the inline image data from the response structure of this specific preview model
-        // if it differs largely from standard. But usually `text()` is what we access. 
-        // For Image Generation models returning base64, we need to access candidates.
-
-        // Note: The experimental image generation model returns valid base64 in the parts.
-        // We need to access the raw candidates if possible or inspect the response object.
-        const candidates = response.candidates;
-        if (candidates && candidates[0]?.content?.parts) {
-            for (const part of candidates[0].content.parts) {
-                if (part.inlineData && part.inlineData.mimeType.startsWith('image/')) {
-                    return part.inlineData.data;
-                }
-            }
-        }
-        throw new Error("No image data found in Google AI response");
+    // Imagen takes size, seed and negative prompt as real parameters instead of prompt hints
+    if (config.provider === 'vertex' && isImagenModel(imageModel)) {
+        const [image] = await generateImagenImages(config, imageModel, imagePrompt(prompt, { style: options.style }), { ...options, sampleCount: 1 });
+        return image;
     }
 
-    // --- Vertex AI Implementation ---
-    if (config.provider === 'vertex') {
-        if (!config.projectId || !config.location) {
-            throw new Error("Project ID and Location are required for Vertex AI provider.");
-        }
+    // Gemini image models use generateContent and only take the size as a hint
+    const model = await contentModel(config);
+    const response = await model.generate({
+        model: imageModel,
+        parts: [
+            { text: imagePrompt(prompt, { style: options.style, aspectRatio: options.aspectRatio, sizeHints: true }) },
+            ...referenceImages.map(imagePart)
+        ],
+        safety: options.safety
+    }, { kind: 'image', projectId: options.projectId });
+
+    const [image] = response.images;
+    if (!image) throw new Error(`No image data found in ${config.provider === 'google' ? 'Google AI' : 'Vertex AI'} response`);
+    return image.data;
+}
 
-        // Initialize with optional credentials from Env (for Vercel)
-        const vertexOptions: any = {
-            project: config.projectId,
-            location: config.location,
-        };
-
-        // Try to load credentials from Env Var (Vercel standard approach)
-        // Variable name: GOOGLE_VERTEX_CREDENTIALS (should be the JSON content stringified)
-        const envCredentials = process.env.GOOGLE_VERTEX_CREDENTIALS;
-        if (envCredentials) {
-            try {
-                const credentials = JSON.parse(envCredentials);
-                vertexOptions.googleAuthOptions = { credentials };
-            } catch (e) {
-                console.error("Failed to parse GOOGLE_VERTEX_CREDENTIALS", e);
-                // Fallback to ADC
-            }
-        }
+// Several takes of the same prompt: one Imagen request with sampleCount, or repeated Gemini calls
+export async function generateImagesAction(
+    config: GeminiConfig,
+    prompt: string,
+    referenceImages: ImageInput[] = [],
+    options: ImageGenerationOptions = {}
+): Promise<string[]> {
+    const imageModel = config.imageModel || DEFAULT_MODELS.imageModel;
+    if (config.provider === 'vertex' && isImagenModel(imageModel)) {
+        return generateImagenImages(config, imageModel, imagePrompt(prompt, { style: options.style }), options);
+    }
 
-        const vertexAI = new VertexAI(vertexOptions);
-
-        // Use the same model name or the Vertex equivalent (often 'imagegeneration@006' or similar for Imagen, 
-        // but for Gemini 3 preview it might be 'gemini-3-pro-preview' etc if available on Vertex).
-        // Since Gemini 3 is very new experimental, it might NOT be on Vertex yet or under a different name.
-        // However, user asked to enable Vertex AI. If Gemini 3 isn't there, we might fallback to 'gemini-1.5-pro-preview-0514' (text) 
-        // or 'imagen-3.0-generate-001' for images.
-        // 
-        // *CRITICAL CHECK*: Does Vertex AI have `gemini-3-pro-image-preview`? 
-        // Likely not yet. The user might expect standard Gemini functionality or Imagen.
-        // Given the code uses `gemini-3-pro-image-preview`, I will attempt to use it, but if it fails, 
-        // the user might need to change models. 
-        // For now, I will use `gemini-experimental` or attempt the same model name.
-        // 
-        // Actually, for "Manga", Imagen 3 is often better. 
-        // Let's stick to the requested model name `gemini-3-pro-image-preview` as the primary attempt, 
-        // assuming the user has access or it will become available. 
-
-        const modelName = 'gemini-3-pro-image-preview';
-
-        const generativeModel = vertexAI.getGenerativeModel({ model: modelName });
-
-        const parts: VertexPart[] = [{ text: enhancedPrompt }];
-        referenceImages.forEach(img => {
-            parts.push(base64ToPart(img.base64, img.type) as VertexPart);
-        });
-
-        const req = {
-            contents: [{ role: 'user', parts }],
-        };
-
-        const result = await generativeModel.generateContent(req);
-        const response = await result.response;
-
-        const candidates = response.candidates;
-        if (candidates && candidates[0]?.content?.parts) {
-            for (const part of candidates[0].content.parts) {
-                if (part.inlineData && part.inlineData.mimeType.startsWith('image/')) {
-                    return part.inlineData.data;
-                }
-            }
-        }
-        throw new Error("No image data found in Vertex AI response");
+    const images: string[] = [];
+    for (let i = 0; i < (options.sampleCount || 1); i++) {
+        images.push(await generateImageAction(config, prompt, referenceImages, options));
     }
+    return images;
+}
 
-    throw new Error("Invalid provider");
+// Region edit: the page and a black / white mask go to a Gemini image model together with the
+// instruction. Imagen models can't take the page as input, so edits fall back to the default Gemini model.
+export async function editImageAction(
+    config: GeminiConfig,
+    image: ImageInput,
+    mask: ImageInput,
+    instruction: string,
+    options: ImageGenerationOptions = {}
+): Promise<string> {
+    const imageModel = config.imageModel || DEFAULT_MODELS.imageModel;
+    const editConfig = isImagenModel(imageModel) ? { ...config, imageModel: DEFAULT_MODELS.imageModel } : config;
+    return generateImageAction(editConfig, await renderActivePrompt('regionEdit', { instruction }), [image, mask], options);
 }
 
 export async function generateMangaPromptsAction(
     config: GeminiConfig,
     prompt: string,
     pageCount: number = 1,
-    referenceImages: { base64: string; type: string }[] = [],
-    isScriptMode: boolean = false
+    referenceImages: ImageInput[] = [],
+    isScriptMode: boolean = false,
+    characters: { name: string; description: string }[] = [],
+    style: StyleGuide = DEFAULT_STYLE
+): Promise<string[]> {
+    const text = await renderActivePrompt(
+        isScriptMode ? 'scriptPrompts' : 'ideaPrompts',
+        planningVariables({ pageCount, style: style.planning, story: prompt, characters, isScriptMode })
+    );
+    return generateStructured<string[]>(await contentModel(config), {
+        model: config.textModel || DEFAULT_MODELS.textModel,
+        parts: [{ text }, ...referenceImages.map(imagePart)],
+        temperature: config.temperature
+    }, STRING_LIST_SCHEMA, { failure: "Failed to generate valid prompt structure" });
+}
+
+export async function generateStoryboardAction(
+    config: GeminiConfig,
+    prompt: string,
+    pageCount: number = 1,
+    referenceImages: ImageInput[] = [],
+    characters: { name: string; description: string }[] = [],
+    style: StyleGuide = DEFAULT_STYLE,
+    panelsPerPage?: number // fixed by a panel layout template
+): Promise<MangaPage[]> {
+    const text = await renderActivePrompt(
+        'storyboard',
+        planningVariables({ pageCount, style: style.planning, story: prompt, characters, panelsPerPage })
+    );
+    return generateStructured(await contentModel(config), {
+        model: config.textModel || DEFAULT_MODELS.textModel,
+        parts: [{ text }, ...referenceImages.map(imagePart)],
+        temperature: config.temperature
+    }, STORYBOARD_SCHEMA, { normalize: validateStoryboard, failure: "Failed to generate a valid storyboard" });
+}
+
+// Rewrite a single planned page prompt while keeping it consistent with the rest of the plan
+export async function regenerateMangaPromptAction(
+    config: GeminiConfig,
+    prompt: string,
+    plannedPrompts: string[],
+    index: number,
+    referenceImages: ImageInput[] = [],
+    isScriptMode: boolean = false,
+    characters: { name: string; description: string }[] = [],
+    style: StyleGuide = DEFAULT_STYLE,
+    isWebtoon: boolean = false
+): Promise<string> {
+    const unit = isWebtoon ? 'Panel' : 'Page';
+    const plan = plannedPrompts
+        .map((p, i) => `${unit} ${i + 1}${i === index ? ' (REWRITE THIS ONE)' : ''}:\n${p}`)
+        .join('\n\n');
+
+    const text = await renderActivePrompt('rewritePrompt', {
+        format: isWebtoon ? 'vertical-scroll webtoon' : 'manga',
+        source: isScriptMode ? 'script' : 'story idea',
+        goal: isScriptMode || isWebtoon
+            ? `${unit} ${index + 1} must still cover the same part of the story and keep continuity with the surrounding ${unit.toLowerCase()}s.`
+            : `Page ${index + 1} is one variation of the whole story; make it clearly different from the other variations.`,
+        shape: isWebtoon
+            ? 'Write a highly detailed visual description of ONE tall vertical webtoon panel (a single image, not a multi-panel page) with characters, action and empty speech bubbles.'
+            : 'Write a highly detailed visual description of one full manga page with panels, layout, characters and speech bubbles.',
+        style: style.planning,
+        plan,
+        story: prompt,
+        characters: characterSheet(characters)
+    });
+
+    const rewritten = (await generateText(await contentModel(config), {
+        model: config.textModel || DEFAULT_MODELS.textModel,
+        parts: [{ text }, ...referenceImages.map(imagePart)],
+        temperature: config.temperature
+    })).replace(/```\w*/g, '').trim();
+    if (!rewritten) throw new Error("Failed to regenerate the prompt");
+    return rewritten;
+}
+
+// Plan a vertical-scroll webtoon: one prompt per panel, read top to bottom as a single strip
+export async function generateWebtoonPanelsAction(
+    config: GeminiConfig,
+    prompt: string,
+    panelCount: number,
+    referenceImages: ImageInput[] = [],
+    isScriptMode: boolean = false,
+    characters: { name: string; description: string }[] = [],
+    style: StyleGuide = DEFAULT_STYLE
 ): Promise<string[]> {
+    const text = await renderActivePrompt(
+        'webtoonPanels',
+        planningVariables({ pageCount: panelCount, style: style.planning, story: prompt, characters, isScriptMode })
+    );
+    return generateStructured<string[]>(await contentModel(config), {
+        model: config.textModel || DEFAULT_MODELS.textModel,
+        parts: [{ text }, ...referenceImages.map(imagePart)],
+        temperature: config.temperature
+    }, STRING_LIST_SCHEMA, { failure: "Failed to generate valid prompt structure" });
+}
 
-    // --- Model Selection ---
-    const modelName = 'gemini-3-flash-preview'; // Or gemini-1.5-flash
-
-    // --- System Prompts (Shared) ---
-    const styleInstruction = "Manga page. High quality, detailed, anime style.";
-    let systemPrompt = "";
-    let userContent = "";
-
-    if (isScriptMode) {
-        systemPrompt = `
-        Your task is to act as a professional manga editor and storyboarder.
-        You have been provided with a script/story text.
-        Your goal is to split this script into EXACTLY ${pageCount} sequential manga pages.
-
-        Instructions:
-        1. Divide the story/script logically into ${pageCount} parts (pages).
-        2. For EACH page, write a highly detailed image generation prompt.
-        3. The prompt should describe the layout, panels, characters, and action for that specific part of the story.
-        4. Ensure flow and continuity from Page 1 to Page ${pageCount}.
-
-        Output Format: JSON Array of strings (size ${pageCount}).
-        Example:
-        [
-          "Page 1: ${styleInstruction}, 5 panels. Panel 1: Intro shot of city... Panel 2: Protagonist enters...",
-          "Page 2: ${styleInstruction}, 4 panels. Panel 1: Dialogue scene...",
-          ...
-        ]
-
-        Constraints:
-        - Output ONLY valid JSON.
-        - The array length must be EXACTLY ${pageCount}.
-        - Style: ${styleInstruction}
-        `;
-        userContent = "\n\nInput Script:\n" + prompt;
-    } else {
-        // Idea Mode
-        systemPrompt = `
-        Your task is to create detailed image generation prompts for a manga based on the user's story idea.
-        You need to generate ${pageCount} prompt(s).
-        
-        Each prompt will be used to generate a SINGLE IMAGE that looks like a complete ${styleInstruction} with multiple panels.
-        
-        IMPORTANT: The user wants ${pageCount} DIFFERENT VARIATIONS of the same story.
-        Do NOT split the story across multiple pages.
-        Each of the ${pageCount} prompts must represent the COMPLETION of the user's entire prompt within a single page.
-        Make each variation slightly different in composition, camera angles, or panel layout.
-        
-        Output Format: JSON Array of strings.
-        Example:
-        [
-          "A high-quality ${styleInstruction} with 4 panels. Panel 1 (top): Close up of a young man with spiky black hair... Panel 2 (middle): Wide shot of..."
-        ]
-
-        STRICT constraints:
-        1. Output EXACTLY ${pageCount} strings in a JSON array.
-        2. Each string must be a highly detailed visual description of one full manga page.
-        3. Include instructions for 'panels', 'layout', 'characters', and 'speech bubbles'.
-        4. CRITICAL: If reference images are provided, you MUST EXPLICITLY DESCRIBE their visual appearance in EVERY prompt.
-        5. The art style should be consistent: "${styleInstruction}, professional layout".
-        6. Output ONLY valid JSON.
-      `;
-        userContent = "\n\nUser Story Idea:\n" + prompt;
+// Visual description of a character from one reference image, for the character library
+export async function analyzeCharacterAction(
+    config: GeminiConfig,
+    image: ImageInput,
+    modelName: string = DEFAULT_MODELS.visionModel
+): Promise<string> {
+    const text = await generateText(await contentModel(config), {
+        model: modelName,
+        parts: [{ text: await renderActivePrompt('characterAnalysis', {}) }, imagePart(image)],
+        temperature: config.temperature
+    });
+    return text.trim();
+}
+
+// One entry of a model list on the Settings page, in the shape of the Google AI `models` endpoint
+export interface ModelInfo {
+    name: string;
+    displayName: string;
+    description: string;
+    supportedGenerationMethods: string[];
+}
+
+// Models available to the profile's Google AI Studio key
+export async function listGeminiModelsAction(profile?: string): Promise<ModelInfo[]> {
+    const apiKey = await geminiApiKey(profile);
+    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models?key=${apiKey}`);
+    if (!response.ok) {
+        throw new Error(`Failed to fetch models: ${response.status} ${response.statusText}`);
     }
+    const data = await response.json();
+    return data.models || [];
+}
 
-    // --- Google AI Studio ---
-    if (config.provider === 'google') {
-        if (!config.apiKey) throw new Error("Gemini API Key is required.");
-
-        const genAI = new GoogleGenerativeAI(config.apiKey);
-        const model = genAI.getGenerativeModel({ model: modelName });
-
-        const parts: GooglePart[] = [
-            { text: systemPrompt },
-            { text: userContent }
-        ];
-        referenceImages.forEach(img => {
-            parts.push(base64ToPart(img.base64, img.type) as GooglePart);
-        });
-
-        const result = await model.generateContent({
-            contents: [{ role: 'user', parts }]
-        });
-        const text = result.response.text();
-        return parseJsonResult(text);
+export type VertexProblem = 'credentials' | 'auth' | 'api_disabled' | 'project' | 'permission' | 'model_unavailable' | 'unknown';
+
+export interface VertexConnectionResult {
+    ok: boolean;
+    credentialSource: 'env' | 'adc'; // GOOGLE_VERTEX_CREDENTIALS or Application Default Credentials
+    account?: string; // service account e-mail, when the credentials name one
+    problem?: VertexProblem;
+    message: string;
+}
+
+const VERTEX_PROBLEM_MESSAGES: Record<VertexProblem, string> = {
+    credentials: 'GOOGLE_VERTEX_CREDENTIALS を読み取れません。サービスアカウントのJSONを1行の文字列で設定してください',
+    auth: '認証情報を取得できません。GOOGLE_VERTEX_CREDENTIALS を設定するか、`gcloud auth application-default login` を実行してください',
+    api_disabled: 'このプロジェクトで Vertex AI API が有効になっていません。Google Cloud コンソールで aiplatform.googleapis.com を有効にしてください',
+    project: 'プロジェクトが見つからないか、課金が有効になっていません。Project ID を確認してください',
+    permission: 'このアカウントには Vertex AI を使う権限がありません (Vertex AI ユーザー ロールが必要です)',
+    model_unavailable: 'このリージョンではモデルを利用できません。Location かモデルを変更してください',
+    unknown: 'Vertex AI への接続に失敗しました',
+};
+
+// Sort a Vertex / Google auth failure into the cause the user has to fix. Order matters:
+// a disabled API and a missing role are both 403s.
+function vertexProblem(message: string): VertexProblem {
+    if (/default credentials|Unable to authenticate|invalid_grant|UNAUTHENTICATED|\b401\b/i.test(message)) return 'auth';
+    if (/SERVICE_DISABLED|has not been used in project|API has not been enabled|is disabled/i.test(message)) return 'api_disabled';
+    if (/Publisher Model|model .*not found|does not have access to it|not supported in (this )?(region|location)/i.test(message)) return 'model_unavailable';
+    if (/project .*not found|CONSUMER_INVALID|BILLING_DISABLED|billing/i.test(message)) return 'project';
+    if (/PERMISSION_DENIED|Permission .* denied|\b403\b/i.test(message)) return 'permission';
+    if (/NOT_FOUND|\b404\b/.test(message)) return 'model_unavailable';
+    return 'unknown';
+}
+
+// Check the credentials, then the project / location with a one-token generation on the text model
+export async function testVertexConnectionAction(config: GeminiConfig): Promise<VertexConnectionResult> {
+    const credentialSource = process.env.GOOGLE_VERTEX_CREDENTIALS ? 'env' : 'adc';
+    const credentials = vertexCredentials();
+    if (credentialSource === 'env' && !credentials) {
+        return { ok: false, credentialSource, problem: 'credentials', message: VERTEX_PROBLEM_MESSAGES.credentials };
+    }
+    if (!config.projectId || !config.location) {
+        return { ok: false, credentialSource, problem: 'project', message: 'Project IDとLocationを入力してください' };
     }
 
-    // --- Vertex AI ---
-    if (config.provider === 'vertex') {
-        if (!config.projectId || !config.location) throw new Error("Project ID and Location required for Vertex AI.");
-
-        // Initialize with optional credentials from Env (for Vercel)
-        const vertexOptions: any = {
-            project: config.projectId,
-            location: config.location,
-        };
-
-        const envCredentials = process.env.GOOGLE_VERTEX_CREDENTIALS;
-        if (envCredentials) {
-            try {
-                const credentials = JSON.parse(envCredentials);
-                vertexOptions.googleAuthOptions = { credentials };
-            } catch (e) {
-                console.error("Failed to parse GOOGLE_VERTEX_CREDENTIALS", e);
-            }
-        }
+    const account = credentials?.client_email;
+    const fail = (err: unknown): VertexConnectionResult => {
+        const detail = err instanceof Error ? err.message : String(err);
+        const problem = vertexProblem(detail);
+        return { ok: false, credentialSource, account, problem, message: `${VERTEX_PROBLEM_MESSAGES[problem]} (${detail})` };
+    };
+
+    try {
+        await new GoogleAuth({ credentials, scopes: 'https://www.googleapis.com/auth/cloud-platform' }).getAccessToken();
+    } catch (err) {
+        // Any failure to get a token is a credentials problem, whatever the message says
+        return { ...fail(err), problem: 'auth', message: `${VERTEX_PROBLEM_MESSAGES.auth} (${err instanceof Error ? err.message : String(err)})` };
+    }
 
-        const vertexAI = new VertexAI(vertexOptions);
-        const model = vertexAI.getGenerativeModel({ model: modelName });
-
-        const parts: VertexPart[] = [
-            { text: systemPrompt },
-            { text: userContent }
-        ];
-        referenceImages.forEach(img => {
-            parts.push(base64ToPart(img.base64, img.type) as VertexPart);
-        });
-
-        const result = await model.generateContent({
-            contents: [{ role: 'user', parts }]
-        });
-        // Vertex AI SDK response structure is similar but async accessor might differ slightly
-        const response = await result.response;
-        // Vertex AI response text accessor
-        // Often we need to inspect candidates manually effectively
-        const text = response.candidates?.[0]?.content?.parts?.[0]?.text || "";
-        return parseJsonResult(text);
+    const modelName = config.textModel || DEFAULT_MODELS.textModel;
+    try {
+        const model = await contentModel(config);
+        await model.generate({ model: modelName, parts: [{ text: 'ping' }], maxOutputTokens: 1 }, { kind: 'text' });
+    } catch (err) {
+        return fail(err);
     }
 
-    throw new Error("Invalid provider");
+    return { ok: true, credentialSource, account, message: `${config.location} の ${modelName} に接続できました` };
 }
 
+// Google's Gemini and Imagen models published in the config's region
+export async function listVertexModelsAction(config: GeminiConfig): Promise<ModelInfo[]> {
+    if (!config.location) throw new Error("Location is required for Vertex AI provider.");
+
+    const credentials = vertexCredentials();
+    const client = new v1beta1.ModelGardenServiceClient({
+        apiEndpoint: `${config.location}-aiplatform.googleapis.com`,
+        ...(credentials ? { credentials } : {})
+    });
 
-// Helper for JSON parsing
-function parseJsonResult(text: string): string[] {
-    const jsonStr = text.replace(/```json/g, '').replace(/```/g, '').trim();
+    const models: ModelInfo[] = [];
     try {
-        const parsed = JSON.parse(jsonStr);
-        if (Array.isArray(parsed) && parsed.every(i => typeof i === 'string')) {
-            return parsed;
+        for await (const model of client.listPublisherModelsAsync({ parent: 'publishers/google', pageSize: 100 })) {
+            const id = (model.name || '').split('/').pop() || '';
+            if (!id.startsWith('gemini-') && !isImagenModel(id)) continue;
+            models.push({
+                name: id,
+                displayName: id,
+                description: [model.versionId && `version ${model.versionId}`, model.launchStage && String(model.launchStage)].filter(Boolean).join(' · '),
+                // Matches how the app calls them: Imagen through predict, Gemini through generateContent
+                supportedGenerationMethods: [isImagenModel(id) ? 'predict' : 'generateContent'],
+            });
         }
-        throw new Error("Invalid format: Not an array of strings");
-    } catch (e) {
-        console.error("Failed to parse JSON", text);
-        throw new Error("Failed to generate valid prompt structure");
+    } catch (err) {
+        const detail = err instanceof Error ? err.message : String(err);
+        throw new Error(`${VERTEX_PROBLEM_MESSAGES[vertexProblem(detail)]} (${detail})`);
+    } finally {
+        await client.close();
     }
+    return models.sort((a, b) => a.name.localeCompare(b.name));
 }
@@ -0,0 +1,61 @@
+'use server';
+
+import { DEFAULT_MODELS } from '@/lib/models';
+import { PROMPT_TEMPLATES, PromptTemplateId, planningVariables, renderTemplate } from '@/lib/prompts';
+import { PromptVersion, listPromptVersions, savePromptVersion, activatePromptVersion, getPromptVersion } from '@/lib/prompt-store';
+import { STRING_LIST_SCHEMA, STORYBOARD_SCHEMA } from '@/lib/structured-output';
+import { MangaPage, buildStoryboardPrompt, validateStoryboard } from '@/lib/storyboard';
+import { StyleGuide } from '@/lib/styles';
+import { contentModel, generateStructured } from '@/lib/llm';
+import type { GeminiConfig } from '@/app/actions/gemini';
+
+export interface PromptTemplateVersions {
+    id: PromptTemplateId;
+    versions: PromptVersion[];
+    activeId: string;
+}
+
+export async function listPromptTemplatesAction(): Promise<PromptTemplateVersions[]> {
+    return Promise.all((Object.keys(PROMPT_TEMPLATES) as PromptTemplateId[]).map(async id => ({ id, ...await listPromptVersions(id) })));
+}
+
+export async function savePromptVersionAction(templateId: PromptTemplateId, text: string, note?: string): Promise<PromptVersion> {
+    return savePromptVersion(templateId, text, note);
+}
+
+export async function activatePromptVersionAction(templateId: PromptTemplateId, versionId: string): Promise<void> {
+    await activatePromptVersion(templateId, versionId);
+}
+
+// Plan pages with one specific version of a planning template, for the side-by-side comparison.
+// Storyboards come back as the page prompts the Workspace would render from them.
+export async function planWithVersionAction(
+    config: GeminiConfig,
+    versionId: string,
+    story: string,
+    pageCount: number,
+    style: StyleGuide
+): Promise<string[]> {
+    const version = await getPromptVersion(versionId);
+    const text = renderTemplate(version.text, planningVariables({
+        pageCount,
+        style: style.planning,
+        story,
+        isScriptMode: version.templateId === 'scriptPrompts',
+    }));
+    const model = await contentModel(config);
+    const request = { model: config.textModel || DEFAULT_MODELS.textModel, parts: [{ text }], temperature: config.temperature };
+
+    switch (version.templateId) {
+        case 'ideaPrompts':
+        case 'scriptPrompts':
+        case 'webtoonPanels':
+            return generateStructured<string[]>(model, request, STRING_LIST_SCHEMA, { failure: "Failed to generate valid prompt structure" });
+        case 'storyboard': {
+            const pages: MangaPage[] = await generateStructured(model, request, STORYBOARD_SCHEMA, { normalize: validateStoryboard, failure: "Failed to generate a valid storyboard" });
+            return pages.map(buildStoryboardPrompt);
+        }
+        default:
+            throw new Error(`「${PROMPT_TEMPLATES[version.templateId].label}」は比較できません`);
+    }
+}
@@ -0,0 +1,28 @@
+'use server';
+
+import { readUsage, clearUsage, readUsageSettings, writeUsageSettings, checkBudget } from '@/lib/usage-log';
+import { UsageRecord, UsageSettings, DEFAULT_USAGE_SETTINGS } from '@/lib/usage';
+
+export async function getUsageAction(): Promise<UsageRecord[]> {
+    return readUsage();
+}
+
+export async function clearUsageAction(): Promise<void> {
+    await clearUsage();
+}
+
+export async function getUsageSettingsAction(): Promise<UsageSettings> {
+    return (await readUsageSettings()) || DEFAULT_USAGE_SETTINGS;
+}
+
+export async function saveUsageSettingsAction(settings: UsageSettings): Promise<void> {
+    await writeUsageSettings({
+        prices: settings.prices.filter(p => p.model.trim()),
+        budget: settings.budget,
+    });
+}
+
+// Checked before a run starts; every call is checked again on the server (see tracked)
+export async function budgetProblemAction(projectId?: string): Promise<string | null> {
+    return checkBudget(projectId);
+}
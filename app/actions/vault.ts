@@ -0,0 +1,31 @@
+'use server';
+
+import { listProfiles, saveProfile, deleteProfile } from '@/lib/vault';
+
+// What the browser may know about a profile: which keys it holds, never the keys themselves
+export interface ProfileSummary {
+    name: string;
+    hasGeminiKey: boolean;
+    hasFalKey: boolean;
+    updatedAt: number;
+}
+
+export async function listProfilesAction(): Promise<ProfileSummary[]> {
+    return (await listProfiles()).map(p => ({
+        name: p.name,
+        hasGeminiKey: !!p.geminiApiKey,
+        hasFalKey: !!p.falApiKey,
+        updatedAt: p.updatedAt,
+    }));
+}
+
+// Keys are write-only from the browser: left undefined they stay as stored, empty removes them
+export async function saveProfileAction(name: string, keys: { geminiApiKey?: string; falApiKey?: string }): Promise<ProfileSummary> {
+    if (!name.trim()) throw new Error('プロファイル名を入力してください');
+    const profile = await saveProfile(name.trim(), keys);
+    return { name: profile.name, hasGeminiKey: !!profile.geminiApiKey, hasFalKey: !!profile.falApiKey, updatedAt: profile.updatedAt };
+}
+
+export async function deleteProfileAction(name: string): Promise<void> {
+    await deleteProfile(name);
+}
@@ -0,0 +1,72 @@
+import { falApiKey, uploadToFal, runFalQueue } from '@/lib/fal-queue';
+import { FalJob, FalStreamEvent, parseFalJob, falJobModel, falImageInput, falInpaintInput, falReferenceMode } from '@/lib/fal';
+
+// Runs one fal job and streams its progress as Server-Sent Events: `progress` while queued and
+// running (with the model's logs), then `done` with the result URL or `error`.
+// The body is multipart: the FalJob as JSON in "job", images as files.
+export async function POST(request: Request) {
+    // A malformed request is answered before the stream starts
+    let form: FormData;
+    let job: FalJob;
+    try {
+        form = await request.formData();
+        job = parseFalJob(form.get('job'));
+        if (job.kind === 'inpaint' && !(form.get('image') instanceof Blob && form.get('mask') instanceof Blob)) {
+            throw new Error('Invalid fal job: inpaint needs "image" and "mask" files');
+        }
+    } catch (err) {
+        return new Response(err instanceof Error ? err.message : String(err), { status: 400 });
+    }
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (event: FalStreamEvent) => {
+                if (request.signal.aborted) return;
+                controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+            };
+
+            try {
+                const apiKey = await falApiKey(job.profile);
+                const model = falJobModel(job);
+
+                let input: Record<string, unknown>;
+                if (job.kind === 'inpaint') {
+                    const [imageUrl, maskUrl] = await Promise.all([
+                        uploadToFal(apiKey, form.get('image') as Blob),
+                        uploadToFal(apiKey, form.get('mask') as Blob)
+                    ]);
+                    input = falInpaintInput(job.prompt, job.options, imageUrl, maskUrl);
+                } else {
+                    // Models without reference support never get the files uploaded
+                    const references = falReferenceMode(model) !== 'none' ? form.getAll('reference').filter(file => file instanceof Blob) : [];
+                    const urls = await Promise.all(references.map(image => uploadToFal(apiKey, image)));
+                    input = falImageInput(job.prompt, job.options, urls);
+                }
+
+                const data = await runFalQueue(apiKey, model, input, {
+                    onProgress: progress => send({ type: 'progress', progress }),
+                    signal: request.signal,
+                    projectId: job.projectId
+                });
+
+                // Fal returns { images: [ { url: "...", width: ..., height: ... } ] }
+                const image = data.images?.[0];
+                if (!image) throw new Error("No image returned from Fal.ai");
+                send({ type: 'done', url: image.url, contentType: image.content_type });
+            } catch (err) {
+                send({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+            } finally {
+                if (!request.signal.aborted) controller.close();
+            }
+        }
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            'Connection': 'keep-alive',
+        },
+    });
+}
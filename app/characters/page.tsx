@@ -0,0 +1,358 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { Plus, Trash2, Save, Sparkles, Loader2, User, Check, Pin } from 'lucide-react';
+import { getAllImages, getImage, getAllCharacters, saveCharacter, updateCharacter, deleteCharacter, Character, AppearanceNote } from '@/lib/db';
+import { analyzeCharacterAction, GeminiConfig } from '@/app/actions/gemini';
+import { loadProfileName } from '@/lib/credentials';
+import { loadModelSettings } from '@/lib/models';
+import { cn } from '@/lib/utils';
+
+type Draft = Omit<Character, 'id' | 'createdAt'> & { id?: string; createdAt?: number };
+
+const emptyDraft: Draft = { name: '', description: '', imageIds: [], appearanceNotes: [] };
+
+function blobToBase64(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+        reader.onerror = reject;
+        reader.readAsDataURL(blob);
+    });
+}
+
+export default function CharactersPage() {
+    const router = useRouter();
+    const [characters, setCharacters] = useState<Character[]>([]);
+    const [images, setImages] = useState<{ id: string; url: string; name: string }[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const [draft, setDraft] = useState<Draft>(emptyDraft);
+    const [isAnalyzing, setIsAnalyzing] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    const loadData = useCallback(async () => {
+        try {
+            const [storedChars, storedImages] = await Promise.all([getAllCharacters(), getAllImages()]);
+            setCharacters(storedChars.reverse()); // Show newest first
+            setImages(storedImages.map(img => ({
+                id: img.id,
+                url: URL.createObjectURL(img.data),
+                name: img.name
+            })).reverse());
+        } catch (err) {
+            console.error("Failed to load characters", err);
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadData();
+        return () => {
+            // Cleanup URLs on unmount
+            images.forEach(img => URL.revokeObjectURL(img.url));
+        };
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    const imageUrl = (id: string) => images.find(img => img.id === id)?.url;
+
+    const toggleImage = (id: string) => {
+        setDraft(prev => ({
+            ...prev,
+            imageIds: prev.imageIds.includes(id)
+                ? prev.imageIds.filter(i => i !== id)
+                : [...prev.imageIds, id]
+        }));
+    };
+
+    const notes = draft.appearanceNotes || [];
+    const updateNote = (index: number, patch: Partial<AppearanceNote>) => {
+        setDraft(prev => ({
+            ...prev,
+            appearanceNotes: (prev.appearanceNotes || []).map((n, i) => i === index ? { ...n, ...patch } : n)
+        }));
+    };
+
+    const handleAnalyze = async () => {
+        if (draft.imageIds.length === 0) {
+            setError('解析する画像を選択してください');
+            return;
+        }
+
+        setIsAnalyzing(true);
+        setError('');
+        try {
+            // The first selected image is treated as the main reference
+            const record = await getImage(draft.imageIds[0]);
+            if (!record) throw new Error('画像が見つかりません');
+            // Runs on the server with the selected credential profile (or Vertex AI)
+            const config: GeminiConfig = {
+                provider: localStorage.getItem('gemini_provider') === 'vertex' ? 'vertex' : 'google',
+                profile: loadProfileName(),
+                projectId: localStorage.getItem('vertex_project_id') || '',
+                location: localStorage.getItem('vertex_location') || 'us-central1'
+            };
+            const description = await analyzeCharacterAction(
+                config,
+                { base64: await blobToBase64(record.data), type: record.type },
+                loadModelSettings().visionModel
+            );
+            setDraft(prev => ({ ...prev, description }));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : '解析中にエラーが発生しました');
+        } finally {
+            setIsAnalyzing(false);
+        }
+    };
+
+    const handleSave = async () => {
+        if (!draft.name.trim()) {
+            setError('キャラクター名を入力してください');
+            return;
+        }
+
+        if (notes.some(n => !n.chapter.trim() && n.note.trim())) {
+            setError('外見メモには章を入力してください');
+            return;
+        }
+
+        setIsSaving(true);
+        setError('');
+        try {
+            if (draft.id && draft.createdAt) {
+                const updated = await updateCharacter(draft as Character);
+                setCharacters(prev => prev.map(c => c.id === updated.id ? updated : c));
+                setDraft(updated);
+            } else {
+                const created = await saveCharacter({
+                    name: draft.name.trim(),
+                    description: draft.description,
+                    imageIds: draft.imageIds,
+                    appearanceNotes: notes
+                });
+                setCharacters(prev => [created, ...prev]);
+                setDraft(created);
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : '保存に失敗しました');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        if (confirm('このキャラクターを削除しますか？')) {
+            await deleteCharacter(id);
+            setCharacters(prev => prev.filter(c => c.id !== id));
+            if (draft.id === id) setDraft(emptyDraft);
+        }
+    };
+
+    return (
+        <div className="max-w-6xl mx-auto space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
+            <div>
+                <h1 className="text-3xl font-bold tracking-tight">キャラクター</h1>
+                <p className="text-muted-foreground mt-2">
+                    アセットの画像からキャラクターを作成し、特徴を登録します。制作画面でキャラクター単位で選択できます。
+                </p>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {/* Character List */}
+                <div className="space-y-3">
+                    <button
+                        onClick={() => { setDraft(emptyDraft); setError(''); }}
+                        className="w-full flex items-center justify-center gap-2 rounded-xl border-2 border-dashed border-white/20 py-3 text-sm text-muted-foreground hover:bg-white/5 hover:border-white/40 hover:text-white transition-all"
+                    >
+                        <Plus size={16} /> 新しいキャラクター
+                    </button>
+
+                    {isLoading ? (
+                        <div className="flex justify-center py-12">
+                            <Loader2 className="animate-spin text-primary" size={32} />
+                        </div>
+                    ) : characters.length === 0 ? (
+                        <div className="text-center py-12 text-muted-foreground border rounded-lg bg-muted/20 text-sm">
+                            キャラクターがまだいません。
+                        </div>
+                    ) : (
+                        characters.map(character => {
+                            const thumb = character.imageIds.map(imageUrl).find(Boolean);
+                            return (
+                                <div
+                                    key={character.id}
+                                    onClick={() => { setDraft(character); setError(''); }}
+                                    className={cn(
+                                        "group flex items-center gap-3 p-3 rounded-xl border cursor-pointer transition-all",
+                                        draft.id === character.id
+                                            ? "border-indigo-500 bg-indigo-500/10"
+                                            : "border-white/10 hover:border-white/20 hover:bg-white/5"
+                                    )}
+                                >
+                                    <div className="w-12 h-12 min-w-[3rem] rounded-lg overflow-hidden bg-white/5 flex items-center justify-center">
+                                        {thumb ? (
+                                            // eslint-disable-next-line @next/next/no-img-element
+                                            <img src={thumb} alt={character.name} className="w-full h-full object-cover" />
+                                        ) : (
+                                            <User size={20} className="text-muted-foreground" />
+                                        )}
+                                    </div>
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-sm font-semibold text-white truncate">{character.name}</p>
+                                        <p className="text-xs text-muted-foreground truncate">{character.description || '説明なし'}</p>
+                                    </div>
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); handleDelete(character.id); }}
+                                        className="p-2 rounded-full text-muted-foreground opacity-0 group-hover:opacity-100 hover:bg-destructive hover:text-destructive-foreground transition-all"
+                                        title="削除"
+                                    >
+                                        <Trash2 size={14} />
+                                    </button>
+                                </div>
+                            );
+                        })
+                    )}
+                </div>
+
+                {/* Editor */}
+                <div className="lg:col-span-2 p-6 rounded-xl border bg-card text-card-foreground shadow-sm space-y-6">
+                    <div className="space-y-2">
+                        <label htmlFor="charName" className="block text-sm font-medium text-gray-300">名前</label>
+                        <input
+                            id="charName"
+                            type="text"
+                            value={draft.name}
+                            onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                            placeholder="例: ミナト"
+                            className="w-full rounded-lg border border-white/10 bg-black/50 px-4 py-2 text-white placeholder:text-gray-600 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                        />
+                    </div>
+
+                    <div className="space-y-2">
+                        <label className="text-sm font-medium text-gray-300 flex items-center justify-between">
+                            <span>参照画像</span>
+                            <span className="text-[10px] bg-indigo-500/20 text-indigo-300 px-2 py-0.5 rounded-full border border-indigo-500/30">{draft.imageIds.length}枚選択中</span>
+                        </label>
+                        <div className="grid grid-cols-4 md:grid-cols-6 gap-2">
+                            {images.map(img => {
+                                const isSelected = draft.imageIds.includes(img.id);
+                                return (
+                                    <div
+                                        key={img.id}
+                                        onClick={() => toggleImage(img.id)}
+                                        className={cn(
+                                            "aspect-square rounded-lg overflow-hidden cursor-pointer border-2 transition-all relative",
+                                            isSelected ? "border-indigo-500" : "border-white/5 hover:border-white/20"
+                                        )}
+                                    >
+                                        {/* eslint-disable-next-line @next/next/no-img-element */}
+                                        <img src={img.url} alt={img.name} className="w-full h-full object-cover" />
+                                        {isSelected && (
+                                            <div className="absolute top-1 right-1 w-5 h-5 bg-indigo-500 text-white rounded-full flex items-center justify-center">
+                                                <Check size={12} />
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                            <button
+                                onClick={() => router.push('/assets')}
+                                className="aspect-square rounded-lg border-2 border-dashed border-white/20 flex items-center justify-center hover:bg-white/5 hover:border-white/40 transition-all"
+                                title="アセットを追加"
+                            >
+                                <Plus size={18} className="text-muted-foreground" />
+                            </button>
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                            <label htmlFor="charDescription" className="text-sm font-medium text-gray-300">外見の説明</label>
+                            <button
+                                onClick={handleAnalyze}
+                                disabled={isAnalyzing || draft.imageIds.length === 0}
+                                className="inline-flex items-center gap-1 text-xs text-indigo-300 hover:text-indigo-200 disabled:opacity-50"
+                            >
+                                {isAnalyzing ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />}
+                                画像から特徴を解析
+                            </button>
+                        </div>
+                        <textarea
+                            id="charDescription"
+                            value={draft.description}
+                            onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+                            placeholder="例: young man, spiky silver hair, sharp red eyes, black trench coat..."
+                            className="flex min-h-[140px] w-full rounded-lg border border-white/10 bg-black/50 px-4 py-2 text-sm text-white placeholder:text-gray-600 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500 resize-y"
+                        />
+                        <p className="text-xs text-gray-400">
+                            この説明は生成時にプロンプトへ追加され、キャラクターの一貫性を保つために使われます。
+                        </p>
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                            <label className="text-sm font-medium text-gray-300 flex items-center gap-1">
+                                <Pin size={14} /> 章ごとの外見メモ
+                            </label>
+                            <button
+                                onClick={() => setDraft(prev => ({ ...prev, appearanceNotes: [...notes, { chapter: '', note: '' }] }))}
+                                className="inline-flex items-center gap-1 text-xs text-indigo-300 hover:text-indigo-200"
+                            >
+                                <Plus size={14} /> メモを追加
+                            </button>
+                        </div>
+                        {notes.map((note, idx) => (
+                            <div key={idx} className="flex gap-2">
+                                <input
+                                    type="text"
+                                    value={note.chapter}
+                                    onChange={(e) => updateNote(idx, { chapter: e.target.value })}
+                                    placeholder="第2話"
+                                    className="w-28 rounded-lg border border-white/10 bg-black/50 px-3 py-2 text-sm text-white placeholder:text-gray-600 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                                />
+                                <input
+                                    type="text"
+                                    value={note.note}
+                                    onChange={(e) => updateNote(idx, { note: e.target.value })}
+                                    placeholder="例: school uniform with a red scarf, hair tied up"
+                                    className="flex-1 rounded-lg border border-white/10 bg-black/50 px-3 py-2 text-sm text-white placeholder:text-gray-600 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                                />
+                                <button
+                                    onClick={() => setDraft(prev => ({ ...prev, appearanceNotes: notes.filter((_, i) => i !== idx) }))}
+                                    className="p-2 rounded-lg text-muted-foreground hover:bg-destructive hover:text-destructive-foreground transition-all"
+                                    title="削除"
+                                >
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+                        ))}
+                        <p className="text-xs text-gray-400">
+                            制作画面で同じ章を指定すると、そのメモが説明に加えられます (衣装替えなど)。
+                        </p>
+                    </div>
+
+                    {error && (
+                        <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm">
+                            {error}
+                        </div>
+                    )}
+
+                    <div className="flex justify-end">
+                        <button
+                            onClick={handleSave}
+                            disabled={isSaving}
+                            className="inline-flex items-center justify-center whitespace-nowrap rounded-md text-sm font-medium transition-colors disabled:pointer-events-none disabled:opacity-50 bg-primary text-primary-foreground hover:bg-primary/90 h-10 px-8 py-2"
+                        >
+                            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                            {draft.id ? '更新' : '作成'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,15 +1,38 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
-import { Sparkles, Image as ImageIcon, Plus, BookOpen, Layers, Paintbrush, Loader2, X, Download, Maximize2 } from 'lucide-react';
-import { getAllImages, getImage } from '@/lib/db';
+import { Sparkles, Plus, BookOpen, Layers, Paintbrush, Loader2, X, Download, User, FolderOpen, Palette } from 'lucide-react';
+import { getAllImages, getImage, getAllCharacters, Character, Project, ProjectFormat, ProjectPage, getProject, getProjectPages, saveProject, savePage, getPage, getPageVersions, savePageVersion, setCanonicalVersion, getLettering, saveLettering, getAllStyles } from '@/lib/db';
 // Removed client-side gemini imports
-// import { generateMangaPrompts, generatePromptsFromScript, generateImage } from '@/lib/gemini';
-import { generateImageAction, generateMangaPromptsAction, GeminiConfig } from '@/app/actions/gemini';
-import { generateImageFal } from '@/lib/fal';
-import { cn } from '@/lib/utils';
+import { generateMangaPromptsAction, regenerateMangaPromptAction, generateStoryboardAction, generateWebtoonPanelsAction, GeminiConfig } from '@/app/actions/gemini';
+import { IMAGE_PROVIDERS, ImageProviderId, ProviderContext, getImageProvider, generateWithProvider, generateVariations, supportedParams, ImageRequest, editWithProvider } from '@/lib/image-provider';
+import { AdvancedSettings, GenerationParams, DEFAULT_ADVANCED_SETTINGS, resolveParams } from '@/lib/generation';
+import { DEFAULT_MODELS, loadModelSettings } from '@/lib/models';
+import { StylePreset, BUILT_IN_STYLES, DEFAULT_STYLE_ID, findStyle, mergeNegativePrompt } from '@/lib/styles';
+import { buildStoryboardPrompt, buildPanelPrompt, MangaPage } from '@/lib/storyboard';
+import { budgetProblemAction } from '@/app/actions/usage';
+import { listProfilesAction, ProfileSummary } from '@/app/actions/vault';
+import { loadGeminiConfig } from '@/lib/gemini-config';
+import { detectCharacters, describeCharacter, castPrompt, chapterLabels } from '@/lib/characters';
+import { StoryboardEditor } from '@/components/StoryboardEditor';
+import { PromptPlanEditor, PlannedPrompt } from '@/components/PromptPlanEditor';
+import { PageCard, WorkspacePage } from '@/components/PageCard';
+import { LetteringEditor } from '@/components/LetteringEditor';
+import { GenerationQueue } from '@/components/GenerationQueue';
+import { AdvancedSettingsPanel } from '@/components/AdvancedSettingsPanel';
+import { WebtoonStrip } from '@/components/WebtoonStrip';
+import { LayoutEditor } from '@/components/LayoutEditor';
+import { InpaintEditor } from '@/components/InpaintEditor';
+import { maskToBlackWhite, compositeMasked } from '@/lib/inpaint';
+import { LayoutSettings, DEFAULT_LAYOUT_SETTINGS, PANEL_SEPARATOR, splitPanelPrompts, resolveLayout, layoutPanelCount, pageSize, placePanels, composePage } from '@/lib/layout';
+import { WebtoonSettings, DEFAULT_WEBTOON_SETTINGS, WEBTOON_PANEL_RATIO, stitchStrip, sliceStrip } from '@/lib/webtoon';
+import { QueueJob, createJobs, loadQueueSettings, runQueue } from '@/lib/queue';
+import { Bubble, flattenLettering } from '@/lib/lettering';
+import { encodeImage, fileExtension, EncodeOptions, OutputFormat, PrintSizeKey, DEFAULT_ENCODE_OPTIONS, PRINT_SIZES, DPI_OPTIONS } from '@/lib/encode';
+import { cn, base64ToBlob } from '@/lib/utils';
 import { motion, AnimatePresence } from 'framer-motion';
+import { buildPdf, buildCbz, buildEpub, toExportPage, ExportPage } from '@/lib/comic-export';
 import JSZip from 'jszip';
 import { saveAs } from 'file-saver';
 
@@ -27,42 +50,123 @@ function blobToBase64(blob: Blob): Promise<string> {
   });
 }
 
+// Helper for Blob to full data URL (used when reopening stored pages)
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+}
+
+// What one page's image request is built from
+interface PageReferences {
+  validImages: { base64: string; type: string }[];
+  castPrompt: string; // descriptions of the characters on the page
+  previousPage?: { base64: string; type: string }; // continuity reference
+  style: StylePreset;
+  styleImages: { base64: string; type: string }[];
+  projectId?: string; // usage log attribution
+}
+
 export default function Workspace() {
   const router = useRouter();
 
   // Settings State
   const [geminiConfig, setGeminiConfig] = useState<GeminiConfig>({ provider: 'google' });
-  const [falApiKey, setFalApiKey] = useState('');
+  const [credentials, setCredentials] = useState<ProfileSummary | null>(null);
+  const [falModel, setFalModel] = useState(DEFAULT_MODELS.falModel);
+  const [falInpaintModel, setFalInpaintModel] = useState(DEFAULT_MODELS.falInpaintModel);
 
   const [prompt, setPrompt] = useState('');
   const [pageCount, setPageCount] = useState(1);
+  const [panelCount, setPanelCount] = useState(6); // webtoon mode
+  const [format, setFormat] = useState<ProjectFormat>('pages');
+  const [webtoonSettings, setWebtoonSettings] = useState<WebtoonSettings>(DEFAULT_WEBTOON_SETTINGS);
+  const [layoutEnabled, setLayoutEnabled] = useState(false);
+  const [layoutSettings, setLayoutSettings] = useState<LayoutSettings>(DEFAULT_LAYOUT_SETTINGS);
   const [aspectRatio, setAspectRatio] = useState('2:3');
-  const [outputFormat, setOutputFormat] = useState('png');
+  const [exportOptions, setExportOptions] = useState<EncodeOptions>(DEFAULT_ENCODE_OPTIONS);
+  const [rightToLeft, setRightToLeft] = useState(true);
+  const [advancedSettings, setAdvancedSettings] = useState<AdvancedSettings>(DEFAULT_ADVANCED_SETTINGS);
+  const [isExporting, setIsExporting] = useState(false);
 
-  const [provider, setProvider] = useState<'gemini' | 'fal'>('gemini');
-  const [inputMode, setInputMode] = useState<'idea' | 'script'>('idea');
+  const [provider, setProvider] = useState<ImageProviderId>('gemini');
+  const [inputMode, setInputMode] = useState<'idea' | 'script' | 'storyboard'>('idea');
   const [selectedImageIds, setSelectedImageIds] = useState<string[]>([]);
   const [availableImages, setAvailableImages] = useState<{ id: string; url: string; name: string }[]>([]);
+  const [selectedCharacterIds, setSelectedCharacterIds] = useState<string[]>([]);
+  const [availableCharacters, setAvailableCharacters] = useState<Character[]>([]);
+  const [chapter, setChapter] = useState('');
+  const [continuity, setContinuity] = useState(false);
+  const [userStyles, setUserStyles] = useState<StylePreset[]>([]);
+  const [styleId, setStyleId] = useState(DEFAULT_STYLE_ID);
 
   const [isGenerating, setIsGenerating] = useState(false);
-  const [generatedImages, setGeneratedImages] = useState<string[]>([]);
+  const [storyboard, setStoryboard] = useState<MangaPage[] | null>(null);
+  const [plannedPrompts, setPlannedPrompts] = useState<PlannedPrompt[] | null>(null);
+  const [regeneratingPromptId, setRegeneratingPromptId] = useState<string | null>(null);
+  const [generatedPages, setGeneratedPages] = useState<WorkspacePage[]>([]);
+  const [jobs, setJobs] = useState<QueueJob[]>([]);
+  const [isQueueRunning, setIsQueueRunning] = useState(false);
+  const queueControllerRef = useRef<AbortController | null>(null);
+  // What the current render run was started with, so a cancelled run resumes with the same inputs
+  const queueRunRef = useRef<{
+    projectId: string;
+    references: Awaited<ReturnType<typeof prepareReferences>>;
+    provider: ImageProviderId;
+    aspectRatio: string;
+    advanced: AdvancedSettings;
+    layout: LayoutSettings | null; // pages are composited from separately generated panels
+    rendered: Map<number, { base64: string; type: string }>; // finished pages by order, for continuity
+  } | null>(null);
+  const [regeneratingPageId, setRegeneratingPageId] = useState<string | null>(null);
+  const [letteringPageId, setLetteringPageId] = useState<string | null>(null);
+  const [currentProject, setCurrentProject] = useState<Project | null>(null);
   const [statusMessage, setStatusMessage] = useState('');
   const [error, setError] = useState('');
-  const [previewImage, setPreviewImage] = useState<string | null>(null);
+  const [previewPageId, setPreviewPageId] = useState<string | null>(null);
+  const [isMasking, setIsMasking] = useState(false);
+  const [editingPageId, setEditingPageId] = useState<string | null>(null);
+  const [editProgress, setEditProgress] = useState('');
+
+  const providerContext: ProviderContext = { geminiConfig, credentials, falModel, falInpaintModel };
+  const styles = [...BUILT_IN_STYLES, ...userStyles];
+  const selectedStyle = findStyle(styles, styleId);
+  // Prompt planning calls use the advanced panel's temperature
+  const planningConfig: GeminiConfig = { ...geminiConfig, temperature: advancedSettings.planningTemperature ?? undefined };
+
+  // Transcode (and optionally resize) with the selected export settings before saving
+  const downloadImage = async (url: string, basename: string) => {
+    try {
+      const blob = await encodeImage(url, exportOptions);
+      saveAs(blob, `${basename}.${fileExtension(exportOptions.format)}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '画像の書き出しに失敗しました');
+    }
+  };
 
-  const downloadImage = (url: string, filename: string) => {
-    saveAs(url, filename);
+  // Lettering is stored separately and only flattened onto the artwork on export
+  const downloadPage = async (page: WorkspacePage, basename: string) => {
+    await downloadImage(await flattenLettering(page.url, page.lettering), basename);
   };
 
   const downloadAllImages = async () => {
     const zip = new JSZip();
     let count = 0;
 
-    generatedImages.forEach((imgUrl, idx) => {
-      const base64Data = imgUrl.split(',')[1];
-      zip.file(`MangaPage_${idx + 1}.png`, base64Data, { base64: true });
-      count++;
-    });
+    try {
+      for (const [idx, page] of generatedPages.entries()) {
+        const flattened = await flattenLettering(page.url, page.lettering);
+        const blob = await encodeImage(flattened, exportOptions);
+        zip.file(`MangaPage_${idx + 1}.${fileExtension(exportOptions.format)}`, blob);
+        count++;
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '画像の書き出しに失敗しました');
+      return;
+    }
 
     if (count === 0) return;
 
@@ -70,37 +174,80 @@ export default function Workspace() {
     saveAs(content, "manga_pages.zip");
   };
 
-  // Initial Data Load
-  useEffect(() => {
-    // Load Gemini / Vertex Config
-    const storedProvider = localStorage.getItem('gemini_provider') as 'google' | 'vertex' || 'google';
-    const apiKey = localStorage.getItem('gemini_api_key') || '';
-    const projectId = localStorage.getItem('vertex_project_id') || '';
-    const location = localStorage.getItem('vertex_location') || 'us-central1';
-
-    setGeminiConfig({
-      provider: storedProvider,
-      apiKey,
-      projectId,
-      location
-    });
+  // PDF / CBZ / EPUB all read the same ordered page list; PDF pages are always JPEG
+  const exportComic = async (kind: 'pdf' | 'cbz' | 'epub') => {
+    if (generatedPages.length === 0) return;
+    setIsExporting(true);
+    setError('');
+
+    try {
+      const options: EncodeOptions = kind === 'pdf' ? { ...exportOptions, format: 'jpeg' } : exportOptions;
+      const pages: ExportPage[] = [];
+      for (const page of generatedPages) {
+        const flattened = await flattenLettering(page.url, page.lettering);
+        pages.push(await toExportPage(await encodeImage(flattened, options)));
+      }
 
-    const falKey = localStorage.getItem('fal_api_key');
-    if (falKey) setFalApiKey(falKey);
+      const title = currentProject?.name || 'Manga';
+      const meta = { title, language: 'ja', rightToLeft };
+      const filename = title.replace(/[\\/:*?"<>|]/g, '_');
 
-    // Basic check for required keys based on provider (loose check)
-    if (!apiKey && storedProvider === 'google' && !falKey) {
-      // Just a hint, don't force redirect immediately as they might strictly use fal or vertex
+      if (kind === 'pdf') {
+        saveAs(await buildPdf(pages, meta, exportOptions.printSize, exportOptions.dpi), `${filename}.pdf`);
+      } else if (kind === 'cbz') {
+        saveAs(await buildCbz(pages, meta), `${filename}.cbz`);
+      } else {
+        saveAs(await buildEpub(pages, meta), `${filename}.epub`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '書き出しに失敗しました');
+    } finally {
+      setIsExporting(false);
     }
+  };
 
-    // Redirect logic: if no API keys at all are found that might make the app usable
-    // If google provider selected but no key, AND no fal key, maybe redirect.
-    // But now we have Vertex too. Let's start lenient.
-    // If absolutely no config related to the current provider is found, warn or redirect.
-    if (!apiKey && !projectId && !falKey) {
-      // Only redirect if truly empty to avoid annoying user
-      // router.push('/settings'); 
+  // Stitch the panels (with lettering) into one strip and cut it into platform-sized slices
+  const exportWebtoon = async () => {
+    if (generatedPages.length === 0) return;
+    setIsExporting(true);
+    setError('');
+
+    try {
+      const panels = await Promise.all(generatedPages.map(page => flattenLettering(page.url, page.lettering)));
+      const strip = await stitchStrip(panels, webtoonSettings);
+      // Slices keep the strip width; only format, quality and DPI come from the export settings
+      const options: EncodeOptions = { ...exportOptions, printSize: 'original' };
+      const title = currentProject?.name || 'Webtoon';
+      const filename = title.replace(/[\\/:*?"<>|]/g, '_');
+
+      const zip = new JSZip();
+      const slices = sliceStrip(strip, webtoonSettings.sliceHeight);
+      for (const [idx, slice] of slices.entries()) {
+        zip.file(`${filename}_${String(idx + 1).padStart(3, '0')}.${fileExtension(options.format)}`, await encodeImage(slice, options));
+      }
+      saveAs(await zip.generateAsync({ type: 'blob' }), `${filename}_webtoon.zip`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '書き出しに失敗しました');
+    } finally {
+      setIsExporting(false);
     }
+  };
+
+  // Initial Data Load
+  useEffect(() => {
+    // Load Gemini / Vertex Config
+    const config = loadGeminiConfig();
+    const profile = config.profile;
+    setGeminiConfig(config);
+
+    const models = loadModelSettings();
+    setFalModel(models.falModel);
+    setFalInpaintModel(models.falInpaintModel);
+
+    // Only which keys the profile holds comes back from the server, never the keys
+    listProfilesAction()
+      .then(profiles => setCredentials(profiles.find(p => p.name === profile) || null))
+      .catch(err => console.error("Failed to load credential profiles", err));
 
     const loadImages = async () => {
       const imgs = await getAllImages();
@@ -113,10 +260,38 @@ export default function Workspace() {
     };
 
     loadImages();
+    getAllCharacters().then(chars => setAvailableCharacters(chars.reverse()));
+    getAllStyles().then(setUserStyles);
+    setStyleId(localStorage.getItem('style_id') || DEFAULT_STYLE_ID);
 
-    // Clean up URLs
-    return () => availableImages.forEach(img => URL.revokeObjectURL(img.url));
-  }, []); // eslint-disable-next-line react-hooks/exhaustive-deps
+    // Reopen a stored project (linked from the project browser as /?project=<id>)
+    const openProjectId = new URLSearchParams(window.location.search).get('project');
+    if (openProjectId) loadProject(openProjectId);
+
+    // Clean up URLs and stop a render still running, so its fal jobs don't keep billing
+    return () => {
+      availableImages.forEach(img => URL.revokeObjectURL(img.url));
+      queueControllerRef.current?.abort();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const loadProject = async (id: string) => {
+    const project = await getProject(id);
+    if (!project) {
+      setError('プロジェクトが見つかりません');
+      return;
+    }
+    const pages = await getProjectPages(id);
+    setCurrentProject(project);
+    setPrompt(project.prompt);
+    setInputMode(project.inputMode);
+    setFormat(project.format || 'pages');
+    setChapter(project.chapter || '');
+    setJobs([]);
+    queueRunRef.current = null;
+    setGeneratedPages(await Promise.all(pages.map(toWorkspacePage)));
+  };
 
   const toggleImageSelection = (id: string) => {
     setSelectedImageIds(prev =>
@@ -124,97 +299,642 @@ export default function Workspace() {
     );
   };
 
-  const handleGenerate = async () => {
-    if (!prompt.trim()) return;
+  const selectStyle = (id: string) => {
+    setStyleId(id);
+    localStorage.setItem('style_id', id);
+  };
+
+  // Webtoons are planned panel by panel, so the page-based storyboard mode doesn't apply
+  const selectFormat = (value: ProjectFormat) => {
+    setFormat(value);
+    if (value === 'webtoon' && inputMode === 'storyboard') setInputMode('idea');
+  };
+
+  const toggleCharacterSelection = (id: string) => {
+    setSelectedCharacterIds(prev =>
+      prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]
+    );
+  };
+
+  // Check keys based on current provider selection and config
+  const checkConfig = (imageProvider: ImageProviderId = provider): boolean => {
+    const problem = getImageProvider(imageProvider).checkConfig(providerContext);
+    if (problem) {
+      setError(problem);
+      return false;
+    }
+
+    // Prompt planning always runs on Gemini (Google or Vertex), whichever provider renders the images
+    if (!credentials?.hasGeminiKey && geminiConfig.provider === 'google' && !geminiConfig.projectId) {
+      setError('プロンプト生成にはGemini/Vertex AIの設定が必要です。');
+      return false;
+    }
+    return true;
+  };
+
+  // Caps set on the usage page; every paid request checks them first
+  const checkBudget = async (projectId?: string): Promise<boolean> => {
+    const problem = await budgetProblemAction(projectId);
+    if (problem) {
+      setError(problem);
+      return false;
+    }
+    return true;
+  };
+
+  // Load stored reference images as Server Action payloads
+  const loadReferenceImages = async (referenceIds: string[]) => {
+    // Get Blob data for selected images
+    const selectedBlobs = await Promise.all(
+      referenceIds.map(async id => {
+        const record = await getImage(id);
+        return record ? { data: record.data, type: record.type } : null;
+      })
+    );
+
+    // Convert Blobs to Base64 for Server Action Transfer
+    return Promise.all(
+      (selectedBlobs.filter(item => item !== null) as { data: Blob; type: string }[])
+        .map(async (img) => ({
+          base64: await blobToBase64(img.data),
+          type: img.type
+        }))
+    );
+  };
+
+  // Resolve the selected characters, reference images and style into Server Action payloads
+  const prepareReferences = async () => {
+    // Selected characters contribute their own reference images (deduplicated with loose picks)
+    const selectedCharacters = availableCharacters.filter(c => selectedCharacterIds.includes(c.id));
+    const referenceIds = Array.from(new Set([
+      ...selectedCharacters.flatMap(c => c.imageIds),
+      ...selectedImageIds
+    ]));
+    const looseImageIds = selectedImageIds.filter(id => !selectedCharacters.some(c => c.imageIds.includes(id)));
+
+    return {
+      referenceIds,
+      validImages: await loadReferenceImages(referenceIds),
+      characters: selectedCharacters.map(c => ({ name: c.name, description: describeCharacter(c, chapter) })),
+      // Per-page rendering attaches only the characters a page names, plus the loose picks
+      cast: await Promise.all(selectedCharacters.map(async character => ({
+        character,
+        images: await loadReferenceImages(character.imageIds)
+      }))),
+      looseImageIds,
+      looseImages: await loadReferenceImages(looseImageIds),
+      chapter: chapter.trim(),
+      continuity,
+      style: selectedStyle,
+      styleImages: await loadReferenceImages(selectedStyle.referenceImageIds)
+    };
+  };
+
+  // Narrow a run's references to one page: the characters its prompt names, with their notes.
+  // characterIds stays unset when the run had no characters selected, so [] means none were named.
+  const pageReferences = (
+    pagePrompt: string,
+    references: Awaited<ReturnType<typeof prepareReferences>>,
+    previousPage?: { base64: string; type: string }
+  ) => {
+    const cast = detectCharacters(pagePrompt, references.cast.map(m => m.character));
+    const members = references.cast.filter(m => cast.includes(m.character));
+    return {
+      referenceIds: Array.from(new Set([...members.flatMap(m => m.character.imageIds), ...references.looseImageIds])),
+      characterIds: references.cast.length > 0 ? cast.map(c => c.id) : undefined,
+      validImages: [...members.flatMap(m => m.images), ...references.looseImages],
+      castPrompt: castPrompt(cast, references.chapter),
+      previousPage,
+      style: references.style,
+      styleImages: references.styleImages
+    };
+  };
+
+  // Parameters for one page: the advanced panel plus the style's negative prompt, limited to what the provider accepts
+  const pageParams = (imageProvider: ImageProviderId, advanced: AdvancedSettings, style: StylePreset) => {
+    const params = resolveParams(advanced);
+    return supportedParams(imageProvider, {
+      ...params,
+      negativePrompt: mergeNegativePrompt(params.negativePrompt, style),
+      styleId: style.id
+    }, providerContext);
+  };
+
+  // Build the provider request for a page prompt. The attachment instructions are only added when
+  // the provider receives the images; others get the cast notes alone.
+  const imageRequest = (
+    imageProvider: ImageProviderId,
+    pagePrompt: string,
+    references: PageReferences,
+    ratio: string,
+    params: GenerationParams
+  ): ImageRequest => {
+    const { castPrompt, style, projectId } = references;
+    const attached = getImageProvider(imageProvider).capabilities(providerContext).referenceImages;
+    const validImages = attached ? references.validImages : [];
+    const previousPage = attached ? references.previousPage : undefined;
+    const styleImages = attached ? references.styleImages : [];
+
+    let imagePrompt = pagePrompt;
+    if (castPrompt) imagePrompt += `\n\n${castPrompt}`;
+
+    // Setup strict consistency
+    if (validImages.length > 0) {
+      imagePrompt += `\n\n[System Instruction]: Use the attached images as strict character references. Maintain character consistency throughout the page.`;
+    }
+    // The previous page follows the character references
+    if (previousPage) {
+      imagePrompt += `\n\n[System Instruction]: Attached image ${validImages.length + 1} is the previous page. Keep continuity with it (outfits, props, setting, lighting), but do not copy its layout or content.`;
+    }
+    // Style references are attached after the character references
+    if (styleImages.length > 0) {
+      imagePrompt += `\n\n[System Instruction]: The last ${styleImages.length} attached image(s) are art style references only. Match their line work, shading and colouring, not their characters or content.`;
+    }
+
+    return {
+      ...params,
+      prompt: imagePrompt,
+      referenceImages: [...validImages, ...(previousPage ? [previousPage] : []), ...styleImages],
+      aspectRatio: ratio,
+      style: style.render,
+      projectId
+    };
+  };
+
+  // Generate a single image with the given provider and return its bytes
+  const requestImage = async (
+    imageProvider: ImageProviderId,
+    pagePrompt: string,
+    references: PageReferences,
+    ratio: string,
+    params: GenerationParams,
+    onProgress?: (message: string) => void,
+    signal?: AbortSignal
+  ) => generateWithProvider(imageProvider, {
+    ...imageRequest(imageProvider, pagePrompt, references, ratio, params),
+    onProgress,
+    signal
+  }, providerContext);
 
-    // Check keys based on current provider selection and config
-    if (provider === 'gemini') {
-      if (geminiConfig.provider === 'google' && !geminiConfig.apiKey) {
-        setError('Gemini API Keyが設定されていません (Google AI Studio)');
-        return;
+  // Generate every panel on its own at the panel's aspect ratio and composite them into the page
+  const requestComposedPage = async (
+    imageProvider: ImageProviderId,
+    pagePrompt: string,
+    references: PageReferences,
+    ratio: string,
+    layout: LayoutSettings,
+    params: GenerationParams,
+    onProgress?: (message: string) => void,
+    signal?: AbortSignal
+  ) => {
+    const panelPrompts = splitPanelPrompts(pagePrompt);
+    const size = pageSize(ratio, layout);
+    const placed = placePanels(resolveLayout(layout, panelPrompts.length), layout, size);
+
+    const panelUrls: string[] = [];
+    for (const [idx, panel] of placed.entries()) {
+      const label = `コマ ${idx + 1}/${placed.length}`;
+      onProgress?.(label);
+      const data = await requestImage(imageProvider, panelPrompts[idx], references, panel.aspectRatio, params,
+        progress => onProgress?.(`${label}: ${progress}`), signal);
+      panelUrls.push(await blobToDataUrl(data));
+    }
+    return base64ToBlob(await composePage(panelUrls, placed, layout, size), 'image/png');
+  };
+
+  // Render one image per prompt through the queue and store every page in a new project
+  const renderPages = async (
+    prompts: string[],
+    references: Awaited<ReturnType<typeof prepareReferences>>,
+    dialogues: string[][] = [],
+    layout: LayoutSettings | null = null
+  ) => {
+    // Every run is stored as its own project so a reload never loses paid generations
+    const project = await saveProject({
+      name: prompt.trim().slice(0, 30),
+      prompt,
+      inputMode,
+      format,
+      chapter: references.chapter || undefined
+    });
+    setCurrentProject(project);
+
+    setStatusMessage('漫画を描いています...');
+    // Webtoon panels are all rendered tall and scaled to the strip width when stitched
+    const ratio = format === 'webtoon' ? WEBTOON_PANEL_RATIO : aspectRatio;
+    queueRunRef.current = { projectId: project.id, references, provider, aspectRatio: ratio, advanced: advancedSettings, layout, rendered: new Map() };
+    const newJobs = createJobs(prompts, dialogues);
+    setJobs(newJobs);
+    await runJobs(newJobs);
+  };
+
+  // Run (or resume) the queued jobs of the current render; finished pages appear in order as they land
+  const runJobs = async (queueJobs: QueueJob[]) => {
+    const run = queueRunRef.current;
+    if (!run) return;
+
+    const controller = new AbortController();
+    queueControllerRef.current = controller;
+    setIsQueueRunning(true);
+
+    const settings = loadQueueSettings();
+    const failed = new Set<string>();
+    try {
+      await runQueue(queueJobs, async (job) => {
+        // A cap reached mid-run fails the remaining pages; they can be resumed after raising it
+        const overBudget = await budgetProblemAction(run.projectId);
+        if (overBudget) throw new Error(overBudget);
+
+        // Recorded with the page so it can be reproduced
+        const params = pageParams(run.provider, run.advanced, run.references.style);
+        const onProgress = (progress: string) =>
+          setJobs(prev => prev.map(j => j.id === job.id && j.status === 'running' ? { ...j, progress } : j));
+        // Continuity runs one page at a time, so the nearest earlier page has already landed
+        const previousOrder = Math.max(-1, ...Array.from(run.rendered.keys()).filter(order => order < job.order));
+        const references = {
+          ...pageReferences(job.prompt, run.references, run.references.continuity ? run.rendered.get(previousOrder) : undefined),
+          projectId: run.projectId
+        };
+        const image = run.layout
+          ? await requestComposedPage(run.provider, job.prompt, references, run.aspectRatio, run.layout, params, onProgress, controller.signal)
+          : await requestImage(run.provider, job.prompt, references, run.aspectRatio, params, onProgress, controller.signal);
+        if (run.references.continuity) {
+          run.rendered.set(job.order, { base64: await blobToBase64(image), type: image.type || 'image/png' });
+        }
+
+        const stored = await savePage({
+          projectId: run.projectId,
+          order: job.order,
+          prompt: job.prompt,
+          provider: run.provider,
+          aspectRatio: run.aspectRatio,
+          referenceIds: references.referenceIds,
+          characterIds: references.characterIds,
+          continuity: run.references.continuity || undefined,
+          data: image,
+          dialogue: job.dialogue,
+          params,
+          layout: run.layout || undefined
+        });
+
+        const imageUrl = await blobToDataUrl(image);
+        const page: WorkspacePage = {
+          id: stored.id,
+          order: stored.order,
+          url: imageUrl,
+          prompt: stored.prompt,
+          versionId: stored.versionId,
+          versions: [{ id: stored.versionId!, url: imageUrl }],
+          dialogue: job.dialogue,
+          characters: characterNames(references.characterIds),
+          params,
+          lettering: []
+        };
+        setGeneratedPages(prev => [...prev, page].sort((a, b) => a.order - b.order));
+        return stored.id;
+      }, {
+        concurrency: run.references.continuity ? 1 : settings.concurrency[run.provider],
+        maxRetries: settings.maxRetries,
+        signal: controller.signal,
+        onUpdate: (job) => {
+          if (job.status === 'failed') failed.add(job.id);
+          else failed.delete(job.id);
+          setJobs(prev => prev.map(j => j.id === job.id ? job : j));
+        }
+      });
+      if (failed.size > 0) {
+        setError(`${failed.size}ページの生成に失敗しました。「残りを再開」で再試行できます。`);
       }
-      if (geminiConfig.provider === 'vertex' && (!geminiConfig.projectId || !geminiConfig.location)) {
-        setError('Vertex AIの設定（Project ID, Location）が不足しています');
-        return;
+    } finally {
+      queueControllerRef.current = null;
+      setIsQueueRunning(false);
+    }
+  };
+
+  const handleCancelQueue = () => {
+    queueControllerRef.current?.abort();
+  };
+
+  const handleResumeQueue = async () => {
+    setError('');
+    try {
+      await runJobs(jobs);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '生成中にエラーが発生しました');
+    }
+  };
+
+  // Canonical image of the nearest earlier page in the same project
+  const previousPageImage = async (record: ProjectPage) => {
+    const previous = (await getProjectPages(record.projectId)).filter(p => p.order < record.order).pop();
+    return previous ? { base64: await blobToBase64(previous.data), type: previous.data.type || 'image/png' } : undefined;
+  };
+
+  // Re-run a stored page with the same (or an edited) prompt; every take is kept as a version
+  const handleRegeneratePage = async (pageId: string, pagePrompt: string, variations: number) => {
+    const record = await getPage(pageId);
+    if (!record) {
+      setError('ページが見つかりません');
+      return;
+    }
+    if (!checkConfig(record.provider) || !(await checkBudget(record.projectId))) return;
+
+    setRegeneratingPageId(pageId);
+    setError('');
+
+    try {
+      // A page keeps the style it was made with; pages from before style presets used the default
+      const style = findStyle(styles, record.params?.styleId);
+      const project = await getProject(record.projectId);
+      const references: PageReferences = {
+        validImages: await loadReferenceImages(record.referenceIds),
+        castPrompt: castPrompt(availableCharacters.filter(c => record.characterIds?.includes(c.id)), project?.chapter),
+        previousPage: record.continuity ? await previousPageImage(record) : undefined,
+        style,
+        styleImages: await loadReferenceImages(style.referenceImageIds),
+        projectId: record.projectId
+      };
+
+      // Pages saved before version history existed get their current take recorded first
+      if ((await getPageVersions(pageId)).length === 0) {
+        await savePageVersion({ pageId, prompt: record.prompt, data: record.data });
+      }
+
+      const params = pageParams(record.provider, advancedSettings, style);
+      let images: { data: Blob; seed?: number }[] = [];
+      if (record.layout) {
+        // Composited pages re-render every panel; each take steps the seed like repeated single requests
+        for (let i = 0; i < variations; i++) {
+          const seed = params.seed !== undefined ? params.seed + i : undefined;
+          const data = await requestComposedPage(
+            record.provider, pagePrompt, references, record.aspectRatio, record.layout, { ...params, seed }
+          );
+          images.push({ data, seed });
+        }
+      } else {
+        // Providers that can return several samples per request (Imagen) get one call
+        images = await generateVariations(
+          record.provider,
+          imageRequest(record.provider, pagePrompt, references, record.aspectRatio, params),
+          variations,
+          providerContext
+        );
+      }
+      for (const image of images) {
+        const version = await savePageVersion({
+          pageId,
+          prompt: pagePrompt,
+          data: image.data,
+          params: { ...params, seed: image.seed }
+        });
+        // The newest take becomes canonical; earlier ones stay selectable in the strip
+        await refreshPage(await setCanonicalVersion(pageId, version.id));
       }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '再生成中にエラーが発生しました');
+      console.error(err);
+    } finally {
+      setRegeneratingPageId(null);
     }
+  };
 
-    if (provider === 'fal' && !falApiKey) {
-      setError('Fal.ai API Keyが設定されていません');
+  // Repaint the masked region of a page from an instruction; the result is pasted back through
+  // the mask and saved as a new version, so the previous take stays selectable
+  const handleEditRegion = async (pageId: string, mask: HTMLCanvasElement, instruction: string) => {
+    const record = await getPage(pageId);
+    const page = generatedPages.find(p => p.id === pageId);
+    if (!record || !page) {
+      setError('ページが見つかりません');
       return;
     }
+    if (!checkConfig(record.provider) || !(await checkBudget(record.projectId))) return;
+
+    setEditingPageId(pageId);
+    setEditProgress('');
+    setError('');
+
+    try {
+      const style = findStyle(styles, record.params?.styleId);
+      if ((await getPageVersions(pageId)).length === 0) {
+        await savePageVersion({ pageId, prompt: record.prompt, data: record.data });
+      }
+
+      const params = pageParams(record.provider, advancedSettings, style);
+      const edited = await editWithProvider(record.provider, {
+        ...params,
+        prompt: instruction,
+        image: { base64: await blobToBase64(record.data), type: record.data.type || 'image/png' },
+        mask: { base64: maskToBlackWhite(mask), type: 'image/png' },
+        aspectRatio: record.aspectRatio,
+        style: style.render,
+        projectId: record.projectId,
+        onProgress: setEditProgress
+      }, providerContext);
+      const data = await compositeMasked(page.url, await blobToDataUrl(edited), mask);
+
+      const version = await savePageVersion({
+        pageId,
+        prompt: record.prompt,
+        data: base64ToBlob(data, 'image/png'),
+        params: record.params
+      });
+      await refreshPage(await setCanonicalVersion(pageId, version.id));
+      setIsMasking(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '部分修正中にエラーが発生しました');
+      console.error(err);
+    } finally {
+      setEditingPageId(null);
+    }
+  };
+
+  const handleSelectVersion = async (pageId: string, versionId: string) => {
+    try {
+      await refreshPage(await setCanonicalVersion(pageId, versionId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'バージョンの切り替えに失敗しました');
+    }
+  };
+
+  // Build a page card (canonical image, version strip and lettering) from the store
+  const toWorkspacePage = async (record: ProjectPage): Promise<WorkspacePage> => {
+    const [versions, lettering] = await Promise.all([getPageVersions(record.id), getLettering(record.id)]);
+    return {
+      id: record.id,
+      order: record.order,
+      url: await blobToDataUrl(record.data),
+      prompt: record.prompt,
+      versionId: record.versionId,
+      versions: await Promise.all(versions.map(async v => ({ id: v.id, url: await blobToDataUrl(v.data) }))),
+      dialogue: record.dialogue || [],
+      characters: characterNames(record.characterIds),
+      params: record.params,
+      lettering: lettering?.bubbles || []
+    };
+  };
+
+  // Names of the characters attached to a page, for its card
+  const characterNames = (ids?: string[]) => ids && availableCharacters.filter(c => ids.includes(c.id)).map(c => c.name);
+
+  // Sync one page card with the store
+  const refreshPage = async (record: ProjectPage) => {
+    const updated = await toWorkspacePage(record);
+    setGeneratedPages(prev => prev.map(p => p.id === record.id ? updated : p));
+  };
+
+  const handleSaveLettering = async (pageId: string, bubbles: Bubble[]) => {
+    await saveLettering(pageId, bubbles);
+    setGeneratedPages(prev => prev.map(p => p.id === pageId ? { ...p, lettering: bubbles } : p));
+  };
+
+  // Step 1 ("plan"): ask Gemini for page prompts and show them as editable cards
+  const handlePlan = async () => {
+    if (!prompt.trim()) return;
+    if (!checkConfig() || !(await checkBudget())) return;
 
     setIsGenerating(true);
     setError('');
     setStatusMessage('ストーリーから構成を考えています...');
-    setGeneratedImages([]);
 
     try {
-      // Get Blob data for selected images
-      const selectedBlobs = await Promise.all(
-        selectedImageIds.map(async id => {
-          const record = await getImage(id);
-          return record ? { data: record.data, type: record.type } : null;
-        })
-      );
+      const references = await prepareReferences();
 
-      // Convert Blobs to Base64 for Server Action Transfer
-      const validImages = await Promise.all(
-        (selectedBlobs.filter(item => item !== null) as { data: Blob; type: string }[])
-          .map(async (img) => ({
-            base64: await blobToBase64(img.data),
-            type: img.type
-          }))
-      );
+      // Always use Gemini logic for text generation
+      const prompts = format === 'webtoon'
+        ? await generateWebtoonPanelsAction(
+          planningConfig,
+          prompt,
+          panelCount,
+          references.validImages,
+          inputMode === 'script',
+          references.characters,
+          references.style
+        )
+        : await generateMangaPromptsAction(
+          planningConfig,
+          prompt,
+          pageCount,
+          references.validImages,
+          inputMode === 'script',
+          references.characters,
+          references.style
+        );
+      setStoryboard(null);
+      setPlannedPrompts(prompts.map(text => ({ id: crypto.randomUUID(), text, selected: true })));
 
-      // 1. Generate Prompts for each page (Always use Gemini logic for text generation)
-      // Even if provider is 'fal' used for image, we probably use Gemini for prompt generation logic?
-      // The original code used `generateMangaPrompts` (Gemini) regardless of image provider?
-      // Yes, "Idea Mode: Use original logic prompts = await generateMangaPrompts...".
-      // But wait, the original code checked `if (!apiKey)` inside handleGenerate for Gemini prompt generation.
-      // We should use whatever Gemini config is available (Google or Vertex).
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '生成中にエラーが発生しました');
+      console.error(err);
+    } finally {
+      setIsGenerating(false);
+      setStatusMessage('');
+    }
+  };
 
-      if (!geminiConfig.apiKey && geminiConfig.provider === 'google' && !geminiConfig.projectId) {
-        throw new Error("プロンプト生成にはGemini/Vertex AIの設定が必要です。");
-      }
+  // Re-plan a single card, keeping the rest of the plan as context
+  const handleRegeneratePrompt = async (index: number) => {
+    if (!plannedPrompts || !checkConfig() || !(await checkBudget())) return;
+    const target = plannedPrompts[index];
+
+    setRegeneratingPromptId(target.id);
+    setError('');
 
-      let prompts: string[] = [];
-      // Call Server Action
-      prompts = await generateMangaPromptsAction(
-        geminiConfig,
+    try {
+      const references = await prepareReferences();
+      const text = await regenerateMangaPromptAction(
+        planningConfig,
         prompt,
-        pageCount,
-        validImages,
-        inputMode === 'script'
+        plannedPrompts.map(p => p.text),
+        index,
+        references.validImages,
+        inputMode === 'script',
+        references.characters,
+        references.style,
+        format === 'webtoon'
       );
+      setPlannedPrompts(prev => prev && prev.map(p => p.id === target.id ? { ...p, text } : p));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'プロンプトの再作成に失敗しました');
+      console.error(err);
+    } finally {
+      setRegeneratingPromptId(null);
+    }
+  };
 
-      setStatusMessage('漫画を描いています...');
+  // Step 2 ("render"): generate images only for the selected, edited prompts
+  const handleRenderPlan = async () => {
+    const prompts = (plannedPrompts || []).filter(p => p.selected && p.text.trim()).map(p => p.text);
+    if (prompts.length === 0) return;
+    if (!checkConfig() || !(await checkBudget())) return;
 
-      const newImages: string[] = [];
-      // 2. Generate Image for each prompt
-      for (let i = 0; i < prompts.length; i++) {
-        setStatusMessage(`漫画を描いています... (${i + 1}/${prompts.length}枚目)`);
+    setIsGenerating(true);
+    setError('');
+    setGeneratedPages([]);
 
-        let imagePrompt = prompts[i];
+    try {
+      const references = await prepareReferences();
+      setPlannedPrompts(null);
+      await renderPages(prompts, references);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '生成中にエラーが発生しました');
+      console.error(err);
+    } finally {
+      setIsGenerating(false);
+      setStatusMessage('');
+    }
+  };
 
-        // Setup strict consistency for non-multimodal providers or FAL
-        if (validImages.length > 0) {
-          imagePrompt += `\n\n[System Instruction]: Use the attached images as strict character references. Maintain character consistency throughout the page.`;
-        }
+  // Storyboard mode, step 1: ask Gemini for a structured storyboard to review
+  const handlePlanStoryboard = async () => {
+    if (!prompt.trim()) return;
+    if (!checkConfig() || !(await checkBudget())) return;
 
-        let base64Image = "";
-        if (provider === 'fal') {
-          base64Image = await generateImageFal(falApiKey, imagePrompt, { aspectRatio });
-        } else {
-          // Use Server Action for Gemini/Vertex Image Gen
-          base64Image = await generateImageAction(geminiConfig, imagePrompt, validImages, { aspectRatio });
-        }
+    setIsGenerating(true);
+    setError('');
+    setStatusMessage('絵コンテを作成しています...');
 
-        const imageUrl = `data:image/png;base64,${base64Image}`;
-        newImages.push(imageUrl);
-        setGeneratedImages([...newImages]); // Progressive update
-      }
+    try {
+      const references = await prepareReferences();
+      const pages = await generateStoryboardAction(
+        planningConfig,
+        prompt,
+        pageCount,
+        references.validImages,
+        references.characters,
+        references.style,
+        layoutEnabled ? layoutPanelCount(layoutSettings) : undefined
+      );
+      setPlannedPrompts(null);
+      setStoryboard(pages);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '絵コンテの作成中にエラーが発生しました');
+      console.error(err);
+    } finally {
+      setIsGenerating(false);
+      setStatusMessage('');
+    }
+  };
+
+  // Storyboard mode, step 2: render images from the edited storyboard
+  const handleRenderStoryboard = async () => {
+    if (!storyboard || storyboard.length === 0) return;
+    if (!checkConfig() || !(await checkBudget())) return;
+
+    setIsGenerating(true);
+    setError('');
+    setGeneratedPages([]);
 
+    try {
+      const references = await prepareReferences();
+      setStoryboard(null);
+      await renderPages(
+        storyboard.map(page => layoutEnabled
+          ? page.panels.map(buildPanelPrompt).join(PANEL_SEPARATOR)
+          : buildStoryboardPrompt(page)),
+        references,
+        storyboard.map(page => page.panels.map(panel => panel.dialogue).filter(line => line.trim())),
+        layoutEnabled ? layoutSettings : null
+      );
     } catch (err) {
       setError(err instanceof Error ? err.message : '生成中にエラーが発生しました');
       console.error(err);
@@ -224,6 +944,9 @@ export default function Workspace() {
     }
   };
 
+  const letteringPage = generatedPages.find(p => p.id === letteringPageId);
+  const previewPage = generatedPages.find(p => p.id === previewPageId);
+
   return (
     <div className="flex h-[calc(100vh-4rem)] gap-6 animate-in fade-in zoom-in-95 duration-500 p-6">
       {/* Input Panel */}
@@ -242,31 +965,43 @@ export default function Workspace() {
           <div className="space-y-3 pb-3 border-b border-white/10">
             <label className="text-sm font-semibold text-white">生成エンジン</label>
             <div className="flex bg-white/5 rounded-xl p-1">
-              <button
-                onClick={() => setProvider('gemini')}
-                className={cn(
-                  "flex-1 py-2 rounded-lg text-sm font-medium transition-all",
-                  provider === 'gemini' ? "bg-indigo-600 text-white shadow" : "text-gray-400 hover:text-white"
-                )}
-              >
-                Gemini API
-              </button>
-              <button
-                onClick={() => setProvider('fal')}
-                className={cn(
-                  "flex-1 py-2 rounded-lg text-sm font-medium transition-all",
-                  provider === 'fal' ? "bg-indigo-600 text-white shadow" : "text-gray-400 hover:text-white"
-                )}
-              >
-                fal API
-              </button>
+              {Object.values(IMAGE_PROVIDERS).map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => setProvider(option.id)}
+                  className={cn(
+                    "flex-1 py-2 rounded-lg text-sm font-medium transition-all",
+                    provider === option.id ? "bg-indigo-600 text-white shadow" : "text-gray-400 hover:text-white"
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <label className="text-sm font-semibold text-white">形式</label>
+            <div className="flex bg-white/5 rounded-xl p-1">
+              {([['pages', 'ページ'], ['webtoon', '縦スクロール']] as const).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => selectFormat(value)}
+                  className={cn(
+                    "flex-1 py-2 rounded-lg text-sm font-medium transition-all",
+                    format === value ? "bg-indigo-600 text-white shadow" : "text-gray-400 hover:text-white"
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
             </div>
           </div>
 
           <div className="space-y-3">
             <div className="flex items-center justify-between">
               <label className="text-sm font-semibold text-white">
-                {inputMode === 'idea' ? 'ストーリー・アイデア' : '脚本・スクリプト'}
+                {inputMode === 'idea' ? 'ストーリー・アイデア' : inputMode === 'script' ? '脚本・スクリプト' : 'ストーリー・脚本 (絵コンテ)'}
               </label>
               <div className="flex bg-white/5 rounded-lg p-0.5">
                 <button
@@ -287,6 +1022,17 @@ export default function Workspace() {
                 >
                   脚本
                 </button>
+                {format === 'pages' && (
+                  <button
+                    onClick={() => setInputMode('storyboard')}
+                    className={cn(
+                      "px-3 py-1 rounded-md text-xs font-medium transition-all",
+                      inputMode === 'storyboard' ? "bg-indigo-500 text-white shadow" : "text-gray-400 hover:text-white"
+                    )}
+                  >
+                    絵コンテ
+                  </button>
+                )}
               </div>
             </div>
             <textarea
@@ -299,51 +1045,238 @@ export default function Workspace() {
             />
           </div>
 
-          <div className="space-y-3">
-            <label className="text-sm font-semibold text-white flex justify-between">
-              ページ数 <span className="text-indigo-400 font-bold">{pageCount}</span>
-            </label>
-            <input
-              type="range"
-              min="1"
-              max="4"
-              value={pageCount}
-              onChange={(e) => setPageCount(parseInt(e.target.value))}
-              className="w-full accent-indigo-500 h-2 bg-white/10 rounded-lg appearance-none cursor-pointer"
-            />
-            <div className="flex justify-between text-xs text-muted-foreground px-1">
-              <span>1枚</span>
-              <span>4枚</span>
+          {format === 'webtoon' ? (
+            <div className="space-y-3">
+              <label className="text-sm font-semibold text-white flex justify-between">
+                コマ数 <span className="text-indigo-400 font-bold">{panelCount}</span>
+              </label>
+              <input
+                type="range"
+                min="3"
+                max="12"
+                value={panelCount}
+                onChange={(e) => setPanelCount(parseInt(e.target.value))}
+                className="w-full accent-indigo-500 h-2 bg-white/10 rounded-lg appearance-none cursor-pointer"
+              />
+              <div className="flex justify-between text-xs text-muted-foreground px-1">
+                <span>3コマ</span>
+                <span>12コマ</span>
+              </div>
             </div>
-          </div>
+          ) : (
+            <>
+              <div className="space-y-3">
+                <label className="text-sm font-semibold text-white flex justify-between">
+                  ページ数 <span className="text-indigo-400 font-bold">{pageCount}</span>
+                </label>
+                <input
+                  type="range"
+                  min="1"
+                  max="4"
+                  value={pageCount}
+                  onChange={(e) => setPageCount(parseInt(e.target.value))}
+                  className="w-full accent-indigo-500 h-2 bg-white/10 rounded-lg appearance-none cursor-pointer"
+                />
+                <div className="flex justify-between text-xs text-muted-foreground px-1">
+                  <span>1枚</span>
+                  <span>4枚</span>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-semibold text-white">アスペクト比</label>
+                  <select
+                    value={aspectRatio}
+                    onChange={(e) => setAspectRatio(e.target.value)}
+                    className="w-full rounded-xl border border-white/20 bg-white/5 px-3 py-2 text-sm text-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500/50"
+                  >
+                    <option value="1:1" className="bg-gray-800">1:1 (正方形)</option>
+                    <option value="2:3" className="bg-gray-800">2:3 (縦長)</option>
+                    <option value="3:2" className="bg-gray-800">3:2 (横長)</option>
+                    <option value="9:16" className="bg-gray-800">9:16 (スマホ)</option>
+                    <option value="16:9" className="bg-gray-800">16:9 (ワイド)</option>
+                  </select>
+                </div>
+              </div>
+            </>
+          )}
 
-          <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-semibold text-white">出力形式</label>
+                <select
+                  value={exportOptions.format}
+                  onChange={(e) => setExportOptions(prev => ({ ...prev, format: e.target.value as OutputFormat }))}
+                  className="w-full rounded-xl border border-white/20 bg-white/5 px-3 py-2 text-sm text-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500/50"
+                >
+                  <option value="png" className="bg-gray-800">PNG</option>
+                  <option value="jpeg" className="bg-gray-800">JPEG</option>
+                  <option value="webp" className="bg-gray-800">WebP</option>
+                </select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-semibold text-white">解像度</label>
+                <select
+                  value={exportOptions.dpi}
+                  onChange={(e) => setExportOptions(prev => ({ ...prev, dpi: parseInt(e.target.value) }))}
+                  className="w-full rounded-xl border border-white/20 bg-white/5 px-3 py-2 text-sm text-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500/50"
+                >
+                  {DPI_OPTIONS.map(dpi => (
+                    <option key={dpi} value={dpi} className="bg-gray-800">{dpi} dpi</option>
+                  ))}
+                </select>
+              </div>
+            </div>
             <div className="space-y-2">
-              <label className="text-sm font-semibold text-white">アスペクト比</label>
+              <label className="text-sm font-semibold text-white">印刷サイズ</label>
               <select
-                value={aspectRatio}
-                onChange={(e) => setAspectRatio(e.target.value)}
+                value={exportOptions.printSize}
+                onChange={(e) => setExportOptions(prev => ({ ...prev, printSize: e.target.value as PrintSizeKey }))}
                 className="w-full rounded-xl border border-white/20 bg-white/5 px-3 py-2 text-sm text-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500/50"
               >
-                <option value="1:1" className="bg-gray-800">1:1 (正方形)</option>
-                <option value="2:3" className="bg-gray-800">2:3 (縦長)</option>
-                <option value="3:2" className="bg-gray-800">3:2 (横長)</option>
-                <option value="9:16" className="bg-gray-800">9:16 (スマホ)</option>
-                <option value="16:9" className="bg-gray-800">16:9 (ワイド)</option>
+                {(Object.keys(PRINT_SIZES) as PrintSizeKey[]).map(key => (
+                  <option key={key} value={key} className="bg-gray-800">{PRINT_SIZES[key].label}</option>
+                ))}
               </select>
             </div>
+            {exportOptions.format !== 'png' && (
+              <div className="space-y-2">
+                <label className="text-sm font-semibold text-white flex justify-between">
+                  画質 <span className="text-indigo-400 font-bold">{Math.round(exportOptions.quality * 100)}</span>
+                </label>
+                <input
+                  type="range"
+                  min="0.5"
+                  max="1"
+                  step="0.01"
+                  value={exportOptions.quality}
+                  onChange={(e) => setExportOptions(prev => ({ ...prev, quality: parseFloat(e.target.value) }))}
+                  className="w-full accent-indigo-500 h-2 bg-white/10 rounded-lg appearance-none cursor-pointer"
+                />
+              </div>
+            )}
           </div>
 
           <div className="space-y-2">
-            <label className="text-sm font-semibold text-white">出力形式</label>
+            <label className="text-sm font-semibold text-white flex items-center justify-between">
+              <span>スタイル</span>
+              <button
+                onClick={() => router.push('/styles')}
+                className="text-xs font-normal flex items-center gap-1 text-indigo-300 hover:text-indigo-200"
+              >
+                <Palette size={12} /> スタイル管理
+              </button>
+            </label>
             <select
-              value={outputFormat}
-              onChange={(e) => setOutputFormat(e.target.value)}
+              value={selectedStyle.id}
+              onChange={(e) => selectStyle(e.target.value)}
               className="w-full rounded-xl border border-white/20 bg-white/5 px-3 py-2 text-sm text-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500/50"
             >
-              <option value="png" className="bg-gray-800">PNG</option>
-              <option value="jpg" className="bg-gray-800">JPG</option>
+              <optgroup label="プリセット" className="bg-gray-800">
+                {BUILT_IN_STYLES.map(style => (
+                  <option key={style.id} value={style.id} className="bg-gray-800">{style.name}</option>
+                ))}
+              </optgroup>
+              {userStyles.length > 0 && (
+                <optgroup label="マイスタイル" className="bg-gray-800">
+                  {userStyles.map(style => (
+                    <option key={style.id} value={style.id} className="bg-gray-800">{style.name}</option>
+                  ))}
+                </optgroup>
+              )}
             </select>
+            <p className="text-xs text-gray-400 line-clamp-2" title={selectedStyle.render}>
+              {selectedStyle.render}
+              {selectedStyle.referenceImageIds.length > 0 && ` (参照画像 ${selectedStyle.referenceImageIds.length}枚)`}
+            </p>
+          </div>
+
+          {format === 'pages' && inputMode === 'storyboard' && (
+            <LayoutEditor
+              enabled={layoutEnabled}
+              settings={layoutSettings}
+              aspectRatio={aspectRatio}
+              onToggle={setLayoutEnabled}
+              onChange={setLayoutSettings}
+            />
+          )}
+
+          <AdvancedSettingsPanel
+            settings={advancedSettings}
+            capabilities={getImageProvider(provider).capabilities(providerContext)}
+            onChange={setAdvancedSettings}
+          />
+
+          <div className="space-y-3">
+            <label className="text-sm font-semibold text-white flex items-center justify-between">
+              <span>キャラクター</span>
+              <span className="text-[10px] bg-indigo-500/20 text-indigo-300 px-2 py-0.5 rounded-full border border-indigo-500/30">{selectedCharacterIds.length}人選択中</span>
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              {availableCharacters.map(character => {
+                const isSelected = selectedCharacterIds.includes(character.id);
+                const thumb = character.imageIds.map(id => availableImages.find(img => img.id === id)?.url).find(Boolean);
+                return (
+                  <div
+                    key={character.id}
+                    onClick={() => toggleCharacterSelection(character.id)}
+                    className={cn(
+                      "flex items-center gap-2 p-2 rounded-xl cursor-pointer border-2 transition-all duration-200",
+                      isSelected
+                        ? "border-indigo-500 bg-indigo-500/10 shadow-[0_0_10px_rgba(99,102,241,0.5)]"
+                        : "border-white/5 hover:border-white/20"
+                    )}
+                  >
+                    <div className="w-10 h-10 min-w-[2.5rem] rounded-lg overflow-hidden bg-white/5 flex items-center justify-center">
+                      {thumb ? (
+                        <img src={thumb} className="w-full h-full object-cover" alt={character.name} />
+                      ) : (
+                        <User size={16} className="text-muted-foreground" />
+                      )}
+                    </div>
+                    <span className="text-xs font-medium text-white truncate">{character.name}</span>
+                  </div>
+                );
+              })}
+              <button
+                onClick={() => router.push('/characters')}
+                className="flex items-center justify-center gap-2 p-2 rounded-xl border-2 border-dashed border-white/20 hover:bg-white/5 hover:border-white/40 transition-all active:scale-95 group"
+              >
+                <Plus size={16} className="text-muted-foreground group-hover:text-white transition-colors" />
+                <span className="text-xs text-muted-foreground group-hover:text-white">キャラクター管理</span>
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <label htmlFor="chapter" className="text-xs text-gray-300">章 (外見メモの切り替え)</label>
+                <input
+                  id="chapter"
+                  type="text"
+                  list="chapter-labels"
+                  value={chapter}
+                  onChange={(e) => setChapter(e.target.value)}
+                  placeholder="例: 第2話"
+                  className="w-full rounded-lg border border-white/20 bg-white/5 px-3 py-1.5 text-xs text-white placeholder:text-gray-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500/50"
+                />
+                <datalist id="chapter-labels">
+                  {chapterLabels(availableCharacters).map(label => <option key={label} value={label} />)}
+                </datalist>
+              </div>
+              <label className="flex items-end gap-2 pb-1.5 text-xs text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={continuity}
+                  onChange={(e) => setContinuity(e.target.checked)}
+                  className="accent-indigo-500"
+                />
+                前のページを参照して描く (1ページずつ生成)
+              </label>
+            </div>
+            <p className="text-[10px] text-gray-500">
+              各ページには、そのプロンプトに名前が出てくるキャラクターの参照画像と説明だけが添付されます。
+            </p>
           </div>
 
           <div className="space-y-3">
@@ -395,7 +1328,7 @@ export default function Workspace() {
           </div>
 
           <button
-            onClick={handleGenerate}
+            onClick={inputMode === 'storyboard' ? handlePlanStoryboard : handlePlan}
             disabled={isGenerating || !prompt}
             className="w-full inline-flex items-center justify-center rounded-xl bg-gradient-to-r from-indigo-600 to-purple-600 px-4 py-4 text-sm font-bold text-white shadow-lg shadow-indigo-500/25 transition-all hover:shadow-indigo-500/40 hover:scale-[1.02] active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed disabled:shadow-none"
           >
@@ -407,21 +1340,46 @@ export default function Workspace() {
             ) : (
               <>
                 <BookOpen className="mr-2 h-5 w-5" />
-                漫画を生成する
+                {inputMode === 'storyboard' ? '絵コンテを作成する' : '構成を作成する'}
               </>
             )}
           </button>
 
-          {generatedImages.length > 0 && (
-            <div className="flex gap-2">
-              <button
-                onClick={downloadAllImages}
-                className="w-full inline-flex items-center justify-center rounded-xl border border-white/10 bg-white/5 text-white px-4 py-3 shadow-sm transition-all hover:bg-white/10 hover:scale-105 active:scale-95"
-                title="全ての画像をダウンロード"
-              >
-                <Download size={20} className="mr-2" />
-                一括ダウンロード
-              </button>
+          {generatedPages.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex gap-2">
+                <button
+                  onClick={downloadAllImages}
+                  className="w-full inline-flex items-center justify-center rounded-xl border border-white/10 bg-white/5 text-white px-4 py-3 shadow-sm transition-all hover:bg-white/10 hover:scale-105 active:scale-95"
+                  title="全ての画像をダウンロード"
+                >
+                  <Download size={20} className="mr-2" />
+                  一括ダウンロード
+                </button>
+              </div>
+              <div className="flex gap-2">
+                {(['pdf', 'cbz', 'epub'] as const).map(kind => (
+                  <button
+                    key={kind}
+                    onClick={() => exportComic(kind)}
+                    disabled={isExporting}
+                    className="flex-1 inline-flex items-center justify-center rounded-xl border border-white/10 bg-white/5 text-white text-xs font-bold px-3 py-2 transition-all hover:bg-white/10 disabled:opacity-50"
+                    title={`${kind.toUpperCase()} として書き出し`}
+                  >
+                    {isExporting ? <Loader2 size={14} className="mr-1 animate-spin" /> : <BookOpen size={14} className="mr-1" />}
+                    {kind.toUpperCase()}
+                  </button>
+                ))}
+              </div>
+              <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={rightToLeft}
+                  onChange={(e) => setRightToLeft(e.target.checked)}
+                  className="accent-indigo-500"
+                />
+                右綴じ (右から左に読む)
+              </label>
             </div>
           )}
 
@@ -437,7 +1395,67 @@ export default function Workspace() {
       <div className="flex-1 bg-black/20 backdrop-blur-sm rounded-3xl border border-white/5 p-8 overflow-y-auto custom-scrollbar relative">
         <div className="absolute inset-0 bg-gradient-to-br from-indigo-500/5 via-transparent to-purple-500/5 pointer-events-none" />
 
-        {generatedImages.length === 0 ? (
+        {storyboard ? (
+          <div className="space-y-6 relative z-10">
+            <div className="flex items-center justify-between gap-4 px-2">
+              <div>
+                <h2 className="text-xl font-bold text-white">絵コンテの確認</h2>
+                <p className="text-xs text-gray-400 mt-1">コマの描写やセリフを修正してから画像を生成できます。</p>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setStoryboard(null)}
+                  disabled={isGenerating}
+                  className="text-sm flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white px-4 py-2 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  <X size={16} /> 破棄
+                </button>
+                <button
+                  onClick={handleRenderStoryboard}
+                  disabled={isGenerating}
+                  className="text-sm font-bold flex items-center gap-2 bg-gradient-to-r from-indigo-600 to-purple-600 text-white px-4 py-2 rounded-lg shadow-lg shadow-indigo-500/25 transition-all hover:shadow-indigo-500/40 disabled:opacity-50"
+                >
+                  {isGenerating ? <Loader2 size={16} className="animate-spin" /> : <Paintbrush size={16} />}
+                  {isGenerating ? statusMessage : 'この絵コンテで漫画を生成'}
+                </button>
+              </div>
+            </div>
+            <StoryboardEditor pages={storyboard} onChange={setStoryboard} />
+          </div>
+        ) : plannedPrompts ? (
+          <div className="space-y-6 relative z-10">
+            <div className="flex items-center justify-between gap-4 px-2">
+              <div>
+                <h2 className="text-xl font-bold text-white">構成の確認</h2>
+                <p className="text-xs text-gray-400 mt-1">描画するページを選び、プロンプトを修正してから画像を生成できます。</p>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setPlannedPrompts(null)}
+                  disabled={isGenerating}
+                  className="text-sm flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white px-4 py-2 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  <X size={16} /> 破棄
+                </button>
+                <button
+                  onClick={handleRenderPlan}
+                  disabled={isGenerating || regeneratingPromptId !== null || !plannedPrompts.some(p => p.selected && p.text.trim())}
+                  className="text-sm font-bold flex items-center gap-2 bg-gradient-to-r from-indigo-600 to-purple-600 text-white px-4 py-2 rounded-lg shadow-lg shadow-indigo-500/25 transition-all hover:shadow-indigo-500/40 disabled:opacity-50"
+                >
+                  {isGenerating ? <Loader2 size={16} className="animate-spin" /> : <Paintbrush size={16} />}
+                  {isGenerating ? statusMessage : `選択した${plannedPrompts.filter(p => p.selected && p.text.trim()).length}${format === 'webtoon' ? 'コマ' : 'ページ'}を描画`}
+                </button>
+              </div>
+            </div>
+            <PromptPlanEditor
+              prompts={plannedPrompts}
+              onChange={setPlannedPrompts}
+              onRegenerate={handleRegeneratePrompt}
+              regeneratingId={regeneratingPromptId}
+              disabled={isGenerating}
+            />
+          </div>
+        ) : generatedPages.length === 0 && jobs.length === 0 ? (
           <div className="h-full flex flex-col items-center justify-center text-muted-foreground opacity-50 space-y-4">
             <div className="p-6 rounded-full bg-white/5 border border-white/10 animate-float">
               <Layers size={64} className="text-indigo-400/50" />
@@ -448,51 +1466,76 @@ export default function Workspace() {
           </div>
         ) : (
           <div className="space-y-8 relative z-10">
-            {generatedImages.map((imgUrl, idx) => (
-              <motion.div
-                key={idx}
-                initial={{ opacity: 0, y: 30 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ duration: 0.5, delay: idx * 0.1 }}
-                className="glass-card rounded-2xl p-4 border border-white/10"
-              >
-                <div className="flex items-center justify-between mb-4 px-2">
-                  <h3 className="text-lg font-bold text-white flex items-center gap-2">
-                    <span className="bg-indigo-500 w-1 h-5 rounded-full inline-block" />
-                    Page {idx + 1}
-                  </h3>
-                  <button
-                    onClick={() => downloadImage(imgUrl, `manga_page_${idx + 1}.${outputFormat === 'jpg' ? 'jpg' : 'png'}`)}
-                    className="text-xs flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white px-3 py-1.5 rounded-lg transition-colors"
-                  >
-                    <Download size={14} /> 保存
-                  </button>
-                </div>
-
-                <div
-                  className="relative w-full rounded-xl overflow-hidden border border-white/10 group cursor-pointer"
-                  onClick={() => setPreviewImage(imgUrl)}
+            {currentProject && (
+              <div className="flex items-center justify-between px-2">
+                <p className="text-sm text-gray-300 flex items-center gap-2 truncate">
+                  <FolderOpen size={16} className="text-indigo-400" />
+                  {currentProject.name}
+                </p>
+                <button
+                  onClick={() => router.push('/projects')}
+                  className="text-xs text-indigo-300 hover:text-indigo-200"
                 >
-                  <img src={imgUrl} alt={`Page ${idx + 1}`} className="w-full h-auto object-contain" />
-                  <div className="absolute inset-0 bg-black/0 group-hover:bg-black/20 transition-colors flex items-center justify-center opacity-0 group-hover:opacity-100">
-                    <span className="text-white text-sm bg-black/50 px-4 py-2 rounded-full backdrop-blur-md flex items-center gap-2 border border-white/20">
-                      <Maximize2 size={16} /> 拡大表示
-                    </span>
-                  </div>
-                </div>
-              </motion.div>
+                  プロジェクト一覧
+                </button>
+              </div>
+            )}
+            {jobs.length > 0 && (
+              <GenerationQueue
+                jobs={jobs}
+                isRunning={isQueueRunning}
+                onCancel={handleCancelQueue}
+                onResume={handleResumeQueue}
+              />
+            )}
+            {format === 'webtoon' && generatedPages.length > 0 && (
+              <WebtoonStrip
+                pages={generatedPages}
+                settings={webtoonSettings}
+                isExporting={isExporting}
+                onChange={setWebtoonSettings}
+                onExport={exportWebtoon}
+              />
+            )}
+            {generatedPages.map((page, idx) => (
+              <PageCard
+                key={page.id}
+                page={page}
+                index={idx}
+                isRegenerating={regeneratingPageId === page.id}
+                disabled={isGenerating}
+                onDownload={() => downloadPage(page, `manga_page_${idx + 1}`)}
+                onPreview={() => { setPreviewPageId(page.id); setIsMasking(false); }}
+                onRegenerate={(pagePrompt, variations) => handleRegeneratePage(page.id, pagePrompt, variations)}
+                onSelectVersion={(versionId) => handleSelectVersion(page.id, versionId)}
+                onEditLettering={() => setLetteringPageId(page.id)}
+                onReuseSeed={(seed) => setAdvancedSettings(prev => ({ ...prev, seed, seedLocked: true }))}
+              />
             ))}
           </div>
         )}
 
         <AnimatePresence>
-          {previewImage && (
+          {letteringPage && (
+            <LetteringEditor
+              key={letteringPage.id}
+              imageUrl={letteringPage.url}
+              initialBubbles={letteringPage.lettering}
+              dialogue={letteringPage.dialogue}
+              onSave={(bubbles) => handleSaveLettering(letteringPage.id, bubbles)}
+              onClose={() => setLetteringPageId(null)}
+            />
+          )}
+        </AnimatePresence>
+
+        <AnimatePresence>
+          {previewPage && (
             <motion.div
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
               exit={{ opacity: 0 }}
               className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-8"
-              onClick={() => setPreviewImage(null)}
+              onClick={() => { if (!editingPageId) setPreviewPageId(null); }}
             >
               <motion.div
                 initial={{ scale: 0.9, opacity: 0 }}
@@ -501,22 +1544,44 @@ export default function Workspace() {
                 className="relative max-w-5xl max-h-full rounded-2xl overflow-hidden shadow-2xl glass-card border-white/10 bg-black/50"
                 onClick={(e) => e.stopPropagation()}
               >
-                <img src={previewImage} alt="Preview" className="max-w-full max-h-[85vh] object-contain" />
-                <div className="absolute top-4 right-4 flex gap-2">
-                  <button
-                    onClick={() => downloadImage(previewImage, `manga_page_preview.${outputFormat === 'jpg' ? 'jpg' : 'png'}`)}
-                    className="p-2 rounded-full bg-black/50 text-white hover:bg-white/20 transition-colors backdrop-blur-md border border-white/10"
-                    title="ダウンロード"
-                  >
-                    <Download size={20} />
-                  </button>
-                  <button
-                    onClick={() => setPreviewImage(null)}
-                    className="p-2 rounded-full bg-black/50 text-white hover:bg-red-500/50 transition-colors backdrop-blur-md border border-white/10"
-                  >
-                    <X size={20} />
-                  </button>
-                </div>
+                {isMasking ? (
+                  <InpaintEditor
+                    key={previewPage.versionId || previewPage.id}
+                    imageUrl={previewPage.url}
+                    isEditing={editingPageId === previewPage.id}
+                    progress={editProgress}
+                    error={error}
+                    onSubmit={(mask, instruction) => handleEditRegion(previewPage.id, mask, instruction)}
+                    onCancel={() => setIsMasking(false)}
+                  />
+                ) : (
+                  <>
+                    <img src={previewPage.url} alt="Preview" className="max-w-full max-h-[85vh] object-contain" />
+                    <div className="absolute top-4 right-4 flex gap-2">
+                      <button
+                        onClick={() => { setIsMasking(true); setError(''); }}
+                        disabled={isGenerating || regeneratingPageId === previewPage.id}
+                        className="p-2 rounded-full bg-black/50 text-white hover:bg-white/20 transition-colors backdrop-blur-md border border-white/10 disabled:opacity-50"
+                        title="範囲を塗って部分修正"
+                      >
+                        <Paintbrush size={20} />
+                      </button>
+                      <button
+                        onClick={() => downloadPage(previewPage, 'manga_page_preview')}
+                        className="p-2 rounded-full bg-black/50 text-white hover:bg-white/20 transition-colors backdrop-blur-md border border-white/10"
+                        title="ダウンロード"
+                      >
+                        <Download size={20} />
+                      </button>
+                      <button
+                        onClick={() => setPreviewPageId(null)}
+                        className="p-2 rounded-full bg-black/50 text-white hover:bg-red-500/50 transition-colors backdrop-blur-md border border-white/10"
+                      >
+                        <X size={20} />
+                      </button>
+                    </div>
+                  </>
+                )}
               </motion.div>
             </motion.div>
           )}
@@ -0,0 +1,237 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { Trash2, Loader2, FolderOpen, ArrowUp, ArrowDown, ArrowLeft, ArrowRight, ExternalLink, Layers } from 'lucide-react';
+import { getAllProjects, getProjectPages, updateProject, reorderProjects, deleteProject, reorderPages, deletePage, Project } from '@/lib/db';
+import { cn } from '@/lib/utils';
+
+export default function ProjectsPage() {
+    const router = useRouter();
+    const [projects, setProjects] = useState<Project[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [pages, setPages] = useState<{ id: string; url: string; prompt: string }[]>([]);
+
+    const loadProjects = useCallback(async () => {
+        try {
+            setProjects(await getAllProjects());
+        } catch (error) {
+            console.error("Failed to load projects", error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadProjects();
+    }, [loadProjects]);
+
+    // Load the pages of the selected project
+    useEffect(() => {
+        if (!selectedId) return;
+        let urls: string[] = [];
+        getProjectPages(selectedId).then(stored => {
+            const mapped = stored.map(page => ({
+                id: page.id,
+                url: URL.createObjectURL(page.data),
+                prompt: page.prompt
+            }));
+            urls = mapped.map(p => p.url);
+            setPages(mapped);
+        });
+        return () => urls.forEach(url => URL.revokeObjectURL(url));
+    }, [selectedId]);
+
+    const selectedProject = projects.find(p => p.id === selectedId);
+
+    const handleRename = async (project: Project, name: string) => {
+        if (!name.trim() || name === project.name) return;
+        const updated = await updateProject({ ...project, name: name.trim() });
+        setProjects(prev => prev.map(p => p.id === updated.id ? updated : p));
+    };
+
+    const moveProject = async (index: number, delta: number) => {
+        const target = index + delta;
+        if (target < 0 || target >= projects.length) return;
+        const next = [...projects];
+        [next[index], next[target]] = [next[target], next[index]];
+        setProjects(next);
+        await reorderProjects(next.map(p => p.id));
+    };
+
+    const handleDeleteProject = async (id: string) => {
+        if (confirm('このプロジェクトと全てのページを削除しますか？')) {
+            await deleteProject(id);
+            setProjects(prev => prev.filter(p => p.id !== id));
+            if (selectedId === id) {
+                setSelectedId(null);
+                setPages([]);
+            }
+        }
+    };
+
+    const movePage = async (index: number, delta: number) => {
+        const target = index + delta;
+        if (target < 0 || target >= pages.length) return;
+        const next = [...pages];
+        [next[index], next[target]] = [next[target], next[index]];
+        setPages(next);
+        await reorderPages(next.map(p => p.id));
+    };
+
+    const handleDeletePage = async (id: string) => {
+        if (confirm('このページを削除しますか？')) {
+            await deletePage(id);
+            setPages(prev => prev.filter(p => p.id !== id));
+        }
+    };
+
+    return (
+        <div className="max-w-6xl mx-auto space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
+            <div>
+                <h1 className="text-3xl font-bold tracking-tight">プロジェクト</h1>
+                <p className="text-muted-foreground mt-2">
+                    これまでに生成した漫画の履歴です。開き直し、名前の変更、並べ替え、削除ができます。
+                </p>
+            </div>
+
+            {isLoading ? (
+                <div className="flex justify-center py-12">
+                    <Loader2 className="animate-spin text-primary" size={32} />
+                </div>
+            ) : projects.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground border rounded-lg bg-muted/20">
+                    まだプロジェクトがありません。制作画面で漫画を生成すると自動で保存されます。
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                    {/* Project List */}
+                    <div className="space-y-3">
+                        {projects.map((project, idx) => (
+                            <div
+                                key={project.id}
+                                onClick={() => setSelectedId(project.id)}
+                                className={cn(
+                                    "group flex items-center gap-3 p-3 rounded-xl border cursor-pointer transition-all",
+                                    selectedId === project.id
+                                        ? "border-indigo-500 bg-indigo-500/10"
+                                        : "border-white/10 hover:border-white/20 hover:bg-white/5"
+                                )}
+                            >
+                                <FolderOpen size={20} className="min-w-[20px] text-indigo-400" />
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm font-semibold text-white truncate">{project.name || '無題'}</p>
+                                    <p className="text-xs text-muted-foreground">{new Date(project.updatedAt).toLocaleString('ja-JP')}</p>
+                                </div>
+                                <div className="flex flex-col opacity-0 group-hover:opacity-100 transition-opacity">
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); moveProject(idx, -1); }}
+                                        disabled={idx === 0}
+                                        className="p-0.5 text-muted-foreground hover:text-white disabled:opacity-30"
+                                        title="上へ"
+                                    >
+                                        <ArrowUp size={14} />
+                                    </button>
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); moveProject(idx, 1); }}
+                                        disabled={idx === projects.length - 1}
+                                        className="p-0.5 text-muted-foreground hover:text-white disabled:opacity-30"
+                                        title="下へ"
+                                    >
+                                        <ArrowDown size={14} />
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+
+                    {/* Project Detail */}
+                    <div className="lg:col-span-2 p-6 rounded-xl border bg-card text-card-foreground shadow-sm space-y-6">
+                        {!selectedProject ? (
+                            <div className="h-full flex flex-col items-center justify-center text-muted-foreground py-12 gap-3">
+                                <Layers size={40} className="text-indigo-400/50" />
+                                プロジェクトを選択してください
+                            </div>
+                        ) : (
+                            <>
+                                <div className="flex items-center gap-3">
+                                    <input
+                                        key={selectedProject.id}
+                                        type="text"
+                                        defaultValue={selectedProject.name}
+                                        onBlur={(e) => handleRename(selectedProject, e.target.value)}
+                                        onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                                        className="flex-1 rounded-lg border border-white/10 bg-black/50 px-4 py-2 text-white focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                                        title="名前を変更"
+                                    />
+                                    <button
+                                        onClick={() => router.push(`/?project=${selectedProject.id}`)}
+                                        className="inline-flex items-center gap-2 rounded-md text-sm font-medium bg-primary text-primary-foreground hover:bg-primary/90 h-10 px-4"
+                                    >
+                                        <ExternalLink size={16} /> 開く
+                                    </button>
+                                    <button
+                                        onClick={() => handleDeleteProject(selectedProject.id)}
+                                        className="p-2 rounded-md text-muted-foreground hover:bg-destructive hover:text-destructive-foreground transition-colors"
+                                        title="プロジェクトを削除"
+                                    >
+                                        <Trash2 size={18} />
+                                    </button>
+                                </div>
+
+                                <p className="text-xs text-gray-400 line-clamp-3 whitespace-pre-wrap">{selectedProject.prompt}</p>
+
+                                {pages.length === 0 ? (
+                                    <div className="text-center py-8 text-muted-foreground border-2 border-dashed rounded-lg text-sm">
+                                        ページがありません
+                                    </div>
+                                ) : (
+                                    <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                                        {pages.map((page, idx) => (
+                                            <div key={page.id} className="group relative rounded-lg overflow-hidden border bg-card shadow-sm">
+                                                {/* eslint-disable-next-line @next/next/no-img-element */}
+                                                <img src={page.url} alt={`Page ${idx + 1}`} className="w-full h-auto object-contain" title={page.prompt} />
+                                                <div className="absolute top-2 left-2 text-xs font-bold bg-black/60 text-white px-2 py-0.5 rounded">
+                                                    {idx + 1}
+                                                </div>
+                                                <div className="absolute bottom-0 inset-x-0 p-2 bg-gradient-to-t from-black/80 to-transparent flex items-center justify-between opacity-0 group-hover:opacity-100 transition-opacity">
+                                                    <div className="flex gap-1">
+                                                        <button
+                                                            onClick={() => movePage(idx, -1)}
+                                                            disabled={idx === 0}
+                                                            className="p-1.5 rounded-full bg-white/10 text-white hover:bg-white/20 disabled:opacity-30"
+                                                            title="前へ"
+                                                        >
+                                                            <ArrowLeft size={14} />
+                                                        </button>
+                                                        <button
+                                                            onClick={() => movePage(idx, 1)}
+                                                            disabled={idx === pages.length - 1}
+                                                            className="p-1.5 rounded-full bg-white/10 text-white hover:bg-white/20 disabled:opacity-30"
+                                                            title="次へ"
+                                                        >
+                                                            <ArrowRight size={14} />
+                                                        </button>
+                                                    </div>
+                                                    <button
+                                                        onClick={() => handleDeletePage(page.id)}
+                                                        className="p-1.5 bg-destructive text-destructive-foreground rounded-full hover:bg-destructive/90 transition-colors"
+                                                        title="ページを削除"
+                                                    >
+                                                        <Trash2 size={14} />
+                                                    </button>
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,400 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { Loader2, Save, Check, FileText, History, Columns2, Play, AlertCircle } from 'lucide-react';
+import { listPromptTemplatesAction, savePromptVersionAction, activatePromptVersionAction, planWithVersionAction, PromptTemplateVersions } from '@/app/actions/prompts';
+import { listProfilesAction } from '@/app/actions/vault';
+import { budgetProblemAction } from '@/app/actions/usage';
+import { PROMPT_TEMPLATES, PLANNING_TEMPLATES, PromptTemplateId, unknownVariables } from '@/lib/prompts';
+import type { PromptVersion } from '@/lib/prompt-store';
+import { IMAGE_PROVIDERS, ImageProviderId, ProviderContext, getImageProvider, generateWithProvider } from '@/lib/image-provider';
+import { StylePreset, BUILT_IN_STYLES, DEFAULT_STYLE_ID, findStyle } from '@/lib/styles';
+import { WEBTOON_PANEL_RATIO } from '@/lib/webtoon';
+import { loadModelSettings } from '@/lib/models';
+import { loadGeminiConfig } from '@/lib/gemini-config';
+import { getAllStyles } from '@/lib/db';
+import { cn } from '@/lib/utils';
+
+const inputClass = "w-full rounded-lg border border-white/10 bg-black/50 px-3 py-1.5 text-sm text-white placeholder:text-gray-600 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500";
+
+type Side = 'a' | 'b';
+
+interface ComparisonResult {
+    prompts: string[];
+    images: (string | null)[]; // object URLs by prompt, null while rendering or after a failure
+    error?: string;
+}
+
+const versionLabel = (version: PromptVersion) =>
+    `${version.createdAt ? '' : '組み込み '}v${version.version}${version.note ? ` — ${version.note}` : ''}`;
+
+function ComparisonColumn({ title, result, isRunning }: { title: string; result?: ComparisonResult; isRunning: boolean }) {
+    return (
+        <div className="space-y-3 min-w-0">
+            <h3 className="text-sm font-semibold text-white truncate">{title}</h3>
+            {!result && (isRunning
+                ? <Loader2 size={16} className="animate-spin text-indigo-300" />
+                : <p className="text-sm text-muted-foreground">まだ実行していません。</p>)}
+            {result?.error && (
+                <p className="flex items-start gap-2 text-sm text-red-300"><AlertCircle size={16} className="shrink-0 mt-0.5" />{result.error}</p>
+            )}
+            {result?.prompts.map((prompt, i) => (
+                <div key={i} className="rounded-lg border border-white/10 bg-black/30 p-3 space-y-2">
+                    <p className="text-xs text-gray-400">{i + 1}</p>
+                    <p className="text-xs text-gray-200 whitespace-pre-wrap max-h-48 overflow-y-auto">{prompt}</p>
+                    {result.images[i] && (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img src={result.images[i]!} alt={`${title} ${i + 1}`} className="w-full rounded-md border border-white/10" />
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+}
+
+export default function PromptsPage() {
+    const [templates, setTemplates] = useState<PromptTemplateVersions[]>([]);
+    const [templateId, setTemplateId] = useState<PromptTemplateId>('ideaPrompts');
+    const [draft, setDraft] = useState('');
+    const [note, setNote] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [message, setMessage] = useState('');
+    const [error, setError] = useState('');
+
+    // Side-by-side run of two versions on the same story
+    const [compare, setCompare] = useState<Record<Side, string>>({ a: '', b: '' });
+    const [story, setStory] = useState('');
+    const [pageCount, setPageCount] = useState(2);
+    const [userStyles, setUserStyles] = useState<StylePreset[]>([]);
+    const [styleId, setStyleId] = useState(DEFAULT_STYLE_ID);
+    const [renderPages, setRenderPages] = useState(false);
+    const [imageProvider, setImageProvider] = useState<ImageProviderId>('gemini');
+    const [providerContext, setProviderContext] = useState<ProviderContext | null>(null);
+    const [results, setResults] = useState<Partial<Record<Side, ComparisonResult>>>({});
+    const [isComparing, setIsComparing] = useState(false);
+    const imageUrlsRef = useRef<string[]>([]);
+
+    const current = templates.find(t => t.id === templateId);
+    const template = PROMPT_TEMPLATES[templateId];
+    const isPlanning = PLANNING_TEMPLATES.includes(templateId);
+    const unknown = unknownVariables(templateId, draft);
+    const styles = [...BUILT_IN_STYLES, ...userStyles];
+
+    // Editor starts from the active version; A / B default to the active version and the one before it
+    const selectTemplate = (id: PromptTemplateId, loaded: PromptTemplateVersions[] = templates) => {
+        const entry = loaded.find(t => t.id === id);
+        setTemplateId(id);
+        setNote('');
+        setResults({});
+        if (!entry) return;
+        const active = entry.versions.find(v => v.id === entry.activeId) || entry.versions[0];
+        const other = entry.versions.filter(v => v.id !== active.id).pop() || active;
+        setDraft(active.text);
+        setCompare({ a: other.id, b: active.id });
+    };
+
+    const loadTemplates = async (selectId: PromptTemplateId = templateId) => {
+        try {
+            const loaded = await listPromptTemplatesAction();
+            setTemplates(loaded);
+            selectTemplate(selectId, loaded);
+        } catch (err) {
+            console.error("Failed to load prompt templates", err);
+            setError('プロンプトの読み込みに失敗しました');
+        }
+    };
+
+    useEffect(() => {
+        loadTemplates();
+        getAllStyles().then(setUserStyles);
+        setStyleId(localStorage.getItem('style_id') || DEFAULT_STYLE_ID);
+
+        // Same settings the Workspace renders with
+        const geminiConfig = loadGeminiConfig();
+        const models = loadModelSettings();
+        listProfilesAction()
+            .then(profiles => setProviderContext({
+                geminiConfig,
+                credentials: profiles.find(p => p.name === geminiConfig.profile) || null,
+                falModel: models.falModel,
+                falInpaintModel: models.falInpaintModel
+            }))
+            .catch(err => console.error("Failed to load credential profiles", err));
+
+        const urls = imageUrlsRef.current;
+        return () => urls.forEach(url => URL.revokeObjectURL(url));
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    const handleSave = async () => {
+        setError('');
+        setIsSaving(true);
+        try {
+            const saved = await savePromptVersionAction(templateId, draft, note);
+            await loadTemplates(templateId);
+            setMessage(`v${saved.version} を保存して有効にしました`);
+            setTimeout(() => setMessage(''), 2000);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleActivate = async (version: PromptVersion) => {
+        setError('');
+        try {
+            await activatePromptVersionAction(templateId, version.id);
+            await loadTemplates(templateId);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const updateResult = (side: Side, patch: (prev: ComparisonResult) => ComparisonResult) => {
+        setResults(prev => ({ ...prev, [side]: patch(prev[side] || { prompts: [], images: [] }) }));
+    };
+
+    const handleCompare = async () => {
+        setError('');
+        if (!story.trim()) {
+            setError('ストーリーを入力してください');
+            return;
+        }
+        if (!providerContext) return;
+        const { geminiConfig, credentials } = providerContext;
+        if (!credentials?.hasGeminiKey && geminiConfig.provider === 'google') {
+            setError('プロンプト生成にはGemini/Vertex AIの設定が必要です。');
+            return;
+        }
+        if (renderPages) {
+            const problem = getImageProvider(imageProvider).checkConfig(providerContext);
+            if (problem) {
+                setError(problem);
+                return;
+            }
+        }
+
+        imageUrlsRef.current.forEach(url => URL.revokeObjectURL(url));
+        imageUrlsRef.current = [];
+        setResults({});
+        setIsComparing(true);
+        const style = findStyle(styles, styleId);
+        const aspectRatio = templateId === 'webtoonPanels' ? WEBTOON_PANEL_RATIO : '2:3';
+
+        // One side after the other so the two runs don't compete for rate limits
+        for (const side of ['a', 'b'] as const) {
+            try {
+                const overBudget = await budgetProblemAction();
+                if (overBudget) throw new Error(overBudget);
+
+                const prompts = await planWithVersionAction(geminiConfig, compare[side], story, pageCount, style);
+                updateResult(side, () => ({ prompts, images: prompts.map(() => null) }));
+                if (!renderPages) continue;
+
+                for (const [i, prompt] of prompts.entries()) {
+                    const problem = await budgetProblemAction();
+                    if (problem) throw new Error(problem);
+                    const image = await generateWithProvider(imageProvider, { prompt, referenceImages: [], aspectRatio, style: style.render }, providerContext);
+                    const url = URL.createObjectURL(image);
+                    imageUrlsRef.current.push(url);
+                    updateResult(side, prev => ({ ...prev, images: prev.images.map((u, j) => j === i ? url : u) }));
+                }
+            } catch (err) {
+                updateResult(side, prev => ({ ...prev, error: err instanceof Error ? err.message : String(err) }));
+            }
+        }
+        setIsComparing(false);
+    };
+
+    const versionTitle = (id: string) => {
+        const version = current?.versions.find(v => v.id === id);
+        return version ? versionLabel(version) : '';
+    };
+
+    return (
+        <div className="max-w-6xl mx-auto space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500 pb-10">
+            <div>
+                <h1 className="text-3xl font-bold tracking-tight">プロンプト</h1>
+                <p className="text-muted-foreground mt-2">
+                    構成・絵コンテなどでモデルに送る指示文のテンプレートです。保存するたびに新しいバージョンとして残り、有効なバージョンが制作で使われます。
+                </p>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+                {(Object.keys(PROMPT_TEMPLATES) as PromptTemplateId[]).map(id => (
+                    <button
+                        key={id}
+                        onClick={() => selectTemplate(id)}
+                        className={cn(
+                            "px-3 py-1.5 rounded-lg border text-sm transition-colors",
+                            id === templateId ? "border-indigo-500 bg-indigo-500/20 text-white" : "border-white/10 text-gray-400 hover:text-white"
+                        )}
+                    >
+                        {PROMPT_TEMPLATES[id].label}
+                    </button>
+                ))}
+            </div>
+
+            {error && (
+                <div className="flex items-start gap-2 rounded-lg border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-300">
+                    <AlertCircle size={16} className="shrink-0 mt-0.5" />{error}
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="lg:col-span-2 p-6 rounded-xl border bg-card text-card-foreground shadow-sm space-y-4">
+                    <h2 className="text-lg font-semibold flex items-center gap-2">
+                        <FileText className="w-5 h-5" /> {template.label}
+                    </h2>
+                    <div className="flex flex-wrap gap-2">
+                        {Object.entries(template.variables).map(([name, description]) => (
+                            <button
+                                key={name}
+                                onClick={() => setDraft(prev => `${prev}{{${name}}}`)}
+                                title={description}
+                                className="px-2 py-0.5 rounded-md border border-white/10 bg-black/30 text-xs font-mono text-indigo-200 hover:border-indigo-500"
+                            >
+                                {`{{${name}}}`}
+                            </button>
+                        ))}
+                        {Object.keys(template.variables).length === 0 && (
+                            <p className="text-xs text-muted-foreground">このテンプレートに変数はありません。</p>
+                        )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                        {'{{#変数}}...{{/変数}}'} で囲んだ部分は、その変数が空のとき省かれます。
+                    </p>
+                    <textarea
+                        value={draft}
+                        onChange={e => setDraft(e.target.value)}
+                        rows={18}
+                        className={cn(inputClass, "font-mono text-xs leading-relaxed")}
+                    />
+                    {unknown.length > 0 && (
+                        <p className="text-xs text-red-300">使えない変数: {unknown.map(name => `{{${name}}}`).join(', ')}</p>
+                    )}
+                    <div className="flex items-center gap-3">
+                        <input
+                            value={note}
+                            onChange={e => setNote(e.target.value)}
+                            placeholder="変更メモ (任意)"
+                            className={inputClass}
+                        />
+                        <button
+                            onClick={handleSave}
+                            disabled={isSaving || unknown.length > 0 || !draft.trim()}
+                            className="flex shrink-0 items-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-semibold text-white hover:bg-indigo-500 disabled:opacity-50"
+                        >
+                            {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+                            新しいバージョンとして保存
+                        </button>
+                    </div>
+                    {message && <p className="text-sm text-green-400">{message}</p>}
+                </div>
+
+                <div className="p-6 rounded-xl border bg-card text-card-foreground shadow-sm space-y-4">
+                    <h2 className="text-lg font-semibold flex items-center gap-2">
+                        <History className="w-5 h-5" /> 履歴
+                    </h2>
+                    <div className="space-y-2">
+                        {current?.versions.slice().reverse().map(version => (
+                            <div key={version.id} className="rounded-lg border border-white/10 bg-black/30 p-3 space-y-2">
+                                <div className="flex items-center justify-between gap-2">
+                                    <p className="text-sm text-white truncate">{versionLabel(version)}</p>
+                                    {version.id === current.activeId && (
+                                        <span className="flex items-center gap-1 text-xs text-green-400"><Check size={12} /> 有効</span>
+                                    )}
+                                </div>
+                                {version.createdAt > 0 && (
+                                    <p className="text-xs text-gray-500">{new Date(version.createdAt).toLocaleString()}</p>
+                                )}
+                                <div className="flex flex-wrap gap-3 text-xs">
+                                    {version.id !== current.activeId && (
+                                        <button onClick={() => handleActivate(version)} className="text-indigo-300 hover:text-indigo-200">有効にする</button>
+                                    )}
+                                    <button onClick={() => setDraft(version.text)} className="text-indigo-300 hover:text-indigo-200">編集に読み込む</button>
+                                    {isPlanning && (['a', 'b'] as const).map(side => (
+                                        <button
+                                            key={side}
+                                            onClick={() => setCompare(prev => ({ ...prev, [side]: version.id }))}
+                                            className={cn(compare[side] === version.id ? "text-white font-semibold" : "text-gray-400 hover:text-white")}
+                                        >
+                                            {side.toUpperCase()}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            {isPlanning && (
+                <div className="p-6 rounded-xl border bg-card text-card-foreground shadow-sm space-y-4">
+                    <h2 className="text-lg font-semibold flex items-center gap-2">
+                        <Columns2 className="w-5 h-5" /> A/B 比較
+                    </h2>
+                    <p className="text-sm text-muted-foreground">
+                        同じストーリーで2つのバージョンを実行し、構成されたプロンプトと描いたページを並べて比べます。履歴の A / B で比べるバージョンを選べます。
+                    </p>
+                    <textarea
+                        value={story}
+                        onChange={e => setStory(e.target.value)}
+                        rows={4}
+                        placeholder={templateId === 'scriptPrompts' ? '脚本' : 'ストーリー'}
+                        className={inputClass}
+                    />
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 items-end">
+                        <label className="space-y-1 text-xs text-gray-400">
+                            <span>{templateId === 'webtoonPanels' ? 'コマ数' : 'ページ数'}</span>
+                            <input
+                                type="number"
+                                min={1}
+                                max={10}
+                                value={pageCount}
+                                onChange={e => setPageCount(Math.max(1, parseInt(e.target.value) || 1))}
+                                className={inputClass}
+                            />
+                        </label>
+                        <label className="space-y-1 text-xs text-gray-400">
+                            <span>スタイル</span>
+                            <select value={styleId} onChange={e => setStyleId(e.target.value)} className={inputClass}>
+                                {styles.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                            </select>
+                        </label>
+                        <label className="space-y-1 text-xs text-gray-400">
+                            <span className="flex items-center gap-2">
+                                <input type="checkbox" checked={renderPages} onChange={e => setRenderPages(e.target.checked)} />
+                                ページも描く
+                            </span>
+                            <select
+                                value={imageProvider}
+                                onChange={e => setImageProvider(e.target.value as ImageProviderId)}
+                                disabled={!renderPages}
+                                className={cn(inputClass, "disabled:opacity-50")}
+                            >
+                                {Object.values(IMAGE_PROVIDERS).map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                            </select>
+                        </label>
+                        <button
+                            onClick={handleCompare}
+                            disabled={isComparing || !providerContext || !compare.a || !compare.b}
+                            className="flex items-center justify-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-semibold text-white hover:bg-indigo-500 disabled:opacity-50"
+                        >
+                            {isComparing ? <Loader2 size={16} className="animate-spin" /> : <Play size={16} />}
+                            比較する
+                        </button>
+                    </div>
+                    {renderPages && (
+                        <p className="text-xs text-muted-foreground">ページの生成は両方のバージョン分の料金がかかります。</p>
+                    )}
+                    <div className="grid grid-cols-2 gap-6">
+                        <ComparisonColumn title={`A: ${versionTitle(compare.a)}`} result={results.a} isRunning={isComparing} />
+                        <ComparisonColumn title={`B: ${versionTitle(compare.b)}`} result={results.b} isRunning={isComparing} />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,46 +1,80 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Save, CheckCircle, AlertCircle, Loader2, List, RefreshCcw, Settings, Key, Globe, Cloud } from 'lucide-react';
+import { Save, CheckCircle, AlertCircle, Loader2, List, RefreshCcw, Settings, Key, Globe, Cloud, Layers, Cpu, Lock, Trash2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-// Note: Client-side model fetching for Vertex might be tricky without a proxy/action. 
-// For now we keep listModels for Google AI Studio or disable it for Vertex/implement later.
-import { getAvailableModels } from '@/lib/gemini';
+// Model listing and the Vertex connection test run on the server
+import { listGeminiModelsAction, listVertexModelsAction, testVertexConnectionAction, ModelInfo, VertexConnectionResult } from '@/app/actions/gemini';
+import { listProfilesAction, saveProfileAction, deleteProfileAction, ProfileSummary } from '@/app/actions/vault';
+import { loadProfileName, saveProfileName, LEGACY_KEY_STORAGE } from '@/lib/credentials';
+import { QueueSettings, DEFAULT_QUEUE_SETTINGS, loadQueueSettings } from '@/lib/queue';
+import { ModelSettings, DEFAULT_MODELS, loadModelSettings, saveModelSettings, isImagenModel } from '@/lib/models';
+import { DEFAULT_VERTEX_LOCATION, loadGeminiConfig, saveGeminiConfig } from '@/lib/gemini-config';
+import type { PersonGeneration } from '@/app/actions/gemini';
+
+const MODEL_FIELDS: { key: keyof ModelSettings; label: string; short: string }[] = [
+    { key: 'textModel', label: 'テキストモデル (構成・絵コンテ)', short: 'テキスト' },
+    { key: 'imageModel', label: '画像モデル (Gemini / Vertex AI)', short: '画像' },
+    { key: 'visionModel', label: '解析モデル (キャラクター特徴)', short: '解析' },
+    { key: 'falModel', label: 'fal.ai モデル', short: 'fal.ai' },
+    { key: 'falInpaintModel', label: 'fal.ai 部分修正モデル (インペイント)', short: 'fal.ai 修正' },
+];
+
+const isFalField = (key: keyof ModelSettings) => key === 'falModel' || key === 'falInpaintModel';
 
 export default function SettingsPage() {
     const [provider, setProvider] = useState<'google' | 'vertex'>('google');
+    const [profileName, setProfileName] = useState('');
+    const [profiles, setProfiles] = useState<ProfileSummary[]>([]);
+    // Keys are write-only: typed here, sent to the vault on save, never read back
     const [apiKey, setApiKey] = useState('');
     const [projectId, setProjectId] = useState('');
-    const [location, setLocation] = useState('us-central1');
+    const [location, setLocation] = useState(DEFAULT_VERTEX_LOCATION);
+    const [personGeneration, setPersonGeneration] = useState<PersonGeneration>('allow_adult');
     const [falApiKey, setFalApiKey] = useState('');
+    const [queueSettings, setQueueSettings] = useState<QueueSettings>(DEFAULT_QUEUE_SETTINGS);
+    const [modelSettings, setModelSettings] = useState<ModelSettings>(DEFAULT_MODELS);
 
     const [status, setStatus] = useState<'idle' | 'saving' | 'success' | 'error'>('idle');
     const [message, setMessage] = useState('');
 
-    // Model List State (Google AI Only for now)
-    const [models, setModels] = useState<{ name: string; displayName: string; description: string; supportedGenerationMethods: string[] }[]>([]);
+    const [vertexCheck, setVertexCheck] = useState<VertexConnectionResult | null>(null);
+
+    // Model List State
+    const [models, setModels] = useState<ModelInfo[]>([]);
     const [loadingModels, setLoadingModels] = useState(false);
     const [modelError, setModelError] = useState('');
 
     useEffect(() => {
-        const storedProvider = localStorage.getItem('gemini_provider');
-        if (storedProvider === 'vertex') setProvider('vertex');
+        const stored = loadGeminiConfig();
+        setProvider(stored.provider);
+        setProjectId(stored.projectId || '');
+        setLocation(stored.location || DEFAULT_VERTEX_LOCATION);
+        if (stored.personGeneration) setPersonGeneration(stored.personGeneration);
 
-        const storedKey = localStorage.getItem('gemini_api_key');
-        if (storedKey) setApiKey(storedKey);
-
-        const storedProject = localStorage.getItem('vertex_project_id');
-        if (storedProject) setProjectId(storedProject);
+        setProfileName(loadProfileName());
+        listProfilesAction().then(setProfiles).catch(err => console.error("Failed to load credential profiles", err));
 
-        const storedLocation = localStorage.getItem('vertex_location');
-        if (storedLocation) setLocation(storedLocation);
+        // Keys from before the vault are prefilled so the next save moves them to the server
+        const storedKey = localStorage.getItem(LEGACY_KEY_STORAGE.geminiApiKey);
+        if (storedKey) setApiKey(storedKey);
 
-        const storedFalKey = localStorage.getItem('fal_api_key');
+        const storedFalKey = localStorage.getItem(LEGACY_KEY_STORAGE.falApiKey);
         if (storedFalKey) setFalApiKey(storedFalKey);
+
+        setQueueSettings(loadQueueSettings());
+        setModelSettings(loadModelSettings());
     }, []);
 
+    const currentProfile = profiles.find(p => p.name === profileName.trim());
+
     const handleSaveAndVerify = async () => {
-        if (provider === 'google' && !apiKey.trim()) {
+        if (!profileName.trim()) {
+            setStatus('error');
+            setMessage('プロファイル名を入力してください');
+            return;
+        }
+        if (provider === 'google' && !apiKey.trim() && !currentProfile?.hasGeminiKey) {
             setStatus('error');
             setMessage('APIキーを入力してください');
             return;
@@ -56,24 +90,48 @@ export default function SettingsPage() {
 
         try {
             // Basic LocalStorage Save
-            localStorage.setItem('gemini_provider', provider);
-            localStorage.setItem('fal_api_key', falApiKey);
+            saveGeminiConfig({ provider, projectId, location, personGeneration });
+            localStorage.setItem('queue_concurrency_fal', String(queueSettings.concurrency.fal));
+            localStorage.setItem('queue_max_retries', String(queueSettings.maxRetries));
+            saveModelSettings(modelSettings);
+
+            // Keys go to the server-side vault; empty inputs keep what the profile already holds
+            const saved = await saveProfileAction(profileName, {
+                geminiApiKey: apiKey.trim() || undefined,
+                falApiKey: falApiKey.trim() || undefined
+            });
+            setProfiles(prev => [...prev.filter(p => p.name !== saved.name), saved]);
+            setProfileName(saved.name);
+            saveProfileName(saved.name);
+            localStorage.removeItem(LEGACY_KEY_STORAGE.geminiApiKey);
+            localStorage.removeItem(LEGACY_KEY_STORAGE.falApiKey);
+            setApiKey('');
+            setFalApiKey('');
 
             if (provider === 'google') {
-                localStorage.setItem('gemini_api_key', apiKey);
                 // Simple validation attempt for Google
                 try {
-                    const list = await getAvailableModels(apiKey);
+                    const list = await listGeminiModelsAction(saved.name);
                     setModels(list); // Side effect: update model list
                 } catch (e) {
                     console.warn("Model fetch failed during verification", e);
                     // Non-fatal if just saving, but good to warn
                 }
             } else {
-                localStorage.setItem('vertex_project_id', projectId);
-                localStorage.setItem('vertex_location', location);
-                // Vertex verification would need a server action. 
-                // For now, we assume success if inputs are present.
+                setMessage('Vertex AIへの接続を確認中...');
+                const check = await testVertexConnectionAction(vertexConfig());
+                setVertexCheck(check);
+                if (!check.ok) {
+                    // The settings are kept so the user can fix the environment and test again
+                    setStatus('error');
+                    setMessage(`設定は保存しましたが、接続テストに失敗しました: ${check.message}`);
+                    return;
+                }
+                try {
+                    setModels(await listVertexModelsAction(vertexConfig()));
+                } catch (e) {
+                    console.warn("Model fetch failed during verification", e);
+                }
             }
 
             setStatus('success');
@@ -92,19 +150,27 @@ export default function SettingsPage() {
         }
     };
 
+    // The text model is the one the connection test calls
+    const vertexConfig = () => ({
+        provider: 'vertex' as const,
+        projectId: projectId.trim(),
+        location: location.trim(),
+        textModel: modelSettings.textModel.trim() || undefined
+    });
+
+    const canListModels = provider === 'google' ? !!currentProfile?.hasGeminiKey : !!location.trim();
+
     const fetchModels = async () => {
-        if (provider !== 'google') {
-            setModelError('モデル一覧の取得は現在Google AI Studioのみ対応しています');
-            return;
-        }
-        if (!apiKey.trim()) return;
+        if (!canListModels) return;
 
         setLoadingModels(true);
         setModelError('');
         setModels([]);
 
         try {
-            const list = await getAvailableModels(apiKey);
+            const list = provider === 'google'
+                ? await listGeminiModelsAction(currentProfile!.name)
+                : await listVertexModelsAction(vertexConfig());
             setModels(list);
         } catch (err) {
             setModelError(err instanceof Error ? err.message : 'モデル一覧の取得に失敗しました');
@@ -118,11 +184,55 @@ export default function SettingsPage() {
             <div>
                 <h1 className="text-3xl font-bold tracking-tight">設定</h1>
                 <p className="text-muted-foreground mt-2">
-                    AIプロバイダーとAPIキーの設定を行います。設定はブラウザにのみ保存されます。
+                    AIプロバイダーとAPIキーの設定を行います。APIキーはサーバー側の認証情報プロファイルに保存されます。
                 </p>
             </div>
 
             <div className="space-y-6">
+                {/* Credential Profile */}
+                <div className="p-6 rounded-xl border bg-card text-card-foreground shadow-sm space-y-4">
+                    <h2 className="text-lg font-semibold flex items-center gap-2">
+                        <Lock className="w-5 h-5" />
+                        認証情報プロファイル
+                    </h2>
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            list="credential-profiles"
+                            value={profileName}
+                            onChange={(e) => setProfileName(e.target.value)}
+                            placeholder="default"
+                            className="flex-1 rounded-lg border border-white/10 bg-black/50 px-4 py-2 text-white placeholder:text-gray-600 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                        />
+                        <datalist id="credential-profiles">
+                            {profiles.map(p => <option key={p.name} value={p.name} />)}
+                        </datalist>
+                        <button
+                            onClick={async () => {
+                                if (!currentProfile || !confirm(`プロファイル「${currentProfile.name}」と保存されたキーを削除しますか？`)) return;
+                                await deleteProfileAction(currentProfile.name);
+                                setProfiles(prev => prev.filter(p => p.name !== currentProfile.name));
+                            }}
+                            disabled={!currentProfile}
+                            className="p-2 rounded-lg text-muted-foreground hover:bg-destructive hover:text-destructive-foreground transition-all disabled:opacity-40"
+                            title="プロファイルを削除"
+                        >
+                            <Trash2 size={16} />
+                        </button>
+                    </div>
+                    <div className="flex gap-2 text-xs">
+                        <span className={cn("px-2 py-0.5 rounded-full border", currentProfile?.hasGeminiKey ? "border-green-500/40 text-green-300" : "border-white/10 text-muted-foreground")}>
+                            Gemini {currentProfile?.hasGeminiKey ? '保存済み' : '未設定'}
+                        </span>
+                        <span className={cn("px-2 py-0.5 rounded-full border", currentProfile?.hasFalKey ? "border-green-500/40 text-green-300" : "border-white/10 text-muted-foreground")}>
+                            fal.ai {currentProfile?.hasFalKey ? '保存済み' : '未設定'}
+                        </span>
+                    </div>
+                    <p className="text-xs text-gray-400">
+                        APIキーはサーバー上で暗号化して保存され、このブラウザにはプロファイル名だけが記録されます。チームで同じデプロイを使う場合は、プロファイルを分けて管理できます。
+                    </p>
+                </div>
+
                 {/* Provider Selection */}
                 <div className="p-6 rounded-xl border bg-card text-card-foreground shadow-sm space-y-4">
                     <h2 className="text-lg font-semibold flex items-center gap-2">
@@ -174,11 +284,11 @@ export default function SettingsPage() {
                                 type="password"
                                 value={apiKey}
                                 onChange={(e) => setApiKey(e.target.value)}
-                                placeholder="AIzaSy..."
+                                placeholder={currentProfile?.hasGeminiKey ? '保存済み (変更する場合のみ入力)' : 'AIzaSy...'}
                                 className="w-full rounded-lg border border-white/10 bg-black/50 px-4 py-2 text-white placeholder:text-gray-600 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
                             />
                             <p className="text-xs text-gray-400">
-                                Google AI Studioから取得したAPIキーを入力してください。
+                                Google AI Studioから取得したAPIキーを入力してください。キーはサーバーで暗号化して保存され、ブラウザには戻りません。
                             </p>
                         </div>
                     ) : (
@@ -209,10 +319,44 @@ export default function SettingsPage() {
                                     className="w-full rounded-lg border border-white/10 bg-black/50 px-4 py-2 text-white placeholder:text-gray-600 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
                                 />
                             </div>
+                            <div className="space-y-2">
+                                <label htmlFor="personGeneration" className="block text-sm font-medium text-gray-300">
+                                    人物の生成 (Imagen)
+                                </label>
+                                <select
+                                    id="personGeneration"
+                                    value={personGeneration}
+                                    onChange={(e) => setPersonGeneration(e.target.value as PersonGeneration)}
+                                    className="w-full rounded-lg border border-white/10 bg-black/50 px-4 py-2 text-white focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                                >
+                                    <option value="allow_adult" className="bg-gray-800">大人のみ許可 (allow_adult)</option>
+                                    <option value="allow_all" className="bg-gray-800">すべて許可 (allow_all)</option>
+                                    <option value="dont_allow" className="bg-gray-800">許可しない (dont_allow)</option>
+                                </select>
+                                <p className="text-xs text-gray-400">
+                                    画像モデルに imagen-3.0-generate-002 などの Imagen モデルを指定した場合に使用されます。
+                                </p>
+                            </div>
                             <div className="p-3 bg-yellow-500/10 text-yellow-200 text-xs rounded border border-yellow-500/20">
                                 <strong>注意:</strong> Vertex AIを使用するには、このアプリが実行されている環境で認証情報（ADC）が設定されている必要があります。
                                 <br />（例: <code>gcloud auth application-default login</code> を実行済みであること）
                             </div>
+                            {vertexCheck && (
+                                <div className={cn(
+                                    "p-3 text-xs rounded border space-y-1",
+                                    vertexCheck.ok ? "bg-green-500/10 text-green-200 border-green-500/20" : "bg-destructive/10 text-destructive border-destructive/20"
+                                )}>
+                                    <p className="flex items-center gap-2 font-semibold">
+                                        {vertexCheck.ok ? <CheckCircle size={14} /> : <AlertCircle size={14} />}
+                                        接続テスト: {vertexCheck.ok ? '成功' : '失敗'}
+                                    </p>
+                                    <p>
+                                        認証情報: {vertexCheck.credentialSource === 'env' ? 'GOOGLE_VERTEX_CREDENTIALS' : 'Application Default Credentials'}
+                                        {vertexCheck.account && ` (${vertexCheck.account})`}
+                                    </p>
+                                    <p className="break-all">{vertexCheck.message}</p>
+                                </div>
+                            )}
                         </div>
                     )}
                 </div>
@@ -232,7 +376,7 @@ export default function SettingsPage() {
                             type="password"
                             value={falApiKey}
                             onChange={(e) => setFalApiKey(e.target.value)}
-                            placeholder="key-..."
+                            placeholder={currentProfile?.hasFalKey ? '保存済み (変更する場合のみ入力)' : 'key-...'}
                             className="w-full rounded-lg border border-white/10 bg-black/50 px-4 py-2 text-white placeholder:text-gray-600 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
                         />
                         <p className="text-xs text-gray-400">
@@ -241,6 +385,81 @@ export default function SettingsPage() {
                     </div>
                 </div>
 
+                {/* Model Selection */}
+                <div className="p-6 rounded-xl border bg-card text-card-foreground shadow-sm space-y-4">
+                    <h2 className="text-lg font-semibold flex items-center gap-2">
+                        <Cpu className="w-5 h-5" />
+                        モデル選択
+                    </h2>
+                    {MODEL_FIELDS.map(field => (
+                        <div key={field.key} className="space-y-2">
+                            <label htmlFor={field.key} className="block text-sm font-medium text-gray-300">
+                                {field.label}
+                            </label>
+                            <input
+                                id={field.key}
+                                type="text"
+                                list={isFalField(field.key) ? undefined : 'gemini-models'}
+                                value={modelSettings[field.key]}
+                                onChange={(e) => setModelSettings(prev => ({ ...prev, [field.key]: e.target.value }))}
+                                placeholder={DEFAULT_MODELS[field.key]}
+                                className="w-full rounded-lg border border-white/10 bg-black/50 px-4 py-2 font-mono text-sm text-white placeholder:text-gray-600 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                            />
+                        </div>
+                    ))}
+                    <datalist id="gemini-models">
+                        {models
+                            .filter(model => model.supportedGenerationMethods.includes('generateContent'))
+                            .map(model => (
+                                <option key={model.name} value={model.name.replace('models/', '')}>{model.displayName}</option>
+                            ))}
+                    </datalist>
+                    <p className="text-xs text-gray-400">
+                        下の一覧から選ぶか、モデル名を直接入力してください。空欄の場合は既定のモデルを使用します。
+                    </p>
+                </div>
+
+                {/* Generation Queue */}
+                <div className="p-6 rounded-xl border bg-card text-card-foreground shadow-sm space-y-4">
+                    <h2 className="text-lg font-semibold flex items-center gap-2">
+                        <Layers className="w-5 h-5" />
+                        生成キュー
+                    </h2>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <label htmlFor="concurrencyFal" className="block text-sm font-medium text-gray-300">
+                                同時実行数 (fal.ai)
+                            </label>
+                            <input
+                                id="concurrencyFal"
+                                type="number"
+                                min={1}
+                                max={8}
+                                value={queueSettings.concurrency.fal}
+                                onChange={(e) => setQueueSettings(prev => ({ ...prev, concurrency: { ...prev.concurrency, fal: Math.max(1, parseInt(e.target.value) || 1) } }))}
+                                className="w-full rounded-lg border border-white/10 bg-black/50 px-4 py-2 text-white focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <label htmlFor="maxRetries" className="block text-sm font-medium text-gray-300">
+                                最大リトライ回数
+                            </label>
+                            <input
+                                id="maxRetries"
+                                type="number"
+                                min={0}
+                                max={10}
+                                value={queueSettings.maxRetries}
+                                onChange={(e) => setQueueSettings(prev => ({ ...prev, maxRetries: Math.max(0, parseInt(e.target.value) || 0) }))}
+                                className="w-full rounded-lg border border-white/10 bg-black/50 px-4 py-2 text-white focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                            />
+                        </div>
+                    </div>
+                    <p className="text-xs text-gray-400">
+                        レート制限 (429) やサーバーエラー (5xx) は待ち時間を伸ばしながら自動で再試行します。Gemini のページは1ページずつ生成します。
+                    </p>
+                </div>
+
                 <div className="flex items-center justify-between pt-4 pb-8">
                     <div className="flex items-center space-x-2">
                         {status === 'saving' && <Loader2 className="h-4 w-4 animate-spin text-primary" />}
@@ -265,66 +484,85 @@ export default function SettingsPage() {
                     </button>
                 </div>
 
-                {/* Model List (Google Only) */}
-                {provider === 'google' && (
-                    <div className="space-y-4 pt-8 border-t border-white/10">
-                        <div className="flex items-center justify-between">
-                            <h2 className="text-xl font-semibold flex items-center gap-2">
-                                <List size={20} />
-                                利用可能なモデル一覧 (Google AI)
-                            </h2>
-                            <button
-                                onClick={fetchModels}
-                                disabled={loadingModels || !apiKey}
-                                className="inline-flex items-center text-sm text-primary hover:text-primary/80 disabled:opacity-50"
-                            >
-                                {loadingModels ? (
-                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                                ) : (
-                                    <RefreshCcw className="mr-2 h-4 w-4" />
-                                )}
-                                一覧を更新
-                            </button>
+                {/* Model List */}
+                <div className="space-y-4 pt-8 border-t border-white/10">
+                    <div className="flex items-center justify-between">
+                        <h2 className="text-xl font-semibold flex items-center gap-2">
+                            <List size={20} />
+                            利用可能なモデル一覧 ({provider === 'google' ? 'Google AI' : `Vertex AI: ${location}`})
+                        </h2>
+                        <button
+                            onClick={fetchModels}
+                            disabled={loadingModels || !canListModels}
+                            className="inline-flex items-center text-sm text-primary hover:text-primary/80 disabled:opacity-50"
+                        >
+                            {loadingModels ? (
+                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            ) : (
+                                <RefreshCcw className="mr-2 h-4 w-4" />
+                            )}
+                            一覧を更新
+                        </button>
+                    </div>
+
+                    {modelError && (
+                        <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm flex items-center gap-2">
+                            <AlertCircle size={16} />
+                            {modelError}
                         </div>
+                    )}
 
-                        {modelError && (
-                            <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm flex items-center gap-2">
-                                <AlertCircle size={16} />
-                                {modelError}
-                            </div>
-                        )}
-
-                        {models.length > 0 ? (
-                            <div className="grid gap-3">
-                                {models.map(model => (
-                                    <div key={model.name} className="p-4 rounded-lg border bg-card/50 flex flex-col gap-2">
-                                        <div className="flex items-center justify-between">
-                                            <span className="font-bold text-sm">{model.displayName || model.name}</span>
-                                            <span className="text-xs font-mono bg-muted px-2 py-1 rounded text-muted-foreground">{model.name.replace('models/', '')}</span>
-                                        </div>
-                                        <p className="text-xs text-muted-foreground">{model.description}</p>
-                                        <div className="flex flex-wrap gap-1 mt-1">
-                                            {model.supportedGenerationMethods.map(method => (
-                                                <span key={method} className={cn(
-                                                    "text-[10px] px-1.5 py-0.5 rounded border",
-                                                    method.includes('generateImage') || method.includes('predict')
-                                                        ? "bg-blue-500/10 text-blue-600 border-blue-200 dark:text-blue-400 dark:border-blue-900"
-                                                        : "bg-muted border-transparent text-muted-foreground"
-                                                )}>
-                                                    {method}
-                                                </span>
+                    {models.length > 0 ? (
+                        <div className="grid gap-3">
+                            {models.map(model => (
+                                <div key={model.name} className="p-4 rounded-lg border bg-card/50 flex flex-col gap-2">
+                                    <div className="flex items-center justify-between">
+                                        <span className="font-bold text-sm">{model.displayName || model.name}</span>
+                                        <span className="text-xs font-mono bg-muted px-2 py-1 rounded text-muted-foreground">{model.name.replace('models/', '')}</span>
+                                    </div>
+                                    <p className="text-xs text-muted-foreground">{model.description}</p>
+                                    {(model.supportedGenerationMethods.includes('generateContent') || isImagenModel(model.name)) && (
+                                        <div className="flex gap-2">
+                                            {/* Imagen only renders pages */}
+                                            {MODEL_FIELDS.filter(field => isImagenModel(model.name) ? field.key === 'imageModel' : !isFalField(field.key)).map(field => (
+                                                <button
+                                                    key={field.key}
+                                                    onClick={() => setModelSettings(prev => ({ ...prev, [field.key]: model.name.replace('models/', '') }))}
+                                                    className={cn(
+                                                        "text-[10px] px-2 py-0.5 rounded border transition-colors",
+                                                        modelSettings[field.key] === model.name.replace('models/', '')
+                                                            ? "bg-indigo-500/20 text-indigo-300 border-indigo-500/40"
+                                                            : "border-white/10 text-muted-foreground hover:bg-white/5"
+                                                    )}
+                                                >
+                                                    {field.short}に使用
+                                                </button>
                                             ))}
                                         </div>
+                                    )}
+                                    <div className="flex flex-wrap gap-1 mt-1">
+                                        {model.supportedGenerationMethods.map(method => (
+                                            <span key={method} className={cn(
+                                                "text-[10px] px-1.5 py-0.5 rounded border",
+                                                method.includes('generateImage') || method.includes('predict')
+                                                    ? "bg-blue-500/10 text-blue-600 border-blue-200 dark:text-blue-400 dark:border-blue-900"
+                                                    : "bg-muted border-transparent text-muted-foreground"
+                                            )}>
+                                                {method}
+                                            </span>
+                                        ))}
                                     </div>
-                                ))}
-                            </div>
-                        ) : (
-                            <div className="text-center py-8 text-muted-foreground border-2 border-dashed rounded-lg">
-                                モデル一覧を表示するにはAPIキーを入力して更新してください。
-                            </div>
-                        )}
-                    </div>
-                )}
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <div className="text-center py-8 text-muted-foreground border-2 border-dashed rounded-lg">
+                            {provider === 'google'
+                                ? 'モデル一覧を表示するにはAPIキーを保存して更新してください。'
+                                : 'モデル一覧を表示するにはLocationを入力して更新してください。'}
+                        </div>
+                    )}
+                </div>
             </div>
         </div>
     );
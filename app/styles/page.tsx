@@ -0,0 +1,315 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { Plus, Trash2, Save, Loader2, Palette, Check, Copy, Lock } from 'lucide-react';
+import { getAllImages, getAllStyles, saveStyle, updateStyle, deleteStyle } from '@/lib/db';
+import { StylePreset, BUILT_IN_STYLES } from '@/lib/styles';
+import { cn } from '@/lib/utils';
+
+type Draft = Omit<StylePreset, 'id' | 'createdAt'> & { id?: string; createdAt?: number };
+
+const emptyDraft: Draft = { name: '', planning: '', render: '', negativePrompt: '', referenceImageIds: [] };
+
+const inputClass = "w-full rounded-lg border border-white/10 bg-black/50 px-4 py-2 text-sm text-white placeholder:text-gray-600 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:opacity-60";
+
+export default function StylesPage() {
+    const router = useRouter();
+    const [styles, setStyles] = useState<StylePreset[]>([]);
+    const [images, setImages] = useState<{ id: string; url: string; name: string }[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const [draft, setDraft] = useState<Draft>(emptyDraft);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    const loadData = useCallback(async () => {
+        try {
+            const [storedStyles, storedImages] = await Promise.all([getAllStyles(), getAllImages()]);
+            setStyles(storedStyles.reverse()); // Show newest first
+            setImages(storedImages.map(img => ({
+                id: img.id,
+                url: URL.createObjectURL(img.data),
+                name: img.name
+            })).reverse());
+        } catch (err) {
+            console.error("Failed to load styles", err);
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadData();
+        return () => {
+            // Cleanup URLs on unmount
+            images.forEach(img => URL.revokeObjectURL(img.url));
+        };
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    // Built-in presets are read-only; editing starts from a copy
+    const isReadOnly = !!draft.builtIn;
+
+    const toggleImage = (id: string) => {
+        if (isReadOnly) return;
+        setDraft(prev => ({
+            ...prev,
+            referenceImageIds: prev.referenceImageIds.includes(id)
+                ? prev.referenceImageIds.filter(i => i !== id)
+                : [...prev.referenceImageIds, id]
+        }));
+    };
+
+    const handleDuplicate = () => {
+        setDraft({
+            name: `${draft.name} のコピー`,
+            planning: draft.planning,
+            render: draft.render,
+            negativePrompt: draft.negativePrompt || '',
+            referenceImageIds: [...draft.referenceImageIds]
+        });
+        setError('');
+    };
+
+    const handleSave = async () => {
+        if (!draft.name.trim()) {
+            setError('スタイル名を入力してください');
+            return;
+        }
+        if (!draft.planning.trim() || !draft.render.trim()) {
+            setError('構成用と描画用の指示を入力してください');
+            return;
+        }
+
+        setIsSaving(true);
+        setError('');
+        try {
+            const fields = {
+                name: draft.name.trim(),
+                planning: draft.planning.trim(),
+                render: draft.render.trim(),
+                negativePrompt: draft.negativePrompt?.trim() || undefined,
+                referenceImageIds: draft.referenceImageIds
+            };
+            if (draft.id && draft.createdAt) {
+                const updated = await updateStyle({ ...fields, id: draft.id, createdAt: draft.createdAt });
+                setStyles(prev => prev.map(s => s.id === updated.id ? updated : s));
+                setDraft(updated);
+            } else {
+                const created = await saveStyle(fields);
+                setStyles(prev => [created, ...prev]);
+                setDraft(created);
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : '保存に失敗しました');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        if (confirm('このスタイルを削除しますか？')) {
+            await deleteStyle(id);
+            setStyles(prev => prev.filter(s => s.id !== id));
+            if (draft.id === id) setDraft(emptyDraft);
+        }
+    };
+
+    const renderListItem = (style: StylePreset) => (
+        <div
+            key={style.id}
+            onClick={() => { setDraft(style); setError(''); }}
+            className={cn(
+                "group flex items-center gap-3 p-3 rounded-xl border cursor-pointer transition-all",
+                draft.id === style.id
+                    ? "border-indigo-500 bg-indigo-500/10"
+                    : "border-white/10 hover:border-white/20 hover:bg-white/5"
+            )}
+        >
+            <div className="w-10 h-10 min-w-[2.5rem] rounded-lg bg-white/5 flex items-center justify-center">
+                {style.builtIn ? <Lock size={16} className="text-muted-foreground" /> : <Palette size={18} className="text-muted-foreground" />}
+            </div>
+            <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold text-white truncate">{style.name}</p>
+                <p className="text-xs text-muted-foreground truncate">{style.render}</p>
+            </div>
+            {!style.builtIn && (
+                <button
+                    onClick={(e) => { e.stopPropagation(); handleDelete(style.id); }}
+                    className="p-2 rounded-full text-muted-foreground opacity-0 group-hover:opacity-100 hover:bg-destructive hover:text-destructive-foreground transition-all"
+                    title="削除"
+                >
+                    <Trash2 size={14} />
+                </button>
+            )}
+        </div>
+    );
+
+    return (
+        <div className="max-w-6xl mx-auto space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
+            <div>
+                <h1 className="text-3xl font-bold tracking-tight">スタイル</h1>
+                <p className="text-muted-foreground mt-2">
+                    作画スタイルのプリセットを管理します。選んだスタイルは構成作成と画像生成の両方のプロンプトに使われます。
+                </p>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {/* Style List */}
+                <div className="space-y-3">
+                    <button
+                        onClick={() => { setDraft(emptyDraft); setError(''); }}
+                        className="w-full flex items-center justify-center gap-2 rounded-xl border-2 border-dashed border-white/20 py-3 text-sm text-muted-foreground hover:bg-white/5 hover:border-white/40 hover:text-white transition-all"
+                    >
+                        <Plus size={16} /> 新しいスタイル
+                    </button>
+
+                    <p className="text-xs font-semibold text-gray-400 pt-2">マイスタイル</p>
+                    {isLoading ? (
+                        <div className="flex justify-center py-6">
+                            <Loader2 className="animate-spin text-primary" size={24} />
+                        </div>
+                    ) : styles.length === 0 ? (
+                        <div className="text-center py-6 text-muted-foreground border rounded-lg bg-muted/20 text-sm">
+                            スタイルがまだありません。
+                        </div>
+                    ) : (
+                        styles.map(renderListItem)
+                    )}
+
+                    <p className="text-xs font-semibold text-gray-400 pt-2">プリセット</p>
+                    {BUILT_IN_STYLES.map(renderListItem)}
+                </div>
+
+                {/* Editor */}
+                <div className="lg:col-span-2 p-6 rounded-xl border bg-card text-card-foreground shadow-sm space-y-6">
+                    {isReadOnly && (
+                        <div className="flex items-center justify-between gap-3 p-3 rounded-md bg-white/5 text-sm text-gray-300">
+                            <span>プリセットは編集できません。複製してから編集してください。</span>
+                            <button
+                                onClick={handleDuplicate}
+                                className="inline-flex items-center gap-1 text-xs text-indigo-300 hover:text-indigo-200 whitespace-nowrap"
+                            >
+                                <Copy size={14} /> 複製して編集
+                            </button>
+                        </div>
+                    )}
+
+                    <div className="space-y-2">
+                        <label htmlFor="styleName" className="block text-sm font-medium text-gray-300">名前</label>
+                        <input
+                            id="styleName"
+                            type="text"
+                            value={draft.name}
+                            onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                            placeholder="例: 水彩ファンタジー"
+                            disabled={isReadOnly}
+                            className={inputClass}
+                        />
+                    </div>
+
+                    <div className="space-y-2">
+                        <label htmlFor="stylePlanning" className="block text-sm font-medium text-gray-300">構成用の指示</label>
+                        <textarea
+                            id="stylePlanning"
+                            value={draft.planning}
+                            onChange={(e) => setDraft(prev => ({ ...prev, planning: e.target.value }))}
+                            placeholder="例: Full colour fantasy manga page. Soft watercolour textures, airy compositions..."
+                            disabled={isReadOnly}
+                            className={cn(inputClass, "min-h-[90px] resize-y")}
+                        />
+                        <p className="text-xs text-gray-400">ページ構成・絵コンテを作るときにAIへ伝える作画の方向性です。</p>
+                    </div>
+
+                    <div className="space-y-2">
+                        <label htmlFor="styleRender" className="block text-sm font-medium text-gray-300">描画用の指示</label>
+                        <textarea
+                            id="styleRender"
+                            value={draft.render}
+                            onChange={(e) => setDraft(prev => ({ ...prev, render: e.target.value }))}
+                            placeholder="例: watercolour manga, soft pastel palette, delicate ink outlines, high quality"
+                            disabled={isReadOnly}
+                            className={cn(inputClass, "min-h-[70px] resize-y")}
+                        />
+                        <p className="text-xs text-gray-400">画像生成のプロンプト末尾に「Style: …」として追加されます。</p>
+                    </div>
+
+                    <div className="space-y-2">
+                        <label htmlFor="styleNegative" className="block text-sm font-medium text-gray-300">ネガティブプロンプト (オプション)</label>
+                        <input
+                            id="styleNegative"
+                            type="text"
+                            value={draft.negativePrompt || ''}
+                            onChange={(e) => setDraft(prev => ({ ...prev, negativePrompt: e.target.value }))}
+                            placeholder="例: photorealistic, 3d render"
+                            disabled={isReadOnly}
+                            className={inputClass}
+                        />
+                        <p className="text-xs text-gray-400">対応するプロバイダーでは詳細設定のネガティブプロンプトに追加されます。</p>
+                    </div>
+
+                    <div className="space-y-2">
+                        <label className="text-sm font-medium text-gray-300 flex items-center justify-between">
+                            <span>スタイル参照画像 (オプション)</span>
+                            <span className="text-[10px] bg-indigo-500/20 text-indigo-300 px-2 py-0.5 rounded-full border border-indigo-500/30">{draft.referenceImageIds.length}枚選択中</span>
+                        </label>
+                        <div className="grid grid-cols-4 md:grid-cols-6 gap-2">
+                            {images.map(img => {
+                                const isSelected = draft.referenceImageIds.includes(img.id);
+                                return (
+                                    <div
+                                        key={img.id}
+                                        onClick={() => toggleImage(img.id)}
+                                        className={cn(
+                                            "aspect-square rounded-lg overflow-hidden border-2 transition-all relative",
+                                            isReadOnly ? "opacity-60" : "cursor-pointer",
+                                            isSelected ? "border-indigo-500" : "border-white/5 hover:border-white/20"
+                                        )}
+                                    >
+                                        {/* eslint-disable-next-line @next/next/no-img-element */}
+                                        <img src={img.url} alt={img.name} className="w-full h-full object-cover" />
+                                        {isSelected && (
+                                            <div className="absolute top-1 right-1 w-5 h-5 bg-indigo-500 text-white rounded-full flex items-center justify-center">
+                                                <Check size={12} />
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                            <button
+                                onClick={() => router.push('/assets')}
+                                className="aspect-square rounded-lg border-2 border-dashed border-white/20 flex items-center justify-center hover:bg-white/5 hover:border-white/40 transition-all"
+                                title="アセットを追加"
+                            >
+                                <Plus size={18} className="text-muted-foreground" />
+                            </button>
+                        </div>
+                        <p className="text-xs text-gray-400">
+                            参照画像に対応したプロバイダーでは、線・トーン・色使いの手本として送信されます。
+                        </p>
+                    </div>
+
+                    {error && (
+                        <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm">
+                            {error}
+                        </div>
+                    )}
+
+                    {!isReadOnly && (
+                        <div className="flex justify-end">
+                            <button
+                                onClick={handleSave}
+                                disabled={isSaving}
+                                className="inline-flex items-center justify-center whitespace-nowrap rounded-md text-sm font-medium transition-colors disabled:pointer-events-none disabled:opacity-50 bg-primary text-primary-foreground hover:bg-primary/90 h-10 px-8 py-2"
+                            >
+                                {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                                {draft.id ? '更新' : '作成'}
+                            </button>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,283 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Loader2, Save, Trash2, Plus, RefreshCcw, Wallet, CalendarDays, Layers, Tag } from 'lucide-react';
+import { getAllProjects, Project } from '@/lib/db';
+import { getUsageAction, clearUsageAction, getUsageSettingsAction, saveUsageSettingsAction } from '@/app/actions/usage';
+import {
+    UsageRecord, ModelPrice, BudgetCaps, UsageTotals,
+    summarize, estimateCost, dayKey, DEFAULT_PRICES
+} from '@/lib/usage';
+
+const inputClass = "w-full rounded-lg border border-white/10 bg-black/50 px-3 py-1.5 text-sm text-white placeholder:text-gray-600 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500";
+
+const formatCost = (cost: number) => `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+
+function TotalsTable({ rows, label }: { rows: UsageTotals[]; label: (key: string) => string }) {
+    if (rows.length === 0) {
+        return <p className="text-sm text-muted-foreground">まだ記録がありません。</p>;
+    }
+    return (
+        <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+                <thead className="text-xs text-gray-400 text-left">
+                    <tr>
+                        <th className="py-2 pr-3 font-medium"></th>
+                        <th className="py-2 px-3 font-medium text-right">呼び出し</th>
+                        <th className="py-2 px-3 font-medium text-right">失敗</th>
+                        <th className="py-2 px-3 font-medium text-right">入力トークン</th>
+                        <th className="py-2 px-3 font-medium text-right">出力トークン</th>
+                        <th className="py-2 px-3 font-medium text-right">画像</th>
+                        <th className="py-2 pl-3 font-medium text-right">推定コスト</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.map(row => (
+                        <tr key={row.key} className="border-t border-white/5">
+                            <td className="py-2 pr-3 text-white truncate max-w-[16rem]">{label(row.key)}</td>
+                            <td className="py-2 px-3 text-right">{row.calls}</td>
+                            <td className="py-2 px-3 text-right text-red-300">{row.errors || ''}</td>
+                            <td className="py-2 px-3 text-right">{row.inputTokens.toLocaleString()}</td>
+                            <td className="py-2 px-3 text-right">{row.outputTokens.toLocaleString()}</td>
+                            <td className="py-2 px-3 text-right">{row.images}</td>
+                            <td className="py-2 pl-3 text-right font-semibold text-indigo-300">{formatCost(row.cost)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+}
+
+export default function UsagePage() {
+    const [records, setRecords] = useState<UsageRecord[]>([]);
+    const [projects, setProjects] = useState<Project[]>([]);
+    const [prices, setPrices] = useState<ModelPrice[]>(DEFAULT_PRICES);
+    const [budget, setBudget] = useState<BudgetCaps>({});
+    const [isLoading, setIsLoading] = useState(true);
+    const [message, setMessage] = useState('');
+
+    const loadRecords = async () => {
+        setIsLoading(true);
+        try {
+            const [usage, storedProjects] = await Promise.all([getUsageAction(), getAllProjects()]);
+            setRecords(usage);
+            setProjects(storedProjects);
+        } catch (err) {
+            console.error("Failed to load usage", err);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const loadSettings = async () => {
+        try {
+            const settings = await getUsageSettingsAction();
+            setPrices(settings.prices);
+            setBudget(settings.budget);
+        } catch (err) {
+            console.error("Failed to load usage settings", err);
+        }
+    };
+
+    useEffect(() => {
+        loadSettings();
+        loadRecords();
+    }, []);
+
+    // Models that were called but have no price yet
+    const unpriced = Array.from(new Set(records.map(r => r.model))).filter(model => !prices.some(p => p.model === model));
+
+    const totalCost = records.reduce((sum, r) => sum + estimateCost(r, prices), 0);
+    const today = dayKey(Date.now());
+    const todayCost = records.filter(r => dayKey(r.createdAt) === today).reduce((sum, r) => sum + estimateCost(r, prices), 0);
+
+    const projectName = (key: string) => key ? projects.find(p => p.id === key)?.name || '(削除されたプロジェクト)' : 'プロジェクト外 (構成・絵コンテ)';
+
+    const updatePrice = (index: number, patch: Partial<ModelPrice>) => {
+        setPrices(prev => prev.map((p, i) => i === index ? { ...p, ...patch } : p));
+    };
+
+    const updateCap = (key: keyof BudgetCaps, value: string) => {
+        const amount = parseFloat(value);
+        setBudget(prev => ({ ...prev, [key]: Number.isFinite(amount) && amount >= 0 ? amount : undefined }));
+    };
+
+    const handleSave = async () => {
+        try {
+            await saveUsageSettingsAction({ prices, budget });
+            setMessage('保存しました');
+        } catch (err) {
+            setMessage(err instanceof Error ? err.message : '保存に失敗しました');
+        }
+        setTimeout(() => setMessage(''), 2000);
+    };
+
+    const handleClear = async () => {
+        if (!confirm('使用量の記録をすべて削除しますか？予算上限の計算もリセットされます。')) return;
+        try {
+            await clearUsageAction();
+            setRecords([]);
+        } catch (err) {
+            alert(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    return (
+        <div className="max-w-5xl mx-auto space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500 pb-10">
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight">使用量</h1>
+                    <p className="text-muted-foreground mt-2">
+                        Gemini・Vertex AI・fal.ai への呼び出しの記録と推定コストです。コストは下の料金表から計算した目安です。
+                    </p>
+                </div>
+                <button
+                    onClick={loadRecords}
+                    disabled={isLoading}
+                    className="flex items-center gap-2 text-sm text-indigo-300 hover:text-indigo-200 disabled:opacity-50"
+                >
+                    {isLoading ? <Loader2 size={16} className="animate-spin" /> : <RefreshCcw size={16} />}
+                    更新
+                </button>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+                <div className="p-4 rounded-xl border bg-card">
+                    <p className="text-xs text-muted-foreground">本日</p>
+                    <p className="text-2xl font-bold text-white">{formatCost(todayCost)}</p>
+                </div>
+                <div className="p-4 rounded-xl border bg-card">
+                    <p className="text-xs text-muted-foreground">合計</p>
+                    <p className="text-2xl font-bold text-white">{formatCost(totalCost)}</p>
+                </div>
+                <div className="p-4 rounded-xl border bg-card">
+                    <p className="text-xs text-muted-foreground">呼び出し (失敗)</p>
+                    <p className="text-2xl font-bold text-white">
+                        {records.length} <span className="text-base text-red-300">({records.filter(r => r.outcome === 'error').length})</span>
+                    </p>
+                </div>
+            </div>
+
+            <div className="p-6 rounded-xl border bg-card text-card-foreground shadow-sm space-y-4">
+                <h2 className="text-lg font-semibold flex items-center gap-2">
+                    <CalendarDays className="w-5 h-5" /> 日別
+                </h2>
+                <TotalsTable
+                    rows={summarize(records, prices, r => dayKey(r.createdAt)).sort((a, b) => b.key.localeCompare(a.key))}
+                    label={key => key}
+                />
+            </div>
+
+            <div className="p-6 rounded-xl border bg-card text-card-foreground shadow-sm space-y-4">
+                <h2 className="text-lg font-semibold flex items-center gap-2">
+                    <Layers className="w-5 h-5" /> プロジェクト別
+                </h2>
+                <TotalsTable rows={summarize(records, prices, r => r.projectId || '')} label={projectName} />
+            </div>
+
+            <div className="p-6 rounded-xl border bg-card text-card-foreground shadow-sm space-y-4">
+                <h2 className="text-lg font-semibold flex items-center gap-2">
+                    <Tag className="w-5 h-5" /> 料金表 (USD)
+                </h2>
+                <div className="space-y-2">
+                    <div className="grid grid-cols-[1fr_7rem_7rem_7rem_2rem] gap-2 text-xs text-gray-400">
+                        <span>モデル</span>
+                        <span>入力 / 100万トークン</span>
+                        <span>出力 / 100万トークン</span>
+                        <span>画像1枚</span>
+                        <span></span>
+                    </div>
+                    {prices.map((price, idx) => (
+                        <div key={idx} className="grid grid-cols-[1fr_7rem_7rem_7rem_2rem] gap-2">
+                            <input
+                                type="text"
+                                value={price.model}
+                                onChange={(e) => updatePrice(idx, { model: e.target.value })}
+                                placeholder="model id"
+                                className={inputClass}
+                            />
+                            {(['inputPerMillion', 'outputPerMillion', 'perImage'] as const).map(key => (
+                                <input
+                                    key={key}
+                                    type="number"
+                                    min={0}
+                                    step="0.001"
+                                    value={price[key]}
+                                    onChange={(e) => updatePrice(idx, { [key]: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                    className={inputClass}
+                                />
+                            ))}
+                            <button
+                                onClick={() => setPrices(prev => prev.filter((_, i) => i !== idx))}
+                                className="p-2 rounded-lg text-muted-foreground hover:bg-destructive hover:text-destructive-foreground transition-all"
+                                title="削除"
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                    ))}
+                    <div className="flex flex-wrap gap-2 pt-1">
+                        <button
+                            onClick={() => setPrices(prev => [...prev, { model: '', inputPerMillion: 0, outputPerMillion: 0, perImage: 0 }])}
+                            className="inline-flex items-center gap-1 text-xs text-indigo-300 hover:text-indigo-200"
+                        >
+                            <Plus size={14} /> モデルを追加
+                        </button>
+                        {unpriced.map(model => (
+                            <button
+                                key={model}
+                                onClick={() => setPrices(prev => [...prev, { model, inputPerMillion: 0, outputPerMillion: 0, perImage: 0 }])}
+                                className="inline-flex items-center gap-1 text-xs text-amber-300 hover:text-amber-200"
+                                title="記録にあるが料金が未設定のモデル"
+                            >
+                                <Plus size={14} /> {model}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            <div className="p-6 rounded-xl border bg-card text-card-foreground shadow-sm space-y-4">
+                <h2 className="text-lg font-semibold flex items-center gap-2">
+                    <Wallet className="w-5 h-5" /> 予算上限 (USD)
+                </h2>
+                <p className="text-xs text-gray-400">上限に達すると、新しい生成を始められなくなります。空欄は上限なしです。</p>
+                <div className="grid grid-cols-3 gap-4">
+                    {([['daily', '1日'], ['monthly', '1か月'], ['perProject', '1プロジェクト']] as const).map(([key, label]) => (
+                        <div key={key} className="space-y-1">
+                            <label className="text-xs text-gray-300">{label}</label>
+                            <input
+                                type="number"
+                                min={0}
+                                step="0.01"
+                                value={budget[key] ?? ''}
+                                onChange={(e) => updateCap(key, e.target.value)}
+                                className={inputClass}
+                            />
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+                <button
+                    onClick={handleClear}
+                    disabled={records.length === 0}
+                    className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-red-300 disabled:opacity-50"
+                >
+                    <Trash2 size={16} /> 記録を削除
+                </button>
+                <div className="flex items-center gap-3">
+                    {message && <span className="text-sm text-green-400">{message}</span>}
+                    <button
+                        onClick={handleSave}
+                        className="inline-flex items-center justify-center whitespace-nowrap rounded-md text-sm font-medium transition-colors bg-primary text-primary-foreground hover:bg-primary/90 h-10 px-8 py-2"
+                    >
+                        <Save className="mr-2 h-4 w-4" /> 保存
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
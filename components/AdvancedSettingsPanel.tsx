@@ -0,0 +1,160 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, Lock, Unlock, Dices } from 'lucide-react';
+import { AdvancedSettings, SafetyLevel, SAFETY_LEVELS, randomSeed } from '@/lib/generation';
+import type { ImageProviderCapabilities } from '@/lib/image-provider';
+import { cn } from '@/lib/utils';
+
+interface AdvancedSettingsPanelProps {
+    settings: AdvancedSettings;
+    capabilities: ImageProviderCapabilities;
+    onChange: (settings: AdvancedSettings) => void;
+}
+
+const inputClass = "w-full rounded-xl border border-white/20 bg-white/5 px-3 py-2 text-sm text-white placeholder:text-gray-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500/50 disabled:opacity-40";
+
+// Empty input means "provider default"
+function parseOptional(value: string, parse: (v: string) => number): number | null {
+    if (value.trim() === '') return null;
+    const n = parse(value);
+    return Number.isFinite(n) ? n : null;
+}
+
+// Collapsible Workspace section for seed, steps, guidance, negative prompt, planning temperature and safety
+export function AdvancedSettingsPanel({ settings, capabilities, onChange }: AdvancedSettingsPanelProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const update = (patch: Partial<AdvancedSettings>) => onChange({ ...settings, ...patch });
+
+    const unsupported = (supported: boolean) => supported ? undefined : 'このプロバイダーでは使用されません';
+
+    return (
+        <div className="space-y-3">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="w-full flex items-center justify-between text-sm font-semibold text-white"
+            >
+                詳細設定
+                <ChevronDown size={16} className={cn("transition-transform", isOpen && "rotate-180")} />
+            </button>
+
+            {isOpen && (
+                <div className="space-y-4 animate-in fade-in duration-200">
+                    <div className="space-y-2" title={unsupported(capabilities.seed)}>
+                        <label className="text-xs text-gray-300">シード</label>
+                        <div className="flex gap-2">
+                            <input
+                                type="number"
+                                value={settings.seed ?? ''}
+                                onChange={(e) => update({ seed: parseOptional(e.target.value, v => parseInt(v)) })}
+                                placeholder="ページごとにランダム"
+                                disabled={!capabilities.seed}
+                                className={inputClass}
+                            />
+                            <button
+                                onClick={() => update({ seed: randomSeed() })}
+                                disabled={!capabilities.seed}
+                                className="px-3 rounded-xl border border-white/20 bg-white/5 text-white hover:bg-white/10 disabled:opacity-40"
+                                title="ランダムなシード"
+                            >
+                                <Dices size={16} />
+                            </button>
+                            <button
+                                onClick={() => update({ seedLocked: !settings.seedLocked, seed: settings.seed ?? randomSeed() })}
+                                disabled={!capabilities.seed}
+                                className={cn(
+                                    "px-3 rounded-xl border transition-colors disabled:opacity-40",
+                                    settings.seedLocked
+                                        ? "border-indigo-500 bg-indigo-500/20 text-indigo-200"
+                                        : "border-white/20 bg-white/5 text-white hover:bg-white/10"
+                                )}
+                                title={settings.seedLocked ? '固定中: 全ページで同じシードを使用' : 'シードを固定'}
+                            >
+                                {settings.seedLocked ? <Lock size={16} /> : <Unlock size={16} />}
+                            </button>
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2" title={unsupported(capabilities.steps)}>
+                            <label className="text-xs text-gray-300">ステップ数</label>
+                            <input
+                                type="number"
+                                min={1}
+                                max={100}
+                                value={settings.steps ?? ''}
+                                onChange={(e) => update({ steps: parseOptional(e.target.value, v => parseInt(v)) })}
+                                placeholder="既定"
+                                disabled={!capabilities.steps}
+                                className={inputClass}
+                            />
+                        </div>
+                        <div className="space-y-2" title={unsupported(capabilities.guidance)}>
+                            <label className="text-xs text-gray-300">ガイダンス</label>
+                            <input
+                                type="number"
+                                min={0}
+                                max={20}
+                                step={0.5}
+                                value={settings.guidanceScale ?? ''}
+                                onChange={(e) => update({ guidanceScale: parseOptional(e.target.value, parseFloat) })}
+                                placeholder="既定"
+                                disabled={!capabilities.guidance}
+                                className={inputClass}
+                            />
+                        </div>
+                    </div>
+
+                    <div className="space-y-2" title={unsupported(capabilities.negativePrompt)}>
+                        <label className="text-xs text-gray-300">ネガティブプロンプト</label>
+                        <textarea
+                            value={settings.negativePrompt}
+                            onChange={(e) => update({ negativePrompt: e.target.value })}
+                            placeholder="例: blurry, extra fingers, text artifacts"
+                            disabled={!capabilities.negativePrompt}
+                            className={cn(inputClass, "min-h-[60px] resize-y")}
+                        />
+                    </div>
+
+                    <div className="space-y-2">
+                        <label className="text-xs text-gray-300 flex justify-between">
+                            構成作成の温度
+                            <span className="text-indigo-400 font-bold">{settings.planningTemperature ?? '既定'}</span>
+                        </label>
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="range"
+                                min="0"
+                                max="2"
+                                step="0.1"
+                                value={settings.planningTemperature ?? 1}
+                                onChange={(e) => update({ planningTemperature: parseFloat(e.target.value) })}
+                                className="flex-1 accent-indigo-500 h-2 bg-white/10 rounded-lg appearance-none cursor-pointer"
+                            />
+                            <button
+                                onClick={() => update({ planningTemperature: null })}
+                                className="text-[10px] text-gray-400 hover:text-white"
+                            >
+                                リセット
+                            </button>
+                        </div>
+                    </div>
+
+                    <div className="space-y-2" title={unsupported(capabilities.safety)}>
+                        <label className="text-xs text-gray-300">セーフティ</label>
+                        <select
+                            value={settings.safety}
+                            onChange={(e) => update({ safety: e.target.value as SafetyLevel })}
+                            disabled={!capabilities.safety}
+                            className={inputClass}
+                        >
+                            {SAFETY_LEVELS.map(level => (
+                                <option key={level.value} value={level.value} className="bg-gray-800">{level.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
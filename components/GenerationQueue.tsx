@@ -0,0 +1,79 @@
+'use client';
+
+import { Loader2, CheckCircle, AlertCircle, Clock, Square, Play } from 'lucide-react';
+import { QueueJob, JobStatus } from '@/lib/queue';
+import { cn } from '@/lib/utils';
+
+interface GenerationQueueProps {
+    jobs: QueueJob[];
+    isRunning: boolean;
+    onCancel: () => void;
+    onResume: () => void;
+}
+
+const STATUS_LABELS: Record<JobStatus, string> = {
+    queued: '待機中',
+    running: '生成中',
+    done: '完了',
+    failed: '失敗',
+};
+
+// Per-page progress of a render run, with cancel and resume
+export function GenerationQueue({ jobs, isRunning, onCancel, onResume }: GenerationQueueProps) {
+    const doneCount = jobs.filter(job => job.status === 'done').length;
+    const canResume = !isRunning && doneCount < jobs.length;
+
+    return (
+        <div className="glass-card rounded-2xl p-4 border border-white/10 space-y-3">
+            <div className="flex items-center justify-between">
+                <h3 className="text-sm font-bold text-white">
+                    生成キュー <span className="text-gray-400 font-normal">({doneCount}/{jobs.length})</span>
+                </h3>
+                {isRunning ? (
+                    <button
+                        onClick={onCancel}
+                        className="text-xs flex items-center gap-1 bg-red-900/30 hover:bg-red-900/50 text-red-200 border border-red-500/30 px-3 py-1.5 rounded-lg transition-colors"
+                    >
+                        <Square size={12} /> 中止
+                    </button>
+                ) : canResume && (
+                    <button
+                        onClick={onResume}
+                        className="text-xs flex items-center gap-1 bg-indigo-600 hover:bg-indigo-500 text-white px-3 py-1.5 rounded-lg transition-colors"
+                    >
+                        <Play size={12} /> 残りを再開
+                    </button>
+                )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+                {jobs.map(job => (
+                    <div
+                        key={job.id}
+                        title={job.error || job.prompt}
+                        className={cn(
+                            "flex items-center gap-2 rounded-lg px-2 py-1.5 text-xs border",
+                            job.status === 'done' && "border-green-500/30 bg-green-500/10 text-green-200",
+                            job.status === 'running' && "border-indigo-500/30 bg-indigo-500/10 text-indigo-200",
+                            job.status === 'queued' && "border-white/10 bg-white/5 text-gray-300",
+                            job.status === 'failed' && "border-red-500/30 bg-red-900/20 text-red-200"
+                        )}
+                    >
+                        {job.status === 'done' && <CheckCircle size={12} />}
+                        {job.status === 'running' && <Loader2 size={12} className="animate-spin" />}
+                        {job.status === 'queued' && <Clock size={12} />}
+                        {job.status === 'failed' && <AlertCircle size={12} />}
+                        <span className="font-bold">Page {job.order + 1}</span>
+                        {job.status === 'running' && job.progress && (
+                            <span className="truncate text-[10px] opacity-70">{job.progress}</span>
+                        )}
+                        <span className="ml-auto whitespace-nowrap">
+                            {job.status === 'queued' && job.error ? '再試行待ち' : STATUS_LABELS[job.status]}
+                            {job.attempts > 1 && ` (${job.attempts}回目)`}
+                        </span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
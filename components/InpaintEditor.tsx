@@ -0,0 +1,173 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Brush, Eraser, Loader2, RotateCcw, Wand2, X } from 'lucide-react';
+import { hasMask } from '@/lib/inpaint';
+import { cn } from '@/lib/utils';
+
+interface InpaintEditorProps {
+    imageUrl: string;
+    isEditing: boolean;
+    progress?: string;
+    error?: string; // from the last edit request
+    onSubmit: (mask: HTMLCanvasElement, instruction: string) => void;
+    onCancel: () => void;
+}
+
+// Mask painting over a page for region edits. The mask canvas has the page's pixel size;
+// pointer positions are scaled from the displayed size.
+export function InpaintEditor({ imageUrl, isEditing, progress, error: requestError, onSubmit, onCancel }: InpaintEditorProps) {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const lastPoint = useRef<{ x: number; y: number } | null>(null);
+    const [brushSize, setBrushSize] = useState(60);
+    const [isErasing, setIsErasing] = useState(false);
+    const [instruction, setInstruction] = useState('');
+    const [error, setError] = useState('');
+
+    const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        canvas.width = e.currentTarget.naturalWidth;
+        canvas.height = e.currentTarget.naturalHeight;
+    };
+
+    const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const canvas = e.currentTarget;
+        const rect = canvas.getBoundingClientRect();
+        return {
+            x: (e.clientX - rect.left) * canvas.width / rect.width,
+            y: (e.clientY - rect.top) * canvas.height / rect.height,
+        };
+    };
+
+    const paint = (point: { x: number; y: number }) => {
+        const ctx = canvasRef.current?.getContext('2d');
+        if (!ctx) return;
+        ctx.globalCompositeOperation = isErasing ? 'destination-out' : 'source-over';
+        ctx.strokeStyle = '#ef4444';
+        ctx.lineWidth = brushSize;
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        const from = lastPoint.current || point;
+        ctx.beginPath();
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(point.x, point.y);
+        ctx.stroke();
+        lastPoint.current = point;
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (isEditing) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        lastPoint.current = null;
+        paint(toCanvasPoint(e));
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!lastPoint.current) return;
+        paint(toCanvasPoint(e));
+    };
+
+    const handlePointerUp = () => {
+        lastPoint.current = null;
+    };
+
+    const clearMask = () => {
+        const canvas = canvasRef.current;
+        canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    };
+
+    const handleSubmit = () => {
+        const canvas = canvasRef.current;
+        if (!canvas || !hasMask(canvas)) {
+            setError('修正する範囲を塗ってください');
+            return;
+        }
+        if (!instruction.trim()) {
+            setError('修正内容を入力してください');
+            return;
+        }
+        setError('');
+        onSubmit(canvas, instruction.trim());
+    };
+
+    return (
+        <div className="flex flex-col gap-3">
+            <div className="relative mx-auto">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img src={imageUrl} alt="Page" onLoad={handleImageLoad} className="max-w-full max-h-[70vh] object-contain block select-none" draggable={false} />
+                <canvas
+                    ref={canvasRef}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                    className={cn("absolute inset-0 w-full h-full opacity-50 touch-none", isEditing ? "cursor-wait" : "cursor-crosshair")}
+                />
+                {isEditing && (
+                    <div className="absolute inset-0 flex items-center justify-center bg-black/40 text-white text-sm gap-2">
+                        <Loader2 size={18} className="animate-spin" /> {progress || '修正中...'}
+                    </div>
+                )}
+            </div>
+
+            <div className="flex items-center gap-3 px-4 text-xs text-gray-300">
+                <button
+                    onClick={() => setIsErasing(false)}
+                    className={cn("p-2 rounded-lg border", !isErasing ? "border-indigo-500 bg-indigo-500/20 text-white" : "border-white/10 hover:bg-white/10")}
+                    title="ブラシ"
+                >
+                    <Brush size={14} />
+                </button>
+                <button
+                    onClick={() => setIsErasing(true)}
+                    className={cn("p-2 rounded-lg border", isErasing ? "border-indigo-500 bg-indigo-500/20 text-white" : "border-white/10 hover:bg-white/10")}
+                    title="消しゴム"
+                >
+                    <Eraser size={14} />
+                </button>
+                <label className="flex items-center gap-2 flex-1">
+                    太さ
+                    <input
+                        type="range"
+                        min="10"
+                        max="300"
+                        value={brushSize}
+                        onChange={(e) => setBrushSize(parseInt(e.target.value))}
+                        className="flex-1 accent-indigo-500"
+                    />
+                </label>
+                <button onClick={clearMask} className="flex items-center gap-1 hover:text-white" title="マスクを消去">
+                    <RotateCcw size={14} /> クリア
+                </button>
+            </div>
+
+            <div className="flex gap-2 px-4 pb-4">
+                <input
+                    type="text"
+                    value={instruction}
+                    onChange={(e) => setInstruction(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleSubmit(); }}
+                    placeholder="例: 笑顔にする / 右手に剣を持たせる"
+                    disabled={isEditing}
+                    className="flex-1 rounded-lg border border-white/20 bg-white/5 px-3 py-2 text-sm text-white placeholder:text-gray-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500/50"
+                />
+                <button
+                    onClick={handleSubmit}
+                    disabled={isEditing}
+                    className="text-sm font-bold flex items-center gap-2 bg-gradient-to-r from-indigo-600 to-purple-600 text-white px-4 py-2 rounded-lg disabled:opacity-50"
+                >
+                    <Wand2 size={16} /> 修正する
+                </button>
+                <button
+                    onClick={onCancel}
+                    disabled={isEditing}
+                    className="text-sm flex items-center gap-1 bg-white/10 hover:bg-white/20 text-white px-3 py-2 rounded-lg disabled:opacity-50"
+                >
+                    <X size={16} />
+                </button>
+            </div>
+            {(error || requestError) && <p className="px-4 pb-4 -mt-2 text-xs text-red-300">{error || requestError}</p>}
+        </div>
+    );
+}
@@ -0,0 +1,154 @@
+'use client';
+
+import { Plus, Minus, Trash2 } from 'lucide-react';
+import { LayoutSettings, PanelLayout, GridRow, LAYOUT_TEMPLATES, gridLayout, pageSize, placePanels } from '@/lib/layout';
+import { cn } from '@/lib/utils';
+
+interface LayoutEditorProps {
+    enabled: boolean;
+    settings: LayoutSettings;
+    aspectRatio: string;
+    onToggle: (enabled: boolean) => void;
+    onChange: (settings: LayoutSettings) => void;
+}
+
+const inputClass = "w-full rounded-lg border border-white/20 bg-white/5 px-2 py-1 text-xs text-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500/50";
+
+// Page thumbnail with the panels placed exactly as they will be composited
+function LayoutPreview({ layout, settings, aspectRatio, className }: { layout: PanelLayout; settings: LayoutSettings; aspectRatio: string; className?: string }) {
+    const size = pageSize(aspectRatio, settings);
+    const placed = placePanels(layout, settings, size);
+    return (
+        <svg viewBox={`0 0 ${size.width} ${size.height}`} className={cn("bg-white rounded", className)}>
+            {placed.map((panel, i) => (
+                <polygon
+                    key={i}
+                    points={panel.polygon.map(p => p.join(',')).join(' ')}
+                    fill="#e5e7eb"
+                    stroke="#000"
+                    strokeWidth={Math.max(settings.border, 8)}
+                />
+            ))}
+        </svg>
+    );
+}
+
+// Panel layout template picker and custom grid editor for storyboard pages
+export function LayoutEditor({ enabled, settings, aspectRatio, onToggle, onChange }: LayoutEditorProps) {
+    const update = (patch: Partial<LayoutSettings>) => onChange({ ...settings, ...patch });
+    const updateRow = (index: number, row: GridRow) => update({ grid: settings.grid.map((r, i) => i === index ? row : r) });
+
+    const templates = [...LAYOUT_TEMPLATES, gridLayout(settings.grid)];
+    const current = templates.find(t => t.id === settings.templateId) || templates[0];
+
+    const numberField = (label: string, key: 'gutter' | 'margin' | 'border' | 'bleed', max: number) => (
+        <div className="space-y-1">
+            <label className="text-[10px] text-gray-400">{label}</label>
+            <input
+                type="number"
+                min={0}
+                max={max}
+                value={settings[key]}
+                onChange={(e) => update({ [key]: Math.min(max, Math.max(0, parseInt(e.target.value) || 0)) })}
+                className={inputClass}
+            />
+        </div>
+    );
+
+    return (
+        <div className="space-y-3">
+            <label className="flex items-center gap-2 text-sm font-semibold text-white cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={enabled}
+                    onChange={(e) => onToggle(e.target.checked)}
+                    className="accent-indigo-500"
+                />
+                コマ割りを指定してコマごとに生成
+            </label>
+
+            {enabled && (
+                <div className="space-y-4 animate-in fade-in duration-200">
+                    <div className="grid grid-cols-5 gap-2">
+                        {templates.map(template => (
+                            <button
+                                key={template.id}
+                                onClick={() => update({ templateId: template.id })}
+                                className={cn(
+                                    "flex flex-col items-center gap-1 p-1 rounded-lg border-2 transition-all",
+                                    settings.templateId === template.id ? "border-indigo-500" : "border-white/5 hover:border-white/20"
+                                )}
+                                title={`${template.name} (${template.panels.length}コマ)`}
+                            >
+                                <LayoutPreview layout={template} settings={settings} aspectRatio={aspectRatio} className="w-full" />
+                                <span className="text-[10px] text-gray-300 truncate w-full">{template.name}</span>
+                            </button>
+                        ))}
+                    </div>
+
+                    {settings.templateId === 'custom' && (
+                        <div className="space-y-2">
+                            {settings.grid.map((row, rowIdx) => (
+                                <div key={rowIdx} className="flex items-center gap-2 text-xs text-gray-300">
+                                    <span className="w-10">{rowIdx + 1}段目</span>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        max={5}
+                                        value={row.height}
+                                        onChange={(e) => updateRow(rowIdx, { ...row, height: Math.max(1, parseInt(e.target.value) || 1) })}
+                                        className={cn(inputClass, "w-14")}
+                                        title="段の高さ (比率)"
+                                    />
+                                    <button
+                                        onClick={() => updateRow(rowIdx, { ...row, columns: row.columns.slice(0, -1) })}
+                                        disabled={row.columns.length <= 1}
+                                        className="p-1 rounded bg-white/5 hover:bg-white/10 disabled:opacity-40"
+                                        title="コマを減らす"
+                                    >
+                                        <Minus size={12} />
+                                    </button>
+                                    <span className="w-8 text-center">{row.columns.length}コマ</span>
+                                    <button
+                                        onClick={() => updateRow(rowIdx, { ...row, columns: [...row.columns, 1] })}
+                                        disabled={row.columns.length >= 4}
+                                        className="p-1 rounded bg-white/5 hover:bg-white/10 disabled:opacity-40"
+                                        title="コマを増やす"
+                                    >
+                                        <Plus size={12} />
+                                    </button>
+                                    <button
+                                        onClick={() => update({ grid: settings.grid.filter((_, i) => i !== rowIdx) })}
+                                        disabled={settings.grid.length <= 1}
+                                        className="ml-auto p-1 rounded text-gray-400 hover:text-red-300 disabled:opacity-40"
+                                        title="段を削除"
+                                    >
+                                        <Trash2 size={12} />
+                                    </button>
+                                </div>
+                            ))}
+                            <button
+                                onClick={() => update({ grid: [...settings.grid, { height: 1, columns: [1] }] })}
+                                disabled={settings.grid.length >= 6}
+                                className="text-xs flex items-center gap-1 text-indigo-300 hover:text-indigo-200 disabled:opacity-40"
+                            >
+                                <Plus size={12} /> 段を追加
+                            </button>
+                        </div>
+                    )}
+
+                    <div className="grid grid-cols-4 gap-2">
+                        {numberField('コマ間 (px)', 'gutter', 200)}
+                        {numberField('余白 (px)', 'margin', 300)}
+                        {numberField('枠線 (px)', 'border', 40)}
+                        {numberField('裁ち落とし (px)', 'bleed', 200)}
+                    </div>
+
+                    <p className="text-xs text-gray-400">
+                        絵コンテは{current.panels.length}コマ/ページで作成されます。コマ数が合わないページは自動のコマ割りで合成します。
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,220 @@
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Save, Plus, Trash2, Loader2, MessageSquare } from 'lucide-react';
+import { Bubble, BubbleKind, BUBBLE_KINDS, FONT_OPTIONS, createBubble } from '@/lib/lettering';
+import { LetteringLayer } from '@/components/LetteringLayer';
+import { cn } from '@/lib/utils';
+
+interface LetteringEditorProps {
+    imageUrl: string;
+    initialBubbles: Bubble[];
+    dialogue: string[];
+    onSave: (bubbles: Bubble[]) => Promise<void>;
+    onClose: () => void;
+}
+
+// Full-screen editor for placing, resizing and styling speech bubbles over a page
+export function LetteringEditor({ imageUrl, initialBubbles, dialogue, onSave, onClose }: LetteringEditorProps) {
+    const [bubbles, setBubbles] = useState<Bubble[]>(initialBubbles);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const selected = bubbles.find(b => b.id === selectedId) || null;
+
+    const updateBubble = (bubble: Bubble) => {
+        setBubbles(prev => prev.map(b => b.id === bubble.id ? bubble : b));
+    };
+
+    const addBubble = (patch: Partial<Bubble> = {}) => {
+        // Stagger new bubbles so they don't stack exactly on top of each other
+        const offset = (bubbles.length % 5) * 0.06;
+        const bubble = createBubble({ x: 0.35 + offset, y: 0.08 + offset, ...patch });
+        setBubbles(prev => [...prev, bubble]);
+        setSelectedId(bubble.id);
+    };
+
+    const removeBubble = (id: string) => {
+        setBubbles(prev => prev.filter(b => b.id !== id));
+        setSelectedId(null);
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            await onSave(bubbles);
+            onClose();
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const inputClass = "w-full rounded-lg border border-white/10 bg-black/50 px-3 py-2 text-sm text-white focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500";
+
+    return (
+        <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-[100] flex bg-black/90 backdrop-blur-sm"
+        >
+            {/* Canvas */}
+            <div className="flex-1 flex items-center justify-center p-8 overflow-auto">
+                <div className="relative inline-block max-h-full">
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img src={imageUrl} alt="Page" className="max-h-[90vh] w-auto object-contain select-none" draggable={false} />
+                    <LetteringLayer
+                        bubbles={bubbles}
+                        selectedId={selectedId}
+                        onSelect={setSelectedId}
+                        onChange={updateBubble}
+                    />
+                </div>
+            </div>
+
+            {/* Controls */}
+            <div className="w-80 border-l border-white/10 bg-black/60 p-5 flex flex-col gap-5 overflow-y-auto custom-scrollbar">
+                <div className="flex items-center justify-between">
+                    <h2 className="text-lg font-bold text-white">写植</h2>
+                    <button onClick={onClose} className="p-2 rounded-full text-white hover:bg-white/10" title="閉じる">
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                    {BUBBLE_KINDS.map(kind => (
+                        <button
+                            key={kind.value}
+                            onClick={() => addBubble({
+                                kind: kind.value,
+                                vertical: kind.value !== 'narration',
+                                ...(kind.value === 'narration' ? { width: 0.3, height: 0.08 } : {})
+                            })}
+                            className="flex items-center justify-center gap-1 rounded-lg bg-white/10 hover:bg-white/20 text-white text-xs py-2 transition-colors"
+                        >
+                            <Plus size={12} /> {kind.label}
+                        </button>
+                    ))}
+                </div>
+
+                {dialogue.length > 0 && (
+                    <div className="space-y-2">
+                        <p className="text-xs font-semibold text-gray-300 flex items-center gap-1">
+                            <MessageSquare size={12} /> 絵コンテのセリフ
+                        </p>
+                        <div className="space-y-1">
+                            {dialogue.map((line, idx) => (
+                                <button
+                                    key={idx}
+                                    onClick={() => addBubble({ text: line })}
+                                    className="w-full text-left text-xs text-gray-200 bg-white/5 hover:bg-white/10 rounded-md px-2 py-1.5 truncate"
+                                    title="吹き出しとして追加"
+                                >
+                                    {line}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {selected ? (
+                    <div className="space-y-4 pt-4 border-t border-white/10">
+                        <div className="space-y-1">
+                            <label className="text-xs text-gray-400">テキスト</label>
+                            <textarea
+                                value={selected.text}
+                                onChange={(e) => updateBubble({ ...selected, text: e.target.value })}
+                                rows={4}
+                                className={cn(inputClass, "resize-y")}
+                            />
+                            <p className="text-[10px] text-gray-500">ルビ: ｜漢字《かんじ》</p>
+                        </div>
+
+                        <div className="space-y-1">
+                            <label className="text-xs text-gray-400">種類</label>
+                            <select
+                                value={selected.kind}
+                                onChange={(e) => updateBubble({ ...selected, kind: e.target.value as BubbleKind })}
+                                className={inputClass}
+                            >
+                                {BUBBLE_KINDS.map(kind => (
+                                    <option key={kind.value} value={kind.value} className="bg-gray-800">{kind.label}</option>
+                                ))}
+                            </select>
+                        </div>
+
+                        <div className="space-y-1">
+                            <label className="text-xs text-gray-400">フォント</label>
+                            <select
+                                value={selected.fontFamily}
+                                onChange={(e) => updateBubble({ ...selected, fontFamily: e.target.value })}
+                                className={inputClass}
+                            >
+                                {FONT_OPTIONS.map(font => (
+                                    <option key={font.label} value={font.value} className="bg-gray-800">{font.label}</option>
+                                ))}
+                            </select>
+                        </div>
+
+                        <div className="space-y-1">
+                            <label className="text-xs text-gray-400 flex justify-between">
+                                文字サイズ <span>{Math.round(selected.fontSize * 1000) / 10}%</span>
+                            </label>
+                            <input
+                                type="range"
+                                min="0.01"
+                                max="0.08"
+                                step="0.002"
+                                value={selected.fontSize}
+                                onChange={(e) => updateBubble({ ...selected, fontSize: parseFloat(e.target.value) })}
+                                className="w-full accent-indigo-500"
+                            />
+                        </div>
+
+                        <div className="flex bg-white/5 rounded-lg p-0.5">
+                            <button
+                                onClick={() => updateBubble({ ...selected, vertical: true })}
+                                className={cn(
+                                    "flex-1 py-1.5 rounded-md text-xs font-medium transition-all",
+                                    selected.vertical ? "bg-indigo-500 text-white shadow" : "text-gray-400 hover:text-white"
+                                )}
+                            >
+                                縦書き
+                            </button>
+                            <button
+                                onClick={() => updateBubble({ ...selected, vertical: false })}
+                                className={cn(
+                                    "flex-1 py-1.5 rounded-md text-xs font-medium transition-all",
+                                    !selected.vertical ? "bg-indigo-500 text-white shadow" : "text-gray-400 hover:text-white"
+                                )}
+                            >
+                                横書き
+                            </button>
+                        </div>
+
+                        <button
+                            onClick={() => removeBubble(selected.id)}
+                            className="w-full flex items-center justify-center gap-2 rounded-lg text-xs py-2 text-red-300 bg-red-900/20 hover:bg-red-900/40 border border-red-500/30"
+                        >
+                            <Trash2 size={14} /> 吹き出しを削除
+                        </button>
+                    </div>
+                ) : (
+                    <p className="text-xs text-gray-500 pt-4 border-t border-white/10">
+                        吹き出しを選択すると編集できます。ドラッグで移動、右下のハンドルでサイズ変更。
+                    </p>
+                )}
+
+                <button
+                    onClick={handleSave}
+                    disabled={isSaving}
+                    className="mt-auto inline-flex items-center justify-center rounded-md text-sm font-medium bg-primary text-primary-foreground hover:bg-primary/90 h-10 px-6 disabled:opacity-50"
+                >
+                    {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                    保存
+                </button>
+            </div>
+        </motion.div>
+    );
+}
@@ -0,0 +1,130 @@
+'use client';
+
+import { useRef } from 'react';
+import { Bubble, bubblePath, textInsets, parseRuby } from '@/lib/lettering';
+import { cn } from '@/lib/utils';
+
+interface LetteringLayerProps {
+    bubbles: Bubble[];
+    selectedId?: string | null;
+    onSelect?: (id: string | null) => void;
+    onChange?: (bubble: Bubble) => void;
+}
+
+// SVG viewBox size used for the outline; the shape is stretched to the bubble box
+const VIEW = 100;
+
+// DOM rendering of the lettering over a page image. Interactive when onChange is given.
+export function LetteringLayer({ bubbles, selectedId, onSelect, onChange }: LetteringLayerProps) {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const interactive = !!onChange;
+
+    // Drag to move, or drag the corner handle to resize, in page fractions
+    const startDrag = (e: React.PointerEvent, bubble: Bubble, mode: 'move' | 'resize') => {
+        if (!onChange || !containerRef.current) return;
+        e.preventDefault();
+        e.stopPropagation();
+        onSelect?.(bubble.id);
+
+        const rect = containerRef.current.getBoundingClientRect();
+        const startX = e.clientX;
+        const startY = e.clientY;
+
+        const handleMove = (ev: PointerEvent) => {
+            const dx = (ev.clientX - startX) / rect.width;
+            const dy = (ev.clientY - startY) / rect.height;
+            if (mode === 'move') {
+                onChange({
+                    ...bubble,
+                    x: Math.min(Math.max(bubble.x + dx, 0), 1 - bubble.width),
+                    y: Math.min(Math.max(bubble.y + dy, 0), 1 - bubble.height),
+                });
+            } else {
+                onChange({
+                    ...bubble,
+                    width: Math.min(Math.max(bubble.width + dx, 0.04), 1 - bubble.x),
+                    height: Math.min(Math.max(bubble.height + dy, 0.04), 1 - bubble.y),
+                });
+            }
+        };
+        const handleUp = () => {
+            window.removeEventListener('pointermove', handleMove);
+            window.removeEventListener('pointerup', handleUp);
+        };
+        window.addEventListener('pointermove', handleMove);
+        window.addEventListener('pointerup', handleUp);
+    };
+
+    return (
+        <div
+            ref={containerRef}
+            className={cn("absolute inset-0", !interactive && "pointer-events-none")}
+            style={{ containerType: 'inline-size' }}
+            onPointerDown={() => onSelect?.(null)}
+        >
+            {bubbles.map(bubble => {
+                const inset = textInsets(bubble.kind, VIEW, VIEW);
+                return (
+                    <div
+                        key={bubble.id}
+                        onPointerDown={(e) => startDrag(e, bubble, 'move')}
+                        className={cn(
+                            "absolute",
+                            interactive && "cursor-move",
+                            selectedId === bubble.id && "outline outline-2 outline-dashed outline-indigo-400"
+                        )}
+                        style={{
+                            left: `${bubble.x * 100}%`,
+                            top: `${bubble.y * 100}%`,
+                            width: `${bubble.width * 100}%`,
+                            height: `${bubble.height * 100}%`,
+                        }}
+                    >
+                        <svg viewBox={`0 0 ${VIEW} ${VIEW}`} preserveAspectRatio="none" className="absolute inset-0 w-full h-full overflow-visible">
+                            <path
+                                d={bubblePath(bubble.kind, VIEW, VIEW)}
+                                fill="#ffffff"
+                                stroke="#000000"
+                                strokeWidth={2}
+                                vectorEffect="non-scaling-stroke"
+                                strokeLinejoin="round"
+                            />
+                        </svg>
+                        <div
+                            className="absolute flex items-center justify-center text-black text-center leading-[1.05] whitespace-pre overflow-hidden select-none"
+                            style={{
+                                left: `${inset.x}%`,
+                                top: `${inset.y}%`,
+                                width: `${inset.width}%`,
+                                height: `${inset.height}%`,
+                                writingMode: bubble.vertical ? 'vertical-rl' : 'horizontal-tb',
+                                fontFamily: bubble.fontFamily,
+                                // cqw is relative to the page width, matching fontSize's unit
+                                fontSize: `${bubble.fontSize * 100}cqw`,
+                                lineHeight: 1.6,
+                            }}
+                        >
+                            <div>
+                                {bubble.text.split('\n').map((line, lineIdx) => (
+                                    <div key={lineIdx}>
+                                        {parseRuby(line).map((segment, segIdx) => segment.ruby ? (
+                                            <ruby key={segIdx}>{segment.text}<rt className="text-[0.5em]">{segment.ruby}</rt></ruby>
+                                        ) : (
+                                            <span key={segIdx}>{segment.text}</span>
+                                        ))}
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                        {interactive && selectedId === bubble.id && (
+                            <div
+                                onPointerDown={(e) => startDrag(e, bubble, 'resize')}
+                                className="absolute -right-1.5 -bottom-1.5 w-3 h-3 bg-indigo-500 border border-white rounded-sm cursor-se-resize"
+                            />
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
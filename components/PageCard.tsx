@@ -0,0 +1,195 @@
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Download, Maximize2, RefreshCcw, Loader2, X, MessageSquare, Dices } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { Bubble } from '@/lib/lettering';
+import type { GenerationParams } from '@/lib/generation';
+import { LetteringLayer } from '@/components/LetteringLayer';
+
+export interface WorkspacePage {
+    id: string;
+    order: number;
+    url: string;
+    prompt: string;
+    versionId?: string;
+    versions: { id: string; url: string }[];
+    dialogue: string[];
+    characters?: string[]; // attached as references; [] when the run had characters but the prompt named none
+    params?: GenerationParams;
+    lettering: Bubble[];
+}
+
+interface PageCardProps {
+    page: WorkspacePage;
+    index: number;
+    isRegenerating: boolean;
+    disabled?: boolean;
+    onDownload: () => void;
+    onPreview: () => void;
+    onRegenerate: (prompt: string, variations: number) => void;
+    onSelectVersion: (versionId: string) => void;
+    onEditLettering: () => void;
+    onReuseSeed: (seed: number) => void;
+}
+
+// One generated page with regenerate / variations controls and its version strip
+export function PageCard({ page, index, isRegenerating, disabled, onDownload, onPreview, onRegenerate, onSelectVersion, onEditLettering, onReuseSeed }: PageCardProps) {
+    const [isEditing, setIsEditing] = useState(false);
+    const [editPrompt, setEditPrompt] = useState(page.prompt);
+    const [variations, setVariations] = useState(1);
+
+    const openEditor = () => {
+        setEditPrompt(page.prompt);
+        setIsEditing(true);
+    };
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: 30 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5, delay: index * 0.1 }}
+            className="glass-card rounded-2xl p-4 border border-white/10"
+        >
+            <div className="flex items-center justify-between mb-4 px-2">
+                <h3 className="text-lg font-bold text-white flex items-center gap-2">
+                    <span className="bg-indigo-500 w-1 h-5 rounded-full inline-block" />
+                    Page {index + 1}
+                </h3>
+                <div className="flex gap-2">
+                    <button
+                        onClick={onEditLettering}
+                        disabled={disabled || isRegenerating}
+                        className="text-xs flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                        <MessageSquare size={14} /> 写植
+                    </button>
+                    <button
+                        onClick={() => isEditing ? setIsEditing(false) : openEditor()}
+                        disabled={disabled || isRegenerating}
+                        className="text-xs flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                        {isRegenerating ? <Loader2 size={14} className="animate-spin" /> : <RefreshCcw size={14} />} 再生成
+                    </button>
+                    <button
+                        onClick={onDownload}
+                        className="text-xs flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white px-3 py-1.5 rounded-lg transition-colors"
+                    >
+                        <Download size={14} /> 保存
+                    </button>
+                </div>
+            </div>
+
+            {isEditing && (
+                <div className="mb-4 p-3 rounded-xl border border-indigo-500/30 bg-indigo-500/5 space-y-3 animate-in fade-in duration-200">
+                    <textarea
+                        value={editPrompt}
+                        onChange={(e) => setEditPrompt(e.target.value)}
+                        className="flex min-h-[120px] w-full rounded-lg border border-white/20 bg-white/5 px-3 py-2 text-xs text-white shadow-inner focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500/50 resize-y"
+                    />
+                    <div className="flex items-center justify-between gap-3">
+                        <label className="text-xs text-gray-300 flex items-center gap-2">
+                            バリエーション数
+                            <select
+                                value={variations}
+                                onChange={(e) => setVariations(parseInt(e.target.value))}
+                                className="rounded-lg border border-white/20 bg-white/5 px-2 py-1 text-xs text-white"
+                            >
+                                {[1, 2, 3, 4].map(n => (
+                                    <option key={n} value={n} className="bg-gray-800">{n}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => setIsEditing(false)}
+                                className="text-xs flex items-center gap-1 text-gray-400 hover:text-white px-2"
+                            >
+                                <X size={14} /> キャンセル
+                            </button>
+                            <button
+                                onClick={() => {
+                                    onRegenerate(editPrompt, variations);
+                                    setIsEditing(false);
+                                }}
+                                disabled={disabled || isRegenerating || !editPrompt.trim()}
+                                className="text-xs font-bold flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 text-white px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50"
+                            >
+                                <RefreshCcw size={14} /> 生成
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            <div
+                className="relative w-full rounded-xl overflow-hidden border border-white/10 group cursor-pointer"
+                onClick={onPreview}
+            >
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img src={page.url} alt={`Page ${index + 1}`} className="w-full h-auto object-contain" />
+                <LetteringLayer bubbles={page.lettering} />
+                <div className="absolute inset-0 bg-black/0 group-hover:bg-black/20 transition-colors flex items-center justify-center opacity-0 group-hover:opacity-100">
+                    <span className="text-white text-sm bg-black/50 px-4 py-2 rounded-full backdrop-blur-md flex items-center gap-2 border border-white/20">
+                        <Maximize2 size={16} /> 拡大表示
+                    </span>
+                </div>
+            </div>
+
+            {page.characters && (
+                <p className={cn("mt-3 px-1 text-[11px] truncate", page.characters.length > 0 ? "text-gray-400" : "text-amber-300")}>
+                    {page.characters.length > 0
+                        ? `キャラクター: ${page.characters.join(', ')}`
+                        : 'プロンプトに名前がないため、キャラクター参照は添付していません'}
+                </p>
+            )}
+
+            {page.params?.seed !== undefined && (
+                <div className="mt-3 flex items-center justify-between gap-2 px-1 text-[11px] text-gray-400">
+                    <span className="truncate" title={paramsSummary(page.params)}>{paramsSummary(page.params)}</span>
+                    <button
+                        onClick={() => onReuseSeed(page.params!.seed!)}
+                        className="flex items-center gap-1 whitespace-nowrap text-indigo-300 hover:text-indigo-200"
+                        title="このシードを固定して次の生成に使う"
+                    >
+                        <Dices size={12} /> シードを再利用
+                    </button>
+                </div>
+            )}
+
+            {page.versions.length > 1 && (
+                <div className="mt-3 flex gap-2 overflow-x-auto custom-scrollbar pb-1">
+                    {page.versions.map((version, vIdx) => (
+                        <button
+                            key={version.id}
+                            onClick={() => onSelectVersion(version.id)}
+                            disabled={disabled || isRegenerating}
+                            className={cn(
+                                "relative w-16 min-w-[4rem] rounded-lg overflow-hidden border-2 transition-all",
+                                version.id === page.versionId
+                                    ? "border-indigo-500 shadow-[0_0_10px_rgba(99,102,241,0.5)]"
+                                    : "border-white/10 opacity-60 hover:opacity-100"
+                            )}
+                            title={version.id === page.versionId ? '採用中のバージョン' : 'このバージョンを採用'}
+                        >
+                            {/* eslint-disable-next-line @next/next/no-img-element */}
+                            <img src={version.url} alt={`v${vIdx + 1}`} className="w-full h-auto object-cover" />
+                            <span className="absolute bottom-0 inset-x-0 text-[10px] text-white bg-black/60">v{vIdx + 1}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+        </motion.div>
+    );
+}
+
+function paramsSummary(params: GenerationParams): string {
+    return [
+        params.seed !== undefined && `Seed ${params.seed}`,
+        params.steps !== undefined && `Steps ${params.steps}`,
+        params.guidanceScale !== undefined && `CFG ${params.guidanceScale}`,
+        params.safety && `Safety ${params.safety}`,
+        params.negativePrompt && `Neg: ${params.negativePrompt}`,
+    ].filter(Boolean).join(' / ');
+}
@@ -0,0 +1,98 @@
+'use client';
+
+import { Plus, Trash2, RefreshCcw, Loader2, Check } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+export interface PlannedPrompt {
+    id: string;
+    text: string;
+    selected: boolean;
+}
+
+interface PromptPlanEditorProps {
+    prompts: PlannedPrompt[];
+    onChange: (prompts: PlannedPrompt[]) => void;
+    onRegenerate: (index: number) => void;
+    regeneratingId: string | null;
+    disabled?: boolean;
+}
+
+// Editable prompt cards for the "plan" step, shown before any image is rendered
+export function PromptPlanEditor({ prompts, onChange, onRegenerate, regeneratingId, disabled }: PromptPlanEditorProps) {
+    const updatePrompt = (id: string, patch: Partial<PlannedPrompt>) => {
+        onChange(prompts.map(p => p.id === id ? { ...p, ...patch } : p));
+    };
+
+    const addPrompt = () => {
+        onChange([...prompts, { id: crypto.randomUUID(), text: '', selected: true }]);
+    };
+
+    const removePrompt = (id: string) => {
+        onChange(prompts.filter(p => p.id !== id));
+    };
+
+    return (
+        <div className="space-y-4">
+            {prompts.map((item, idx) => (
+                <div
+                    key={item.id}
+                    className={cn(
+                        "glass-card rounded-2xl p-4 border transition-all space-y-3",
+                        item.selected ? "border-indigo-500/50" : "border-white/10 opacity-60"
+                    )}
+                >
+                    <div className="flex items-center justify-between px-2">
+                        <button
+                            onClick={() => updatePrompt(item.id, { selected: !item.selected })}
+                            className="flex items-center gap-3"
+                            title={item.selected ? "描画対象から外す" : "描画対象にする"}
+                        >
+                            <span
+                                className={cn(
+                                    "w-5 h-5 rounded-md border flex items-center justify-center transition-colors",
+                                    item.selected ? "bg-indigo-500 border-indigo-500 text-white" : "border-white/30"
+                                )}
+                            >
+                                {item.selected && <Check size={14} />}
+                            </span>
+                            <span className="text-lg font-bold text-white">Page {idx + 1}</span>
+                        </button>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => onRegenerate(idx)}
+                                disabled={disabled || regeneratingId !== null}
+                                className="text-xs flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50"
+                                title="このプロンプトだけ作り直す"
+                            >
+                                {regeneratingId === item.id ? <Loader2 size={14} className="animate-spin" /> : <RefreshCcw size={14} />}
+                                再作成
+                            </button>
+                            <button
+                                onClick={() => removePrompt(item.id)}
+                                disabled={disabled}
+                                className="p-1.5 rounded-lg text-muted-foreground hover:bg-destructive hover:text-destructive-foreground transition-colors disabled:opacity-50"
+                                title="ページを削除"
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                    </div>
+                    <textarea
+                        value={item.text}
+                        onChange={(e) => updatePrompt(item.id, { text: e.target.value })}
+                        disabled={disabled || regeneratingId === item.id}
+                        placeholder="このページの画像生成プロンプト..."
+                        className="flex min-h-[160px] w-full rounded-xl border border-white/20 bg-white/5 px-4 py-3 text-sm text-white shadow-inner placeholder:text-gray-400 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500/50 resize-y"
+                    />
+                </div>
+            ))}
+            <button
+                onClick={addPrompt}
+                disabled={disabled}
+                className="w-full flex items-center justify-center gap-2 rounded-2xl border-2 border-dashed border-white/20 py-4 text-sm text-muted-foreground hover:bg-white/5 hover:border-white/40 hover:text-white transition-all disabled:opacity-50"
+            >
+                <Plus size={16} /> ページを追加
+            </button>
+        </div>
+    );
+}
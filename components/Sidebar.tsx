@@ -4,13 +4,23 @@ import { useState } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { cn } from '@/lib/utils';
-import { LayoutDashboard, Images, Settings, BookOpen, ChevronLeft, ChevronRight, User, Layers } from 'lucide-react';
+import { LayoutDashboard, Images, Settings, BookOpen, ChevronLeft, ChevronRight, User, Layers, Palette, Wallet, FileText } from 'lucide-react';
 
 const navItems = [
     { name: '制作', href: '/', icon: LayoutDashboard },
 
+    { name: 'プロジェクト', href: '/projects', icon: Layers },
+
+    { name: 'キャラクター', href: '/characters', icon: User },
+
+    { name: 'スタイル', href: '/styles', icon: Palette },
+
+    { name: 'プロンプト', href: '/prompts', icon: FileText },
+
     { name: 'アセット', href: '/assets', icon: Images },
 
+    { name: '使用量', href: '/usage', icon: Wallet },
+
     { name: '設定', href: '/settings', icon: Settings },
 ];
 
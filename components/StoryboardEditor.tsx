@@ -0,0 +1,122 @@
+'use client';
+
+import { Plus, Trash2 } from 'lucide-react';
+import type { MangaPage } from '@/lib/storyboard';
+import type { MangaPanel } from '@/lib/storyboard';
+
+interface StoryboardEditorProps {
+    pages: MangaPage[];
+    onChange: (pages: MangaPage[]) => void;
+}
+
+// Editable panel table for reviewing a storyboard before any image is generated
+export function StoryboardEditor({ pages, onChange }: StoryboardEditorProps) {
+    const updatePanels = (pageIdx: number, panels: MangaPanel[]) => {
+        onChange(pages.map((page, i) => i === pageIdx
+            ? { ...page, panels: panels.map((panel, n) => ({ ...panel, panelNumber: n + 1 })) }
+            : page
+        ));
+    };
+
+    const updatePanel = (pageIdx: number, panelIdx: number, patch: Partial<MangaPanel>) => {
+        updatePanels(pageIdx, pages[pageIdx].panels.map((panel, i) => i === panelIdx ? { ...panel, ...patch } : panel));
+    };
+
+    const addPanel = (pageIdx: number) => {
+        updatePanels(pageIdx, [
+            ...pages[pageIdx].panels,
+            { panelNumber: 0, description: '', dialogue: '', cameraAngle: '', characters: [] }
+        ]);
+    };
+
+    const removePanel = (pageIdx: number, panelIdx: number) => {
+        updatePanels(pageIdx, pages[pageIdx].panels.filter((_, i) => i !== panelIdx));
+    };
+
+    const cellClass = "w-full rounded-md border border-white/10 bg-black/40 px-2 py-1.5 text-xs text-white placeholder:text-gray-600 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500 resize-y";
+
+    return (
+        <div className="space-y-6">
+            {pages.map((page, pageIdx) => (
+                <div key={pageIdx} className="glass-card rounded-2xl p-4 border border-white/10 space-y-3">
+                    <h3 className="text-lg font-bold text-white flex items-center gap-2 px-2">
+                        <span className="bg-indigo-500 w-1 h-5 rounded-full inline-block" />
+                        Page {page.pageNumber}
+                    </h3>
+                    <table className="w-full text-left border-separate border-spacing-y-2">
+                        <thead>
+                            <tr className="text-[10px] uppercase tracking-widest text-gray-400">
+                                <th className="w-8 px-1">#</th>
+                                <th className="px-1">描写</th>
+                                <th className="w-1/4 px-1">セリフ</th>
+                                <th className="w-28 px-1">カメラ</th>
+                                <th className="w-28 px-1">キャラクター</th>
+                                <th className="w-8" />
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {page.panels.map((panel, panelIdx) => (
+                                <tr key={panelIdx} className="align-top">
+                                    <td className="px-1 pt-1.5 text-xs font-bold text-indigo-300">{panel.panelNumber}</td>
+                                    <td className="px-1">
+                                        <textarea
+                                            rows={3}
+                                            value={panel.description}
+                                            onChange={(e) => updatePanel(pageIdx, panelIdx, { description: e.target.value })}
+                                            className={cellClass}
+                                        />
+                                    </td>
+                                    <td className="px-1">
+                                        <textarea
+                                            rows={3}
+                                            value={panel.dialogue}
+                                            onChange={(e) => updatePanel(pageIdx, panelIdx, { dialogue: e.target.value })}
+                                            className={cellClass}
+                                        />
+                                    </td>
+                                    <td className="px-1">
+                                        <input
+                                            type="text"
+                                            value={panel.cameraAngle || ''}
+                                            onChange={(e) => updatePanel(pageIdx, panelIdx, { cameraAngle: e.target.value })}
+                                            className={cellClass}
+                                        />
+                                    </td>
+                                    <td className="px-1">
+                                        {/* Committed on blur so commas can be typed freely */}
+                                        <input
+                                            key={(panel.characters || []).join(',')}
+                                            type="text"
+                                            defaultValue={(panel.characters || []).join(', ')}
+                                            onBlur={(e) => updatePanel(pageIdx, panelIdx, {
+                                                characters: e.target.value.split(',').map(c => c.trim()).filter(Boolean)
+                                            })}
+                                            placeholder="A, B"
+                                            className={cellClass}
+                                        />
+                                    </td>
+                                    <td className="pt-1">
+                                        <button
+                                            onClick={() => removePanel(pageIdx, panelIdx)}
+                                            disabled={page.panels.length <= 1}
+                                            className="p-1.5 rounded-full text-muted-foreground hover:bg-destructive hover:text-destructive-foreground transition-colors disabled:opacity-30"
+                                            title="コマを削除"
+                                        >
+                                            <Trash2 size={14} />
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <button
+                        onClick={() => addPanel(pageIdx)}
+                        className="text-xs flex items-center gap-1 text-indigo-300 hover:text-indigo-200 px-2"
+                    >
+                        <Plus size={14} /> コマを追加
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+}
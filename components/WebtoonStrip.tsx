@@ -0,0 +1,120 @@
+'use client';
+
+import { Download, Loader2 } from 'lucide-react';
+import { WebtoonSettings, WEBTOON_PLATFORMS } from '@/lib/webtoon';
+import type { WorkspacePage } from '@/components/PageCard';
+
+interface WebtoonStripProps {
+    pages: WorkspacePage[];
+    settings: WebtoonSettings;
+    isExporting: boolean;
+    onChange: (settings: WebtoonSettings) => void;
+    onExport: () => void;
+}
+
+const PREVIEW_WIDTH = 320;
+
+const inputClass = "w-full rounded-lg border border-white/20 bg-white/5 px-3 py-1.5 text-xs text-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500/50 disabled:opacity-40";
+
+// Stitched preview of a webtoon episode with the strip and slice settings
+export function WebtoonStrip({ pages, settings, isExporting, onChange, onExport }: WebtoonStripProps) {
+    const update = (patch: Partial<WebtoonSettings>) => onChange({ ...settings, ...patch });
+    const isCustom = settings.platformId === 'custom';
+
+    const selectPlatform = (id: string) => {
+        const platform = WEBTOON_PLATFORMS.find(p => p.id === id);
+        if (!platform) return;
+        // Custom keeps the current numbers as a starting point
+        update(id === 'custom'
+            ? { platformId: id }
+            : { platformId: id, width: platform.width, sliceHeight: platform.maxSliceHeight });
+    };
+
+    return (
+        <div className="glass-card rounded-2xl p-4 border border-white/10 space-y-4">
+            <div className="flex items-center justify-between">
+                <h3 className="text-sm font-bold text-white">
+                    縦スクロール <span className="text-gray-400 font-normal">({pages.length}コマ)</span>
+                </h3>
+                <button
+                    onClick={onExport}
+                    disabled={isExporting || pages.length === 0}
+                    className="text-xs flex items-center gap-1 bg-indigo-600 hover:bg-indigo-500 text-white px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50"
+                >
+                    {isExporting ? <Loader2 size={12} className="animate-spin" /> : <Download size={12} />}
+                    スライスを書き出し
+                </button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1 col-span-2">
+                    <label className="text-xs text-gray-300">掲載先</label>
+                    <select value={settings.platformId} onChange={(e) => selectPlatform(e.target.value)} className={inputClass}>
+                        {WEBTOON_PLATFORMS.map(platform => (
+                            <option key={platform.id} value={platform.id} className="bg-gray-800">{platform.label}</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="space-y-1">
+                    <label className="text-xs text-gray-300">幅 (px)</label>
+                    <input
+                        type="number"
+                        min={320}
+                        max={2000}
+                        value={settings.width}
+                        onChange={(e) => update({ width: Math.max(1, parseInt(e.target.value) || 0) })}
+                        disabled={!isCustom}
+                        className={inputClass}
+                    />
+                </div>
+                <div className="space-y-1">
+                    <label className="text-xs text-gray-300">スライスの最大高さ (px)</label>
+                    <input
+                        type="number"
+                        min={200}
+                        max={20000}
+                        value={settings.sliceHeight}
+                        onChange={(e) => update({ sliceHeight: Math.max(1, parseInt(e.target.value) || 0) })}
+                        disabled={!isCustom}
+                        className={inputClass}
+                    />
+                </div>
+                <div className="space-y-1">
+                    <label className="text-xs text-gray-300 flex justify-between">
+                        コマ間の余白 <span className="text-indigo-400 font-bold">{settings.gutter}px</span>
+                    </label>
+                    <input
+                        type="range"
+                        min="0"
+                        max="600"
+                        step="10"
+                        value={settings.gutter}
+                        onChange={(e) => update({ gutter: parseInt(e.target.value) })}
+                        className="w-full accent-indigo-500 h-2 bg-white/10 rounded-lg appearance-none cursor-pointer"
+                    />
+                </div>
+                <div className="space-y-1">
+                    <label className="text-xs text-gray-300">余白の色</label>
+                    <input
+                        type="color"
+                        value={settings.background}
+                        onChange={(e) => update({ background: e.target.value })}
+                        className="h-8 w-full rounded-lg border border-white/20 bg-white/5 cursor-pointer"
+                    />
+                </div>
+            </div>
+
+            <div className="max-h-[70vh] overflow-y-auto custom-scrollbar rounded-lg flex justify-center bg-black/30 py-4">
+                <div
+                    className="flex flex-col"
+                    style={{ width: PREVIEW_WIDTH, gap: settings.gutter * PREVIEW_WIDTH / settings.width, background: settings.background }}
+                >
+                    {pages.map((page, idx) => (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img key={page.id} src={page.url} alt={`Panel ${idx + 1}`} className="w-full block" />
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+}
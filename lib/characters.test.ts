@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import type { Character } from '@/lib/db';
+import { detectCharacters } from '@/lib/characters';
+
+const character = (name: string): Character => ({ id: name, name, description: '', imageIds: [], createdAt: 0 });
+const cast = [character('Aoi'), character('Ren'), character('さくら')];
+
+describe('detectCharacters', () => {
+    it('keeps only the characters a prompt names', () => {
+        expect(detectCharacters('Panel 1: Aoi waves at the train.', cast).map(c => c.name)).toEqual(['Aoi']);
+    });
+
+    it('matches Latin names as whole words and kana names anywhere', () => {
+        expect(detectCharacters('Rental bikes line the street. さくらが走る。', cast).map(c => c.name)).toEqual(['さくら']);
+    });
+
+    it('reads the character list of a storyboard panel', () => {
+        expect(detectCharacters('Panel 2: Two figures on a bridge. Characters: Ren, Aoi.', cast).map(c => c.name)).toEqual(['Aoi', 'Ren']);
+    });
+
+    it('attaches nobody to a page that names no character', () => {
+        expect(detectCharacters('Panel 1: A crowded market at dusk, seen from above.', cast)).toEqual([]);
+    });
+});
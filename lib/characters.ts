@@ -0,0 +1,49 @@
+import type { Character } from '@/lib/db';
+
+// Per-page casting: which selected characters a page prompt names, and the character notes
+// sent with that page so their look doesn't drift between pages.
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function namesIn(prompt: string, name: string): boolean {
+    const trimmed = name.trim();
+    if (!trimmed) return false;
+    // Latin names match as whole words; kana / kanji names have no word boundaries
+    if (/^[\x20-\x7e]+$/.test(trimmed)) {
+        return new RegExp(`\\b${escapeRegExp(trimmed)}\\b`, 'i').test(prompt);
+    }
+    return prompt.includes(trimmed);
+}
+
+// Characters named in a page prompt (storyboard prompts list each panel's characters by name).
+// A prompt that names nobody, e.g. a crowd or scenery page, gets no character references.
+export function detectCharacters(prompt: string, characters: Character[]): Character[] {
+    return characters.filter(c => namesIn(prompt, c.name));
+}
+
+// The note pinned for a chapter, if any
+export function appearanceNote(character: Character, chapter?: string): string | undefined {
+    if (!chapter?.trim()) return undefined;
+    return character.appearanceNotes?.find(n => n.chapter.trim() === chapter.trim())?.note.trim() || undefined;
+}
+
+// Stored description plus the chapter's pinned note, as given to the planner and the image prompt
+export function describeCharacter(character: Character, chapter?: string): string {
+    const note = appearanceNote(character, chapter);
+    const description = character.description.trim();
+    return note ? `${description}${description ? ' ' : ''}In this chapter: ${note}` : description;
+}
+
+// Character sheet appended to an image prompt
+export function castPrompt(characters: Character[], chapter?: string): string {
+    if (characters.length === 0) return '';
+    const lines = characters.map(c => `- ${c.name}: ${describeCharacter(c, chapter) || 'see the attached reference images'}`);
+    return `[Characters on this page] Draw them exactly as described:\n${lines.join('\n')}`;
+}
+
+// Chapter labels used by any character's notes, for the Workspace suggestions
+export function chapterLabels(characters: Character[]): string[] {
+    return Array.from(new Set(characters.flatMap(c => (c.appearanceNotes || []).map(n => n.chapter.trim())).filter(Boolean)));
+}
@@ -0,0 +1,240 @@
+// Exporters for reader / print formats: paginated PDF, CBZ (with ComicInfo.xml) and
+// fixed-layout EPUB3. All of them take the same ordered list of already encoded pages.
+
+import JSZip from 'jszip';
+import { PRINT_SIZES, PrintSizeKey } from '@/lib/encode';
+
+export interface ExportPage {
+    blob: Blob;
+    width: number; // pixels
+    height: number; // pixels
+}
+
+export interface ComicMetadata {
+    title: string;
+    author?: string;
+    language: string;
+    rightToLeft: boolean;
+}
+
+export async function toExportPage(blob: Blob): Promise<ExportPage> {
+    const bitmap = await createImageBitmap(blob);
+    const page = { blob, width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return page;
+}
+
+function extensionOf(blob: Blob): string {
+    if (blob.type === 'image/jpeg') return 'jpg';
+    if (blob.type === 'image/webp') return 'webp';
+    return 'png';
+}
+
+function pageName(index: number, blob: Blob): string {
+    return `${String(index + 1).padStart(3, '0')}.${extensionOf(blob)}`;
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+// --- PDF ---
+
+const encoder = new TextEncoder();
+
+// PDF text string as UTF-16BE hex so Japanese titles survive
+function pdfString(text: string): string {
+    let hex = 'FEFF';
+    for (let i = 0; i < text.length; i++) {
+        hex += text.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+    }
+    return `<${hex}>`;
+}
+
+// Minimal PDF writer: one JPEG (DCTDecode) image per page, centered and fitted to the page box.
+// `pageSize` 'original' sizes each page to its image at the given DPI.
+export async function buildPdf(pages: ExportPage[], meta: ComicMetadata, pageSize: PrintSizeKey, dpi: number): Promise<Blob> {
+    if (pages.some(p => p.blob.type !== 'image/jpeg')) {
+        throw new Error('PDF export expects JPEG-encoded pages');
+    }
+
+    const parts: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (chunk: string | Uint8Array) => {
+        const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+        parts.push(bytes);
+        length += bytes.length;
+    };
+    const beginObject = (id: number) => {
+        offsets[id] = length;
+        write(`${id} 0 obj\n`);
+    };
+
+    // Object ids: 1 catalog, 2 page tree, 3 info, then 3 per page (page, image, content)
+    const pageIds = pages.map((_, i) => 4 + i * 3);
+    const objectCount = 3 + pages.length * 3;
+
+    write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+
+    beginObject(1);
+    write(`<< /Type /Catalog /Pages 2 0 R /PageLayout /TwoPageRight${meta.rightToLeft ? ' /ViewerPreferences << /Direction /R2L >>' : ''} >>\nendobj\n`);
+
+    beginObject(2);
+    write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+
+    beginObject(3);
+    write(`<< /Title ${pdfString(meta.title)}${meta.author ? ` /Author ${pdfString(meta.author)}` : ''} /Producer (Manga Gen) >>\nendobj\n`);
+
+    const size = PRINT_SIZES[pageSize];
+    for (const [i, page] of pages.entries()) {
+        const pageId = pageIds[i];
+        const imageId = pageId + 1;
+        const contentId = pageId + 2;
+
+        // Page box in points (1/72 inch); landscape images get the print size rotated
+        let boxW: number;
+        let boxH: number;
+        if (size.widthMm && size.heightMm) {
+            const landscape = page.width > page.height;
+            boxW = ((landscape ? size.heightMm : size.widthMm) / 25.4) * 72;
+            boxH = ((landscape ? size.widthMm : size.heightMm) / 25.4) * 72;
+        } else {
+            boxW = (page.width / dpi) * 72;
+            boxH = (page.height / dpi) * 72;
+        }
+        const scale = Math.min(boxW / page.width, boxH / page.height);
+        const drawW = page.width * scale;
+        const drawH = page.height * scale;
+        const offsetX = (boxW - drawW) / 2;
+        const offsetY = (boxH - drawH) / 2;
+
+        beginObject(pageId);
+        write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${boxW.toFixed(2)} ${boxH.toFixed(2)}] /Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>\nendobj\n`);
+
+        const jpeg = new Uint8Array(await page.blob.arrayBuffer());
+        beginObject(imageId);
+        write(`<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`);
+        write(jpeg);
+        write('\nendstream\nendobj\n');
+
+        const content = `q ${drawW.toFixed(2)} 0 0 ${drawH.toFixed(2)} ${offsetX.toFixed(2)} ${offsetY.toFixed(2)} cm /Im0 Do Q`;
+        beginObject(contentId);
+        write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+    }
+
+    const xrefOffset = length;
+    write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+    for (let id = 1; id <= objectCount; id++) {
+        write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    return new Blob(parts as BlobPart[], { type: 'application/pdf' });
+}
+
+// --- CBZ ---
+
+export async function buildCbz(pages: ExportPage[], meta: ComicMetadata): Promise<Blob> {
+    const zip = new JSZip();
+
+    const comicInfo = `<?xml version="1.0" encoding="utf-8"?>
+<ComicInfo xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xmlns:xsd="http://www.w3.org/2001/XMLSchema">
+  <Title>${escapeXml(meta.title)}</Title>
+${meta.author ? `  <Writer>${escapeXml(meta.author)}</Writer>\n` : ''}  <PageCount>${pages.length}</PageCount>
+  <LanguageISO>${escapeXml(meta.language)}</LanguageISO>
+  <Manga>${meta.rightToLeft ? 'YesAndRightToLeft' : 'No'}</Manga>
+  <Pages>
+${pages.map((page, i) => `    <Page Image="${i}" ImageWidth="${page.width}" ImageHeight="${page.height}"${i === 0 ? ' Type="FrontCover"' : ''} />`).join('\n')}
+  </Pages>
+</ComicInfo>
+`;
+    zip.file('ComicInfo.xml', comicInfo);
+    pages.forEach((page, i) => zip.file(pageName(i, page.blob), page.blob));
+
+    // Images are already compressed; storing them keeps readers fast
+    const content = await zip.generateAsync({ type: 'blob', compression: 'STORE' });
+    return new Blob([content], { type: 'application/vnd.comicbook+zip' });
+}
+
+// --- EPUB3 (fixed layout) ---
+
+export async function buildEpub(pages: ExportPage[], meta: ComicMetadata): Promise<Blob> {
+    const zip = new JSZip();
+    const bookId = `urn:uuid:${crypto.randomUUID()}`;
+    const modified = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+    const title = escapeXml(meta.title);
+
+    // The mimetype entry must come first and be stored uncompressed
+    zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+    zip.file('META-INF/container.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`);
+
+    const manifest: string[] = [];
+    const spine: string[] = [];
+
+    pages.forEach((page, i) => {
+        const image = pageName(i, page.blob);
+        const id = `p${String(i + 1).padStart(3, '0')}`;
+        zip.file(`OEBPS/images/${image}`, page.blob);
+        zip.file(`OEBPS/${id}.xhtml`, `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${meta.language}">
+<head>
+  <meta charset="UTF-8"/>
+  <meta name="viewport" content="width=${page.width}, height=${page.height}"/>
+  <title>${title} - ${i + 1}</title>
+  <style>html, body { margin: 0; padding: 0; } img { display: block; width: ${page.width}px; height: ${page.height}px; }</style>
+</head>
+<body>
+  <img src="images/${image}" alt="${i + 1}"/>
+</body>
+</html>
+`);
+        manifest.push(`    <item id="img-${id}" href="images/${image}" media-type="${page.blob.type}"${i === 0 ? ' properties="cover-image"' : ''}/>`);
+        manifest.push(`    <item id="${id}" href="${id}.xhtml" media-type="application/xhtml+xml"/>`);
+        spine.push(`    <itemref idref="${id}"/>`);
+    });
+
+    zip.file('OEBPS/nav.xhtml', `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${meta.language}">
+<head><meta charset="UTF-8"/><title>${title}</title></head>
+<body>
+  <nav epub:type="toc"><ol><li><a href="p001.xhtml">${title}</a></li></ol></nav>
+</body>
+</html>
+`);
+
+    zip.file('OEBPS/content.opf', `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="bookid" xml:lang="${meta.language}" prefix="rendition: http://www.idpf.org/vocab/rendition/#">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="bookid">${bookId}</dc:identifier>
+    <dc:title>${title}</dc:title>
+${meta.author ? `    <dc:creator>${escapeXml(meta.author)}</dc:creator>\n` : ''}    <dc:language>${meta.language}</dc:language>
+    <meta property="dcterms:modified">${modified}</meta>
+    <meta property="rendition:layout">pre-paginated</meta>
+    <meta property="rendition:spread">landscape</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+${manifest.join('\n')}
+  </manifest>
+  <spine page-progression-direction="${meta.rightToLeft ? 'rtl' : 'ltr'}">
+${spine.join('\n')}
+  </spine>
+</package>
+`);
+
+    return zip.generateAsync({ type: 'blob', mimeType: 'application/epub+zip' });
+}
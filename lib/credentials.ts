@@ -0,0 +1,15 @@
+// The credential profile this browser uses. Profiles and their keys live on the server
+// (lib/vault.ts); only the profile name is kept in localStorage.
+
+export const DEFAULT_PROFILE = 'default';
+
+export function loadProfileName(): string {
+    return localStorage.getItem('credential_profile')?.trim() || DEFAULT_PROFILE;
+}
+
+export function saveProfileName(name: string) {
+    localStorage.setItem('credential_profile', name);
+}
+
+// Keys kept in localStorage before the vault existed; the Settings page moves them into a profile
+export const LEGACY_KEY_STORAGE = { geminiApiKey: 'gemini_api_key', falApiKey: 'fal_api_key' } as const;
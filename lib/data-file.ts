@@ -0,0 +1,29 @@
+import { randomBytes } from 'crypto';
+import { mkdir, rename, writeFile } from 'fs/promises';
+import path from 'path';
+
+// Shared handling of the server's local data files (.data/): atomic writes and one-at-a-time
+// read-modify-write updates. Only import this from server code.
+
+// Written next to the target and renamed over it, so a crash never leaves half a file
+export async function writeFileAtomic(file: string, data: string, options: { mode?: number } = {}): Promise<void> {
+    const temp = `${file}.${randomBytes(6).toString('hex')}.tmp`;
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(temp, data, options);
+    await rename(temp, file);
+}
+
+// A file that doesn't exist yet; any other read failure must not be mistaken for an empty store
+export function isMissingFile(err: unknown): boolean {
+    return (err as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+// Runs the tasks given to it one after another, so read-modify-write updates don't lose each other
+export function createWriteQueue(): <T>(task: () => Promise<T>) => Promise<T> {
+    let queue: Promise<unknown> = Promise.resolve();
+    return task => {
+        const run = queue.then(task);
+        queue = run.catch(() => {});
+        return run;
+    };
+}
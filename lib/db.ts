@@ -1,11 +1,71 @@
 import { openDB, DBSchema } from 'idb';
+import type { Bubble } from '@/lib/lettering';
+import type { ImageProviderId } from '@/lib/image-provider';
+import type { GenerationParams } from '@/lib/generation';
+import type { StylePreset } from '@/lib/styles';
+import type { LayoutSettings } from '@/lib/layout';
+
+// Appearance pinned for one chapter, e.g. a change of outfit
+export interface AppearanceNote {
+    chapter: string;
+    note: string;
+}
 
 export interface Character {
     id: string;
     name: string;
     description: string;
     imageIds: string[];
+    appearanceNotes?: AppearanceNote[];
+    createdAt: number;
+}
+
+// Standalone pages, or panels stitched into a vertical-scroll webtoon strip
+export type ProjectFormat = 'pages' | 'webtoon';
+
+export interface Project {
+    id: string;
+    name: string;
+    prompt: string;
+    inputMode: 'idea' | 'script' | 'storyboard';
+    format?: ProjectFormat; // Missing on projects from before webtoon mode: 'pages'
+    chapter?: string; // Selects the characters' pinned appearance notes
+    order: number;
     createdAt: number;
+    updatedAt: number;
+}
+
+export interface ProjectPage {
+    id: string;
+    projectId: string;
+    order: number;
+    prompt: string;
+    provider: ImageProviderId;
+    aspectRatio: string;
+    referenceIds: string[];
+    data: Blob;
+    versionId?: string; // Canonical version; `prompt` and `data` mirror it
+    dialogue?: string[]; // Storyboard dialogue available to the lettering editor
+    params?: GenerationParams; // Mirrors the canonical version
+    layout?: LayoutSettings; // Composited from separately generated panels; `prompt` holds one block per panel
+    characterIds?: string[]; // Characters detected in the prompt, whose references and notes were attached; unset when none were selected
+    continuity?: boolean; // The previous page was attached as a continuity reference
+    createdAt: number;
+}
+
+export interface PageVersion {
+    id: string;
+    pageId: string;
+    prompt: string;
+    data: Blob;
+    params?: GenerationParams; // Seed, steps etc. the take was generated with
+    createdAt: number;
+}
+
+export interface PageLettering {
+    pageId: string;
+    bubbles: Bubble[];
+    updatedAt: number;
 }
 
 interface MangaDB extends DBSchema {
@@ -25,13 +85,37 @@ interface MangaDB extends DBSchema {
         value: Character;
         indexes: { 'by-date': number };
     };
+    projects: {
+        key: string;
+        value: Project;
+        indexes: { 'by-order': number };
+    };
+    pages: {
+        key: string;
+        value: ProjectPage;
+        indexes: { 'by-project': string };
+    };
+    versions: {
+        key: string;
+        value: PageVersion;
+        indexes: { 'by-page': string };
+    };
+    lettering: {
+        key: string;
+        value: PageLettering;
+    };
+    styles: {
+        key: string;
+        value: StylePreset;
+        indexes: { 'by-date': number };
+    };
 }
 
 const DB_NAME = 'manga-gen-db';
 const STORE_NAME = 'images';
 
 export async function initDB() {
-    return openDB<MangaDB>(DB_NAME, 2, {
+    return openDB<MangaDB>(DB_NAME, 6, {
         upgrade(db, oldVersion, newVersion, transaction) {
             if (oldVersion < 1) {
                 const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
@@ -41,6 +125,25 @@ export async function initDB() {
                 const charStore = db.createObjectStore('characters', { keyPath: 'id' });
                 charStore.createIndex('by-date', 'createdAt');
             }
+            if (oldVersion < 3) {
+                const projectStore = db.createObjectStore('projects', { keyPath: 'id' });
+                projectStore.createIndex('by-order', 'order');
+                const pageStore = db.createObjectStore('pages', { keyPath: 'id' });
+                pageStore.createIndex('by-project', 'projectId');
+            }
+            if (oldVersion < 4) {
+                const versionStore = db.createObjectStore('versions', { keyPath: 'id' });
+                versionStore.createIndex('by-page', 'pageId');
+            }
+            if (oldVersion < 5) {
+                // Lettering is kept apart from the artwork so regenerating a page keeps its text
+                db.createObjectStore('lettering', { keyPath: 'pageId' });
+            }
+            if (oldVersion < 6) {
+                // User-defined style presets; the built-in ones live in lib/styles.ts
+                const styleStore = db.createObjectStore('styles', { keyPath: 'id' });
+                styleStore.createIndex('by-date', 'createdAt');
+            }
         },
     });
 }
@@ -101,3 +204,203 @@ export async function getCharacter(id: string) {
     const db = await initDB();
     return db.get('characters', id);
 }
+
+export async function updateCharacter(character: Character) {
+    const db = await initDB();
+    await db.put('characters', character);
+    return character;
+}
+
+// Project Functions
+export async function saveProject(project: Pick<Project, 'name' | 'prompt' | 'inputMode' | 'format' | 'chapter'>) {
+    const db = await initDB();
+    const now = Date.now();
+    // New projects go to the top of the list
+    const first = await db.getAllFromIndex('projects', 'by-order');
+    const record: Project = {
+        ...project,
+        id: crypto.randomUUID(),
+        order: first.length > 0 ? first[0].order - 1 : 0,
+        createdAt: now,
+        updatedAt: now,
+    };
+    await db.add('projects', record);
+    return record;
+}
+
+export async function getAllProjects() {
+    const db = await initDB();
+    return db.getAllFromIndex('projects', 'by-order');
+}
+
+export async function getProject(id: string) {
+    const db = await initDB();
+    return db.get('projects', id);
+}
+
+export async function updateProject(project: Project) {
+    const db = await initDB();
+    const record = { ...project, updatedAt: Date.now() };
+    await db.put('projects', record);
+    return record;
+}
+
+export async function reorderProjects(ids: string[]) {
+    const db = await initDB();
+    const tx = db.transaction('projects', 'readwrite');
+    await Promise.all(ids.map(async (id, order) => {
+        const project = await tx.store.get(id);
+        if (project) await tx.store.put({ ...project, order });
+    }));
+    await tx.done;
+}
+
+export async function deleteProject(id: string) {
+    const db = await initDB();
+    const tx = db.transaction(['projects', 'pages', 'versions', 'lettering'], 'readwrite');
+    const pageKeys = await tx.objectStore('pages').index('by-project').getAllKeys(id);
+    const versionKeys = (await Promise.all(
+        pageKeys.map(key => tx.objectStore('versions').index('by-page').getAllKeys(key))
+    )).flat();
+    await Promise.all([
+        ...versionKeys.map(key => tx.objectStore('versions').delete(key)),
+        ...pageKeys.map(key => tx.objectStore('lettering').delete(key)),
+        ...pageKeys.map(key => tx.objectStore('pages').delete(key)),
+        tx.objectStore('projects').delete(id),
+    ]);
+    await tx.done;
+}
+
+// Page Functions
+export async function savePage(page: Omit<ProjectPage, 'id' | 'createdAt' | 'versionId'>) {
+    const db = await initDB();
+    const now = Date.now();
+    const record: ProjectPage = {
+        ...page,
+        id: crypto.randomUUID(),
+        versionId: crypto.randomUUID(),
+        createdAt: now,
+    };
+    // The first take is stored as version 1 so it stays in the history after a regenerate
+    const tx = db.transaction(['pages', 'versions'], 'readwrite');
+    await Promise.all([
+        tx.objectStore('pages').add(record),
+        tx.objectStore('versions').add({
+            id: record.versionId!,
+            pageId: record.id,
+            prompt: record.prompt,
+            data: record.data,
+            params: record.params,
+            createdAt: now,
+        }),
+    ]);
+    await tx.done;
+    return record;
+}
+
+export async function getPage(id: string) {
+    const db = await initDB();
+    return db.get('pages', id);
+}
+
+export async function getProjectPages(projectId: string) {
+    const db = await initDB();
+    const pages = await db.getAllFromIndex('pages', 'by-project', projectId);
+    return pages.sort((a, b) => a.order - b.order);
+}
+
+export async function reorderPages(ids: string[]) {
+    const db = await initDB();
+    const tx = db.transaction('pages', 'readwrite');
+    await Promise.all(ids.map(async (id, order) => {
+        const page = await tx.store.get(id);
+        if (page) await tx.store.put({ ...page, order });
+    }));
+    await tx.done;
+}
+
+export async function deletePage(id: string) {
+    const db = await initDB();
+    const tx = db.transaction(['pages', 'versions', 'lettering'], 'readwrite');
+    const versionKeys = await tx.objectStore('versions').index('by-page').getAllKeys(id);
+    await Promise.all([
+        ...versionKeys.map(key => tx.objectStore('versions').delete(key)),
+        tx.objectStore('lettering').delete(id),
+        tx.objectStore('pages').delete(id),
+    ]);
+    await tx.done;
+}
+
+// Version Functions
+export async function getPageVersions(pageId: string) {
+    const db = await initDB();
+    const versions = await db.getAllFromIndex('versions', 'by-page', pageId);
+    return versions.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function savePageVersion(version: Omit<PageVersion, 'id' | 'createdAt'>) {
+    const db = await initDB();
+    const record: PageVersion = {
+        ...version,
+        id: crypto.randomUUID(),
+        createdAt: Date.now(),
+    };
+    await db.add('versions', record);
+    return record;
+}
+
+// Make a version the canonical take of its page (used for display and export)
+export async function setCanonicalVersion(pageId: string, versionId: string) {
+    const db = await initDB();
+    const tx = db.transaction(['pages', 'versions'], 'readwrite');
+    const [page, version] = await Promise.all([
+        tx.objectStore('pages').get(pageId),
+        tx.objectStore('versions').get(versionId),
+    ]);
+    if (!page || !version) throw new Error('Page or version not found');
+    const updated: ProjectPage = { ...page, versionId, prompt: version.prompt, data: version.data, params: version.params };
+    await tx.objectStore('pages').put(updated);
+    await tx.done;
+    return updated;
+}
+
+// Lettering Functions
+export async function getLettering(pageId: string) {
+    const db = await initDB();
+    return db.get('lettering', pageId);
+}
+
+export async function saveLettering(pageId: string, bubbles: Bubble[]) {
+    const db = await initDB();
+    const record: PageLettering = { pageId, bubbles, updatedAt: Date.now() };
+    await db.put('lettering', record);
+    return record;
+}
+
+// Style Functions
+export async function saveStyle(style: Omit<StylePreset, 'id' | 'createdAt' | 'builtIn'>) {
+    const db = await initDB();
+    const record: StylePreset = {
+        ...style,
+        id: crypto.randomUUID(),
+        createdAt: Date.now(),
+    };
+    await db.add('styles', record);
+    return record;
+}
+
+export async function getAllStyles() {
+    const db = await initDB();
+    return db.getAllFromIndex('styles', 'by-date');
+}
+
+export async function updateStyle(style: StylePreset) {
+    const db = await initDB();
+    await db.put('styles', style);
+    return style;
+}
+
+export async function deleteStyle(id: string) {
+    const db = await initDB();
+    await db.delete('styles', id);
+}
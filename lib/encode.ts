@@ -0,0 +1,146 @@
+import { loadImageElement } from '@/lib/utils';
+
+// Client-side encoding pipeline for exports: transcode to PNG / JPEG / WebP,
+// optionally resize to a print size at a given DPI and write the DPI into the file.
+
+export type OutputFormat = 'png' | 'jpeg' | 'webp';
+
+export interface EncodeOptions {
+    format: OutputFormat;
+    quality: number; // 0-1, used by JPEG and WebP
+    printSize: PrintSizeKey;
+    dpi: number;
+}
+
+export type PrintSizeKey = 'original' | 'a4' | 'b5' | 'a5' | 'b6';
+
+// Trim sizes in millimetres (portrait)
+export const PRINT_SIZES: Record<PrintSizeKey, { label: string; widthMm?: number; heightMm?: number }> = {
+    original: { label: '元のサイズ' },
+    a4: { label: 'A4 (210×297mm)', widthMm: 210, heightMm: 297 },
+    b5: { label: 'B5 (182×257mm)', widthMm: 182, heightMm: 257 },
+    a5: { label: 'A5 (148×210mm)', widthMm: 148, heightMm: 210 },
+    b6: { label: 'B6 (128×182mm)', widthMm: 128, heightMm: 182 },
+};
+
+export const DPI_OPTIONS = [72, 150, 300, 350, 600];
+
+export const DEFAULT_ENCODE_OPTIONS: EncodeOptions = {
+    format: 'png',
+    quality: 0.92,
+    printSize: 'original',
+    dpi: 350,
+};
+
+const MIME_TYPES: Record<OutputFormat, string> = {
+    png: 'image/png',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+};
+
+export function fileExtension(format: OutputFormat): string {
+    return format === 'jpeg' ? 'jpg' : format;
+}
+
+// Target pixel size: fit inside the print size (landscape pages use the size rotated), never crop
+function targetSize(width: number, height: number, options: EncodeOptions) {
+    const size = PRINT_SIZES[options.printSize];
+    if (!size.widthMm || !size.heightMm) return { width, height };
+
+    const landscape = width > height;
+    const boxW = ((landscape ? size.heightMm : size.widthMm) / 25.4) * options.dpi;
+    const boxH = ((landscape ? size.widthMm : size.heightMm) / 25.4) * options.dpi;
+    const scale = Math.min(boxW / width, boxH / height);
+    return { width: Math.round(width * scale), height: Math.round(height * scale) };
+}
+
+export async function encodeImage(src: string, options: EncodeOptions): Promise<Blob> {
+    const img = await loadImageElement(src);
+    const { width, height } = targetSize(img.naturalWidth, img.naturalHeight, options);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported');
+
+    // JPEG has no alpha; flatten onto white instead of black
+    if (options.format === 'jpeg') {
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, width, height);
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, 0, 0, width, height);
+
+    const mimeType = MIME_TYPES[options.format];
+    const blob = await new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob(
+            b => b ? resolve(b) : reject(new Error(`Failed to encode ${options.format}`)),
+            mimeType,
+            options.format === 'png' ? undefined : options.quality
+        );
+    });
+
+    // Browsers without WebP encoding silently fall back to PNG
+    if (blob.type !== mimeType) {
+        throw new Error(`このブラウザは ${options.format.toUpperCase()} の書き出しに対応していません`);
+    }
+
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    if (options.format === 'png') return new Blob([withPngDpi(bytes, options.dpi)], { type: mimeType });
+    if (options.format === 'jpeg') return new Blob([withJpegDpi(bytes, options.dpi)], { type: mimeType });
+    return blob;
+}
+
+// --- DPI metadata ---
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Insert a pHYs chunk right after IHDR (canvas output never contains one)
+function withPngDpi(png: Uint8Array<ArrayBuffer>, dpi: number): Uint8Array<ArrayBuffer> {
+    const IHDR_END = 8 + 4 + 4 + 13 + 4; // signature + length + type + data + crc
+    const pixelsPerMeter = Math.round(dpi / 0.0254);
+
+    const chunk = new Uint8Array(4 + 4 + 9 + 4);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, 9);
+    chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+    view.setUint32(8, pixelsPerMeter);
+    view.setUint32(12, pixelsPerMeter);
+    chunk[16] = 1; // unit: metre
+    view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+    const out = new Uint8Array(png.length + chunk.length);
+    out.set(png.subarray(0, IHDR_END), 0);
+    out.set(chunk, IHDR_END);
+    out.set(png.subarray(IHDR_END), IHDR_END + chunk.length);
+    return out;
+}
+
+// Rewrite the density fields of the JFIF APP0 segment that canvas writes first
+function withJpegDpi(jpeg: Uint8Array<ArrayBuffer>, dpi: number): Uint8Array<ArrayBuffer> {
+    const isJfif = jpeg[2] === 0xff && jpeg[3] === 0xe0 &&
+        String.fromCharCode(...jpeg.subarray(6, 10)) === 'JFIF';
+    if (!isJfif) return jpeg;
+
+    const out = jpeg.slice();
+    const view = new DataView(out.buffer);
+    out[13] = 1; // units: dots per inch
+    view.setUint16(14, dpi);
+    view.setUint16(16, dpi);
+    return out;
+}
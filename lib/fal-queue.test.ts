@@ -0,0 +1,67 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+
+let dir: string;
+let falQueue: typeof import('@/lib/fal-queue');
+let usageLog: typeof import('@/lib/usage-log');
+
+beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'fal-queue-'));
+    process.env.USAGE_LOG_PATH = path.join(dir, 'usage.jsonl');
+    falQueue = await import('@/lib/fal-queue');
+    usageLog = await import('@/lib/usage-log');
+});
+
+afterEach(async () => {
+    vi.unstubAllGlobals();
+    await usageLog.clearUsage();
+});
+
+afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+});
+
+const BASE = 'https://queue.fal.run/fal-ai/flux/requests/req-1';
+const submitted = { request_id: 'req-1', status_url: `${BASE}/status`, response_url: BASE, cancel_url: `${BASE}/cancel` };
+
+// Answers the queue endpoints; the status poll aborts `controller` once the job is running
+function stubQueue(controller: AbortController, cancelResponse: Response) {
+    const fetchMock = vi.fn(async (url: string, init: RequestInit = {}) => {
+        if (init.method === 'POST') return Response.json(submitted);
+        if (init.method === 'PUT') return cancelResponse;
+        if (url.startsWith(`${BASE}/status`)) {
+            controller.abort();
+            return Response.json({ status: 'IN_PROGRESS', logs: [] });
+        }
+        return Response.json({ images: [{ url: 'https://fal.media/result.png' }] });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+}
+
+describe('runFalQueue', () => {
+    it('cancels the request on fal when the signal aborts and logs it as cancelled', async () => {
+        const controller = new AbortController();
+        const fetchMock = stubQueue(controller, Response.json({ status: 'CANCELLATION_REQUESTED' }, { status: 202 }));
+
+        await expect(falQueue.runFalQueue('key', 'fal-ai/flux/dev', {}, { signal: controller.signal }))
+            .rejects.toBeInstanceOf(usageLog.CallCancelledError);
+
+        expect(fetchMock).toHaveBeenCalledWith(`${BASE}/cancel`, expect.objectContaining({ method: 'PUT' }));
+        const [record] = await usageLog.readUsage();
+        expect(record.outcome).toBe('cancelled');
+    });
+
+    it('returns and logs the images of a request that completed before the cancel', async () => {
+        const controller = new AbortController();
+        stubQueue(controller, Response.json({ status: 'ALREADY_COMPLETED' }, { status: 400 }));
+
+        const result = await falQueue.runFalQueue('key', 'fal-ai/flux/dev', {}, { signal: controller.signal });
+
+        expect(result.images).toHaveLength(1);
+        const [record] = await usageLog.readUsage();
+        expect(record).toMatchObject({ outcome: 'success', images: 1 });
+    });
+});
@@ -0,0 +1,165 @@
+import { createHash } from 'crypto';
+import { resolveProfile } from '@/lib/vault';
+import { tracked, CallCancelledError } from '@/lib/usage-log';
+import type { FalProgress } from '@/lib/fal';
+
+// Server side of fal: storage uploads and the queue (submit, poll the status with logs, fetch the
+// result). Only import this from route handlers and Server Actions; it holds the API key.
+
+const QUEUE_ORIGIN = 'https://queue.fal.run/';
+const POLL_INTERVAL_MS = 1000;
+const MAX_WAIT_MS = 10 * 60 * 1000; // a job still queued or running after this is given up on
+const PENDING_STATUSES = ['IN_QUEUE', 'IN_PROGRESS'];
+
+export async function falApiKey(profile?: string): Promise<string> {
+    const { falApiKey } = await resolveProfile(profile);
+    if (!falApiKey) throw new Error('Fal.ai API Keyが設定されていません');
+    return falApiKey;
+}
+
+// The key is only ever sent to fal's own queue
+function checkQueueUrl(url: string) {
+    if (!url.startsWith(QUEUE_ORIGIN)) throw new Error(`Invalid fal queue URL: ${url}`);
+}
+
+async function falRequest(apiKey: string, url: string, init: RequestInit = {}) {
+    const response = await fetch(url, {
+        ...init,
+        headers: {
+            'Authorization': `Key ${apiKey}`,
+            'Content-Type': 'application/json',
+            ...init.headers,
+        },
+    });
+    if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Fal.ai Error: ${response.status} - ${errorText}`);
+    }
+    return response.json();
+}
+
+// The same references are sent with every page of a run; upload each one once per key
+const uploadCache = new Map<string, Promise<string>>();
+
+// Upload an image to fal storage and return its URL for model inputs
+export async function uploadToFal(apiKey: string, image: Blob): Promise<string> {
+    const bytes = Buffer.from(await image.arrayBuffer());
+    const key = createHash('sha256').update(apiKey).update(bytes).digest('hex');
+    let upload = uploadCache.get(key);
+    if (!upload) {
+        upload = uploadBytes(apiKey, bytes, image.type || 'image/png');
+        uploadCache.set(key, upload);
+        upload.catch(() => uploadCache.delete(key));
+    }
+    return upload;
+}
+
+async function uploadBytes(apiKey: string, bytes: Buffer, type: string): Promise<string> {
+    const { upload_url, file_url } = await falRequest(apiKey, 'https://rest.alpha.fal.ai/storage/upload/initiate?storage_type=fal-cdn-v3', {
+        method: 'POST',
+        body: JSON.stringify({
+            content_type: type,
+            file_name: `reference.${type.split('/')[1] || 'png'}`,
+        }),
+    });
+
+    const response = await fetch(upload_url, {
+        method: 'PUT',
+        headers: { 'Content-Type': type },
+        body: new Uint8Array(bytes),
+    });
+    if (!response.ok) {
+        throw new Error(`Fal.ai Error: ${response.status} - reference upload failed`);
+    }
+    return file_url;
+}
+
+export interface FalResult {
+    images?: { url: string; content_type?: string }[];
+}
+
+interface FalSubmission {
+    request_id: string;
+    status_url: string;
+    response_url: string;
+    cancel_url?: string;
+}
+
+// Ask fal to stop a queued or running request. True when it had already completed (and was billed).
+async function cancelFalRequest(apiKey: string, submitted: FalSubmission): Promise<boolean> {
+    // Same app path as the status URL: .../requests/{request_id}/status -> /cancel
+    const url = submitted.cancel_url || submitted.status_url.replace(/\/status$/, '/cancel');
+    checkQueueUrl(url);
+    const response = await fetch(url, { method: 'PUT', headers: { 'Authorization': `Key ${apiKey}` } });
+    if (response.ok) return false;
+    const body = await response.json().catch(() => null);
+    if (body?.status === 'ALREADY_COMPLETED') return true;
+    throw new Error(`Fal.ai Error: ${response.status} - cancel failed for ${submitted.request_id}`);
+}
+
+// Every queue run is logged with its latency and outcome; fal reports no token counts.
+// An unexpected status or MAX_WAIT_MS stops polling. Aborting `signal` (the user cancelled or
+// the client went away) cancels the request on fal; a request that finished anyway is returned
+// so its images are still logged, otherwise the call is logged as cancelled.
+export async function runFalQueue(
+    apiKey: string,
+    model: string,
+    input: Record<string, unknown>,
+    options: { onProgress?: (progress: FalProgress) => void; signal?: AbortSignal; projectId?: string } = {}
+): Promise<FalResult> {
+    if (!/^[\w.-]+(\/[\w.-]+)*$/.test(model)) throw new Error(`Invalid fal model id: ${model}`);
+
+    return tracked(
+        { provider: 'fal', model, kind: 'image', projectId: options.projectId },
+        async () => {
+            if (options.signal?.aborted) throw new CallCancelledError();
+            const submitted: FalSubmission = await falRequest(apiKey, `${QUEUE_ORIGIN}${model}`, {
+                method: 'POST',
+                body: JSON.stringify(input),
+            });
+            checkQueueUrl(submitted.status_url);
+            checkQueueUrl(submitted.response_url);
+
+            try {
+                await pollUntilCompleted(apiKey, submitted, options);
+            } catch (err) {
+                if (!options.signal?.aborted) throw err;
+                let completed = false;
+                try {
+                    completed = await cancelFalRequest(apiKey, submitted);
+                } catch (cancelError) {
+                    console.error("Failed to cancel fal request", cancelError);
+                }
+                if (!completed) throw new CallCancelledError(`Fal.ai request ${submitted.request_id} was cancelled`);
+            }
+
+            return falRequest(apiKey, submitted.response_url) as Promise<FalResult>;
+        },
+        result => ({ images: Array.isArray(result.images) ? result.images.length : 0 })
+    );
+}
+
+async function pollUntilCompleted(
+    apiKey: string,
+    submitted: FalSubmission,
+    options: { onProgress?: (progress: FalProgress) => void; signal?: AbortSignal }
+): Promise<void> {
+    const deadline = Date.now() + MAX_WAIT_MS;
+    for (;;) {
+        options.signal?.throwIfAborted();
+        const status = await falRequest(apiKey, `${submitted.status_url}?logs=1`);
+        if (status.status !== 'COMPLETED' && !PENDING_STATUSES.includes(status.status)) {
+            throw new Error(`Fal.ai Error: unexpected job status ${status.status}`);
+        }
+        options.onProgress?.({
+            status: status.status,
+            queuePosition: status.queue_position,
+            logs: (status.logs || []).map((log: { message: string }) => log.message),
+        });
+        if (status.status === 'COMPLETED') break;
+        if (Date.now() > deadline) {
+            throw new Error(`Fal.ai Error: job did not finish within ${MAX_WAIT_MS / 60000} minutes`);
+        }
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+}
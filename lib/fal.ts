@@ -1,21 +1,86 @@
+import { DEFAULT_MODELS } from '@/lib/models';
+import { imagePrompt } from '@/lib/prompts';
+import { base64ToBlob } from '@/lib/utils';
 
-export async function generateImageFal(
-    apiKey: string,
-    prompt: string,
-    options: {
-        aspectRatio?: string;
-        width?: number;
-        height?: number;
-        model?: string;
-    } = {}
-): Promise<string> {
-    const model = options.model || "fal-ai/flux/dev";
+// fal runs on the server: the Workspace posts a job and its images to /api/fal, which uploads
+// them, drives fal's queue with the profile's key and streams the progress back as Server-Sent
+// Events. This module holds what both sides share plus the browser end of the stream.
+
+export interface FalProgress {
+    status: 'IN_QUEUE' | 'IN_PROGRESS' | 'COMPLETED';
+    queuePosition?: number;
+    logs: string[];
+}
+
+// How a fal model takes reference images, judged from its endpoint id
+export type FalReferenceMode = 'none' | 'image' | 'image_urls' | 'ip_adapter';
+
+export function falReferenceMode(model: string): FalReferenceMode {
+    if (/\/edit$|kontext\/multi|\/multi$/.test(model)) return 'image_urls';
+    if (/image-to-image|\/redux|kontext/.test(model)) return 'image';
+    if (/flux-general/.test(model)) return 'ip_adapter';
+    return 'none';
+}
+
+export interface FalImageOptions {
+    aspectRatio?: string;
+    width?: number;
+    height?: number;
+    model?: string;
+    seed?: number;
+    steps?: number;
+    guidanceScale?: number;
+    negativePrompt?: string;
+    safetyChecker?: boolean;
+    style?: string; // render line of the style preset
+}
 
-    // Enhance prompt
-    let enhancedPrompt = prompt;
+export type FalInpaintOptions = Pick<FalImageOptions, 'model' | 'seed' | 'steps' | 'guidanceScale' | 'safetyChecker' | 'style'>;
 
-    // Default Style
-    enhancedPrompt += " \nStyle: Manga style, anime style, high quality.";
+// The JSON part of a /api/fal request; images travel next to it as form files
+// ("reference" for generate, "image" and "mask" for inpaint)
+export type FalJob = {
+    profile?: string; // server-side credential profile holding the fal key
+    prompt: string;
+    projectId?: string; // usage log attribution
+} & (
+    | { kind: 'generate'; options: FalImageOptions }
+    | { kind: 'inpaint'; options: FalInpaintOptions }
+);
+
+// Events of the /api/fal stream, sent as `event: <type>` with the whole object as data
+export type FalStreamEvent =
+    | { type: 'progress'; progress: FalProgress }
+    | { type: 'done'; url: string; contentType?: string }
+    | { type: 'error'; message: string };
+
+// The "job" field as the route receives it; anything that isn't a FalJob is rejected before use
+export function parseFalJob(value: unknown): FalJob {
+    let job: Record<string, unknown>;
+    try {
+        job = JSON.parse(String(value));
+    } catch {
+        throw new Error('Invalid fal job: not JSON');
+    }
+    if (!job || typeof job !== 'object' || Array.isArray(job)) throw new Error('Invalid fal job: not an object');
+    if (job.kind !== 'generate' && job.kind !== 'inpaint') throw new Error('Invalid fal job: unknown kind');
+    if (typeof job.prompt !== 'string') throw new Error('Invalid fal job: prompt must be a string');
+    if (!job.options || typeof job.options !== 'object' || Array.isArray(job.options)) throw new Error('Invalid fal job: options must be an object');
+    for (const field of ['profile', 'projectId'] as const) {
+        if (job[field] !== undefined && typeof job[field] !== 'string') throw new Error(`Invalid fal job: ${field} must be a string`);
+    }
+    const model = (job.options as FalImageOptions).model;
+    if (model !== undefined && typeof model !== 'string') throw new Error('Invalid fal job: model must be a string');
+    return job as unknown as FalJob;
+}
+
+export function falJobModel(job: FalJob): string {
+    return job.options.model || (job.kind === 'inpaint' ? DEFAULT_MODELS.falInpaintModel : DEFAULT_MODELS.falModel);
+}
+
+// Model input for a text-to-image job; `referenceUrls` are the references already uploaded to fal storage
+export function falImageInput(prompt: string, options: FalImageOptions, referenceUrls: string[]): Record<string, unknown> {
+    const model = options.model || DEFAULT_MODELS.falModel;
 
     // Resolve resolution from options or aspect ratio
     // Defaults
@@ -40,51 +105,137 @@ export async function generateImageFal(
         }
     }
 
-    const response = await fetch(`https://fal.run/${model}`, {
-        method: 'POST',
-        headers: {
-            'Authorization': `Key ${apiKey}`,
-            'Content-Type': 'application/json',
+    const input: Record<string, unknown> = {
+        prompt: imagePrompt(prompt, { style: options.style }),
+        image_size: {
+            width: imageSize.width,
+            height: imageSize.height
         },
-        body: JSON.stringify({
-            prompt: prompt,
-            image_size: {
-                width: imageSize.width,
-                height: imageSize.height
-            },
-            num_inference_steps: 4, // Schnell defaults
-            enable_safety_checker: false
-        }),
-    });
-
-    if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Fal.ai Error: ${response.status} - ${errorText}`);
+        // Schnell is distilled for ~4 steps; dev and the other FLUX endpoints default to 28
+        num_inference_steps: options.steps ?? (model.includes('schnell') ? 4 : 28),
+        enable_safety_checker: options.safetyChecker ?? true
+    };
+    if (options.guidanceScale !== undefined) input.guidance_scale = options.guidanceScale;
+    if (options.seed !== undefined) input.seed = options.seed;
+    if (options.negativePrompt) input.negative_prompt = options.negativePrompt;
+
+    // The model receives the references by URL
+    const mode = falReferenceMode(model);
+    if (mode !== 'none' && referenceUrls.length > 0) {
+        if (mode === 'image') {
+            input.image_url = referenceUrls[0];
+        } else if (mode === 'image_urls') {
+            input.image_urls = referenceUrls;
+        } else {
+            input.ip_adapters = [{
+                path: 'XLabs-AI/flux-ip-adapter',
+                image_encoder_path: 'openai/clip-vit-large-patch14',
+                image_url: referenceUrls[0],
+                scale: 0.7
+            }];
+        }
     }
+    return input;
+}
+
+// Model input for repainting the white area of the mask
+export function falInpaintInput(prompt: string, options: FalInpaintOptions, imageUrl: string, maskUrl: string): Record<string, unknown> {
+    const input: Record<string, unknown> = {
+        prompt: imagePrompt(prompt, { style: options.style }),
+        image_url: imageUrl,
+        mask_url: maskUrl,
+        num_inference_steps: options.steps ?? 28,
+        enable_safety_checker: options.safetyChecker ?? true
+    };
+    if (options.guidanceScale !== undefined) input.guidance_scale = options.guidanceScale;
+    if (options.seed !== undefined) input.seed = options.seed;
+    return input;
+}
+
+type ImageInput = { base64: string; type: string };
+
+export async function generateImageFal(
+    profile: string | undefined,
+    prompt: string,
+    options: FalImageOptions & {
+        referenceImages?: ImageInput[];
+        onProgress?: (progress: FalProgress) => void;
+        projectId?: string;
+        signal?: AbortSignal;
+    } = {}
+): Promise<Blob> {
+    const { referenceImages = [], onProgress, projectId, signal, ...falOptions } = options;
+    return streamFalJob(
+        { kind: 'generate', profile, prompt, projectId, options: falOptions },
+        referenceImages.map(image => ['reference', base64ToBlob(image.base64, image.type)]),
+        onProgress,
+        signal
+    );
+}
 
-    const data = await response.json();
-    // Fal returns { images: [ { url: "...", width: ..., height: ... } ] }
-    if (data.images && data.images.length > 0) {
-        // Need to fetch the image and convert to base64 to match our app's flow (storing base64)
-        // OR update app to handle URLs.
-        // Current app expects `data:image/png;base64,` prefix in `generatedImages` state? 
-        // app/page.tsx: `const imageUrl = data:image/png;base64,${base64Image};`
-        // So checking generateImage return type... it returns Promise<string> (base64 data body).
-
-        const imageUrl = data.images[0].url;
-        const imgRes = await fetch(imageUrl);
-        const blob = await imgRes.blob();
-
-        return new Promise((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onloadend = () => {
-                const base64 = (reader.result as string).split(',')[1];
-                resolve(base64);
-            };
-            reader.onerror = reject;
-            reader.readAsDataURL(blob);
-        });
+// Repaint the white area of `mask` in `image` with an inpainting endpoint
+export async function generateInpaintFal(
+    profile: string | undefined,
+    prompt: string,
+    image: ImageInput,
+    mask: ImageInput,
+    options: FalInpaintOptions & {
+        onProgress?: (progress: FalProgress) => void;
+        projectId?: string;
+        signal?: AbortSignal;
+    } = {}
+): Promise<Blob> {
+    const { onProgress, projectId, signal, ...falOptions } = options;
+    return streamFalJob(
+        { kind: 'inpaint', profile, prompt, projectId, options: falOptions },
+        [['image', base64ToBlob(image.base64, image.type)], ['mask', base64ToBlob(mask.base64, mask.type)]],
+        onProgress,
+        signal
+    );
+}
+
+// Post the job, follow its event stream and download the finished image as a Blob.
+// Aborting `signal` closes the stream; the route sees its request aborted and cancels the job on fal.
+async function streamFalJob(
+    job: FalJob,
+    files: [string, Blob][],
+    onProgress?: (progress: FalProgress) => void,
+    signal?: AbortSignal
+): Promise<Blob> {
+    const form = new FormData();
+    form.append('job', JSON.stringify(job));
+    for (const [name, blob] of files) form.append(name, blob);
+
+    const response = await fetch('/api/fal', { method: 'POST', body: form, signal });
+    if (!response.ok || !response.body) {
+        throw new Error(`Fal.ai Error: ${response.status} - ${await response.text()}`);
     }
 
-    throw new Error("No image returned from Fal.ai");
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+
+        // Events are separated by a blank line; only the data line is needed
+        let boundary: number;
+        while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+            const data = buffer.slice(0, boundary).split('\n').find(line => line.startsWith('data: '));
+            buffer = buffer.slice(boundary + 2);
+            if (!data) continue;
+
+            const event = JSON.parse(data.slice('data: '.length)) as FalStreamEvent;
+            if (event.type === 'progress') {
+                onProgress?.(event.progress);
+            } else if (event.type === 'error') {
+                throw new Error(event.message);
+            } else {
+                const image = await fetch(event.url, { signal });
+                if (!image.ok) throw new Error(`Fal.ai Error: ${image.status} - result download failed`);
+                return image.blob();
+            }
+        }
+    }
+    throw new Error('Fal.ai stream ended without a result');
 }
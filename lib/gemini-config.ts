@@ -0,0 +1,37 @@
+import type { GeminiConfig, GeminiProvider, PersonGeneration } from '@/app/actions/gemini';
+import { loadProfileName } from '@/lib/credentials';
+import { loadModelSettings } from '@/lib/models';
+
+// Which Gemini backend this browser uses, chosen on the Settings page and stored in localStorage.
+// Every page that calls Gemini builds its GeminiConfig from here.
+
+const STORAGE_KEYS = {
+    provider: 'gemini_provider',
+    projectId: 'vertex_project_id',
+    location: 'vertex_location',
+    personGeneration: 'imagen_person_generation',
+} as const;
+
+export const DEFAULT_VERTEX_LOCATION = 'us-central1';
+
+export function loadGeminiConfig(): GeminiConfig {
+    const models = loadModelSettings();
+    return {
+        provider: localStorage.getItem(STORAGE_KEYS.provider) === 'vertex' ? 'vertex' : 'google',
+        profile: loadProfileName(),
+        projectId: localStorage.getItem(STORAGE_KEYS.projectId) || '',
+        location: localStorage.getItem(STORAGE_KEYS.location) || DEFAULT_VERTEX_LOCATION,
+        textModel: models.textModel,
+        imageModel: models.imageModel,
+        personGeneration: (localStorage.getItem(STORAGE_KEYS.personGeneration) as PersonGeneration) || undefined,
+    };
+}
+
+// The Vertex AI fields are only written when Vertex AI is the chosen provider
+export function saveGeminiConfig(config: { provider: GeminiProvider; projectId: string; location: string; personGeneration: PersonGeneration }) {
+    localStorage.setItem(STORAGE_KEYS.provider, config.provider);
+    if (config.provider !== 'vertex') return;
+    localStorage.setItem(STORAGE_KEYS.projectId, config.projectId);
+    localStorage.setItem(STORAGE_KEYS.location, config.location);
+    localStorage.setItem(STORAGE_KEYS.personGeneration, config.personGeneration);
+}
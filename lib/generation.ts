@@ -0,0 +1,58 @@
+// Advanced generation parameters chosen in the Workspace, and the per-page record of
+// what was actually sent so a page can be reproduced.
+
+export type SafetyLevel = 'strict' | 'default' | 'off';
+
+export const SAFETY_LEVELS: { value: SafetyLevel; label: string }[] = [
+    { value: 'strict', label: '厳しめ' },
+    { value: 'default', label: '標準' },
+    { value: 'off', label: 'オフ' },
+];
+
+// Recorded on every page and version. Only values the provider accepted are present.
+export interface GenerationParams {
+    seed?: number;
+    steps?: number;
+    guidanceScale?: number;
+    negativePrompt?: string;
+    safety?: SafetyLevel;
+    planningTemperature?: number;
+    styleId?: string; // Style preset the page was planned and rendered with
+}
+
+// Workspace state; null means "provider default"
+export interface AdvancedSettings {
+    seed: number | null;
+    seedLocked: boolean; // reuse `seed` for every page instead of drawing a new one
+    steps: number | null;
+    guidanceScale: number | null;
+    negativePrompt: string;
+    planningTemperature: number | null;
+    safety: SafetyLevel;
+}
+
+export const DEFAULT_ADVANCED_SETTINGS: AdvancedSettings = {
+    seed: null,
+    seedLocked: false,
+    steps: null,
+    guidanceScale: null,
+    negativePrompt: '',
+    planningTemperature: null,
+    safety: 'default',
+};
+
+export function randomSeed(): number {
+    return Math.floor(Math.random() * 2 ** 31);
+}
+
+// Parameters for one page: a fresh seed unless locked, so every page has a seed to reuse later
+export function resolveParams(settings: AdvancedSettings): GenerationParams {
+    return {
+        seed: settings.seedLocked && settings.seed !== null ? settings.seed : randomSeed(),
+        steps: settings.steps ?? undefined,
+        guidanceScale: settings.guidanceScale ?? undefined,
+        negativePrompt: settings.negativePrompt.trim() || undefined,
+        safety: settings.safety,
+        planningTemperature: settings.planningTemperature ?? undefined,
+    };
+}
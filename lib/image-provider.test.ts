@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+    IMAGE_PROVIDERS,
+    ImageProviderError,
+    ImageRequest,
+    ProviderContext,
+    editWithProvider,
+    generateVariations,
+    generateWithProvider,
+    getImageProvider,
+    normalizeImageError,
+    supportedParams,
+} from '@/lib/image-provider';
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+const ctx: ProviderContext = { geminiConfig: { provider: 'google' }, credentials: null, falModel: 'fal-ai/flux/dev', falInpaintModel: 'fal-ai/flux/dev/inpainting' };
+
+const request: ImageRequest = { prompt: 'a quiet street at night', referenceImages: [], aspectRatio: '2:3', seed: 7 };
+
+// Width and height from the IHDR chunk
+async function pngSize(blob: Blob): Promise<{ width: number; height: number }> {
+    const view = new DataView(await blob.arrayBuffer());
+    expect(view.getUint32(0)).toBe(0x89504e47); // \x89PNG
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+}
+
+describe('provider registry', () => {
+    it('looks providers up by id and rejects unknown ones', () => {
+        expect(Object.keys(IMAGE_PROVIDERS)).toEqual(['gemini', 'fal', 'mock']);
+        expect(getImageProvider('mock').label).toBe('モック');
+        expect(() => getImageProvider('dalle' as never)).toThrow('Unknown image provider');
+    });
+
+    it('generates a fixed PNG in the requested aspect ratio with the mock provider', async () => {
+        const blob = await generateWithProvider('mock', request, ctx);
+        expect(blob.type).toBe('image/png');
+        expect(await pngSize(blob)).toEqual({ width: 52, height: 76 });
+
+        const again = await generateWithProvider('mock', { ...request, prompt: 'something else' }, ctx);
+        expect(Buffer.from(await again.arrayBuffer())).toEqual(Buffer.from(await blob.arrayBuffer()));
+    });
+
+    it('steps the seed across variations when the provider has no batch call', async () => {
+        const generate = vi.spyOn(IMAGE_PROVIDERS.mock, 'generate');
+        const takes = await generateVariations('mock', request, 3, ctx);
+        expect(takes.map(take => take.seed)).toEqual([7, 8, 9]);
+        expect(generate.mock.calls.map(([call]) => call.seed)).toEqual([7, 8, 9]);
+    });
+
+    it('only keeps the parameters the provider accepts', () => {
+        const params = { seed: 7, steps: 30, guidanceScale: 4, negativePrompt: 'blur', safety: 'off' as const };
+        expect(supportedParams('mock', params, ctx)).toMatchObject(params);
+        expect(supportedParams('gemini', params, ctx)).toMatchObject({ seed: undefined, steps: undefined, guidanceScale: undefined, negativePrompt: undefined, safety: 'off' });
+    });
+
+    it('normalizes provider failures and refuses edits a provider cannot make', async () => {
+        vi.spyOn(IMAGE_PROVIDERS.mock, 'generate').mockRejectedValue(new Error('[429 Too Many Requests] slow down'));
+        const err = await generateWithProvider('mock', request, ctx).catch(e => e);
+        expect(err).toBeInstanceOf(ImageProviderError);
+        expect(err).toMatchObject({ provider: 'mock', kind: 'rate_limit', status: 429, retryable: true });
+
+        vi.spyOn(IMAGE_PROVIDERS.mock, 'capabilities').mockReturnValue({ ...IMAGE_PROVIDERS.mock.capabilities(ctx), inpainting: false });
+        const edit = { ...request, image: { base64: '', type: 'image/png' }, mask: { base64: '', type: 'image/png' } };
+        await expect(editWithProvider('mock', edit, ctx)).rejects.toMatchObject({ kind: 'invalid_request' });
+    });
+});
+
+describe('normalizeImageError', () => {
+    it.each([
+        ['[401 Unauthorized] API key not valid', 'auth', 401],
+        ['Fal.ai Error: 403 - Forbidden', 'auth', 403],
+        ['RESOURCE_EXHAUSTED: quota exceeded', 'rate_limit', undefined],
+        ['Fal.ai Error: 503 - Service Unavailable', 'server', 503],
+        ['The model is overloaded', 'server', undefined],
+        ['Response was blocked due to SAFETY', 'safety', undefined],
+        ['[400 Bad Request] INVALID_ARGUMENT', 'invalid_request', 400],
+        ['TypeError: fetch failed', 'network', undefined],
+        ['Something odd happened', 'unknown', undefined],
+    ])('classifies "%s" as %s', (message, kind, status) => {
+        const err = normalizeImageError('fal', new Error(message));
+        expect(err).toMatchObject({ provider: 'fal', kind, status });
+        expect(err.message).toContain(message);
+    });
+
+    it('passes normalized errors through unchanged', () => {
+        const err = new ImageProviderError('busy', 'gemini', 'server', 503);
+        expect(normalizeImageError('fal', err)).toBe(err);
+        expect(normalizeImageError('fal', 'plain string').kind).toBe('unknown');
+    });
+});
@@ -0,0 +1,324 @@
+// Image providers behind one interface: what each backend can do, how it is configured,
+// how it generates a page, and how its failures are normalized for the UI and the queue.
+
+import { generateImageAction, generateImagesAction, editImageAction, GeminiConfig } from '@/app/actions/gemini';
+import { DEFAULT_MODELS, isImagenModel } from '@/lib/models';
+import { generateImageFal, generateInpaintFal, falReferenceMode, FalProgress } from '@/lib/fal';
+import { generateMockImage } from '@/lib/mock-image';
+import type { ProfileSummary } from '@/app/actions/vault';
+import type { GenerationParams } from '@/lib/generation';
+import { base64ToBlob } from '@/lib/utils';
+
+export type ImageProviderId = 'gemini' | 'fal' | 'mock';
+
+export interface ImageProviderCapabilities {
+    referenceImages: boolean; // reference images are sent to the model
+    sizeControl: boolean; // exact pixel size instead of a prompt hint
+    seed: boolean;
+    negativePrompt: boolean;
+    steps: boolean;
+    guidance: boolean;
+    safety: boolean;
+    inpainting: boolean; // edit() can repaint a masked region of an existing page
+}
+
+export interface ImageRequest extends Omit<GenerationParams, 'planningTemperature' | 'styleId'> {
+    prompt: string;
+    style?: string; // the preset's render line, appended by each provider as "Style: ..."
+    referenceImages: { base64: string; type: string }[];
+    aspectRatio: string;
+    onProgress?: (message: string) => void; // providers with a job queue report its state here
+    signal?: AbortSignal; // fal: the server cancels the queued / running request on fal; others only stop waiting
+    projectId?: string; // the usage log attributes the call to this project
+}
+
+// Repaint the white area of `mask` in `image`; the caller composites the result back through the mask
+export interface ImageEditRequest extends Omit<ImageRequest, 'referenceImages'> {
+    image: { base64: string; type: string };
+    mask: { base64: string; type: string }; // black / white PNG at the page size
+}
+
+// Everything a provider may need from the user's settings
+export interface ProviderContext {
+    geminiConfig: GeminiConfig;
+    credentials: ProfileSummary | null; // which keys the selected profile holds on the server
+    falModel: string;
+    falInpaintModel: string;
+}
+
+export interface ImageProvider {
+    id: ImageProviderId;
+    label: string;
+    // May depend on the settings, e.g. the Gemini provider gains seed / negative prompt with an Imagen model
+    capabilities: (ctx: ProviderContext) => ImageProviderCapabilities;
+    // Returns a user-facing message when the provider can't run with the current settings
+    checkConfig: (ctx: ProviderContext) => string | null;
+    // Resolves to the image bytes, ready for the page store
+    generate: (request: ImageRequest, ctx: ProviderContext) => Promise<Blob>;
+    // Several takes in one request where the backend supports it; otherwise generate() is repeated
+    generateMany?: (request: ImageRequest, count: number, ctx: ProviderContext) => Promise<Blob[]>;
+    // Region edit for providers with the `inpainting` capability
+    edit?: (request: ImageEditRequest, ctx: ProviderContext) => Promise<Blob>;
+}
+
+export type ImageErrorKind = 'auth' | 'rate_limit' | 'server' | 'safety' | 'invalid_request' | 'network' | 'unknown';
+
+export class ImageProviderError extends Error {
+    constructor(
+        message: string,
+        public provider: ImageProviderId,
+        public kind: ImageErrorKind,
+        public status?: number
+    ) {
+        super(message);
+        this.name = 'ImageProviderError';
+    }
+
+    get retryable(): boolean {
+        return this.kind === 'rate_limit' || this.kind === 'server' || this.kind === 'network';
+    }
+}
+
+const ERROR_MESSAGES: Record<ImageErrorKind, string> = {
+    auth: '認証に失敗しました。APIキーや認証情報を確認してください',
+    rate_limit: 'レート制限に達しました。しばらく待ってから再試行してください',
+    server: 'プロバイダー側でエラーが発生しました',
+    safety: '安全性フィルターにより画像が生成されませんでした',
+    invalid_request: 'リクエストが不正です',
+    network: 'ネットワークエラーが発生しました',
+    unknown: '画像の生成に失敗しました',
+};
+
+// Map SDK / HTTP errors of any provider onto one shape. Providers only expose the status
+// through the message, e.g. "[429 Too Many Requests]" (Google) or "Fal.ai Error: 503 - ..." (fal).
+export function normalizeImageError(provider: ImageProviderId, err: unknown): ImageProviderError {
+    if (err instanceof ImageProviderError) return err;
+
+    const message = err instanceof Error ? err.message : String(err);
+    const status = Number(message.match(/\b([45]\d\d)\b/)?.[1]) || undefined;
+
+    let kind: ImageErrorKind = 'unknown';
+    if (status === 401 || status === 403 || /API key|PERMISSION_DENIED|UNAUTHENTICATED|credentials/i.test(message)) kind = 'auth';
+    else if (status === 429 || /Too Many Requests|RESOURCE_EXHAUSTED|quota/i.test(message)) kind = 'rate_limit';
+    else if ((status && status >= 500) || /UNAVAILABLE|INTERNAL|overloaded/i.test(message)) kind = 'server';
+    else if (/SAFETY|blocked|nsfw|content policy|No image/i.test(message)) kind = 'safety';
+    else if (status === 400 || status === 404 || status === 422 || /INVALID_ARGUMENT|NOT_FOUND/i.test(message)) kind = 'invalid_request';
+    else if (/fetch failed|NetworkError|Failed to fetch|ECONNRESET|ETIMEDOUT/i.test(message)) kind = 'network';
+
+    return new ImageProviderError(`${ERROR_MESSAGES[kind]} (${message})`, provider, kind, status);
+}
+
+const geminiProvider: ImageProvider = {
+    id: 'gemini',
+    label: 'Gemini API',
+    capabilities: ({ geminiConfig }) => {
+        const imagen = geminiConfig.provider === 'vertex' && isImagenModel(geminiConfig.imageModel || DEFAULT_MODELS.imageModel);
+        // Edits always run on a Gemini image model (see editImageAction)
+        return { referenceImages: !imagen, sizeControl: imagen, seed: imagen, negativePrompt: imagen, steps: false, guidance: false, safety: true, inpainting: true };
+    },
+    checkConfig: ({ geminiConfig, credentials }) => {
+        if (geminiConfig.provider === 'google' && !credentials?.hasGeminiKey) {
+            return 'Gemini API Keyが設定されていません (Google AI Studio)';
+        }
+        if (geminiConfig.provider === 'vertex' && (!geminiConfig.projectId || !geminiConfig.location)) {
+            return 'Vertex AIの設定（Project ID, Location）が不足しています';
+        }
+        return null;
+    },
+    // The actions resolve to base64 PNG; the bytes are unpacked here for the page store
+    generate: async (request, { geminiConfig }) => {
+        const data = await generateImageAction(geminiConfig, request.prompt, request.referenceImages, {
+            aspectRatio: request.aspectRatio,
+            seed: request.seed,
+            negativePrompt: request.negativePrompt,
+            safety: request.safety,
+            style: request.style,
+            projectId: request.projectId
+        });
+        return base64ToBlob(data, 'image/png');
+    },
+    generateMany: async (request, count, { geminiConfig }) => {
+        const images = await generateImagesAction(geminiConfig, request.prompt, request.referenceImages, {
+            aspectRatio: request.aspectRatio,
+            seed: request.seed,
+            negativePrompt: request.negativePrompt,
+            safety: request.safety,
+            style: request.style,
+            sampleCount: count,
+            projectId: request.projectId
+        });
+        return images.map(data => base64ToBlob(data, 'image/png'));
+    },
+    edit: async (request, { geminiConfig }) => {
+        const data = await editImageAction(geminiConfig, request.image, request.mask, request.prompt, {
+            aspectRatio: request.aspectRatio,
+            safety: request.safety,
+            style: request.style,
+            projectId: request.projectId
+        });
+        return base64ToBlob(data, 'image/png');
+    },
+};
+
+// fal queue states as short messages for the queue / modal
+function falProgressMessage(onProgress: (message: string) => void) {
+    return (progress: FalProgress) => {
+        if (progress.status === 'IN_QUEUE') {
+            onProgress(progress.queuePosition !== undefined ? `待機中 (${progress.queuePosition + 1}番目)` : '待機中');
+        } else if (progress.status === 'IN_PROGRESS') {
+            onProgress(progress.logs[progress.logs.length - 1] || '生成中');
+        }
+    };
+}
+
+const falProvider: ImageProvider = {
+    id: 'fal',
+    label: 'fal API',
+    capabilities: ({ falModel }) => ({
+        referenceImages: falReferenceMode(falModel) !== 'none',
+        sizeControl: true,
+        seed: true,
+        // FLUX itself has no negative prompt; flux-general and SD-family endpoints do
+        negativePrompt: /flux-general|stable-diffusion|sdxl|sd-/.test(falModel),
+        steps: true,
+        guidance: true,
+        safety: true,
+        inpainting: true
+    }),
+    checkConfig: ({ credentials }) => credentials?.hasFalKey ? null : 'Fal.ai API Keyが設定されていません',
+    generate: (request, { credentials, falModel }) =>
+        generateImageFal(credentials?.name, request.prompt, {
+            aspectRatio: request.aspectRatio,
+            model: falModel,
+            referenceImages: request.referenceImages,
+            seed: request.seed,
+            steps: request.steps,
+            guidanceScale: request.guidanceScale,
+            negativePrompt: request.negativePrompt,
+            safetyChecker: request.safety !== 'off',
+            style: request.style,
+            onProgress: request.onProgress && falProgressMessage(request.onProgress),
+            projectId: request.projectId,
+            signal: request.signal
+        }),
+    edit: (request, { credentials, falInpaintModel }) =>
+        generateInpaintFal(credentials?.name, request.prompt, request.image, request.mask, {
+            model: falInpaintModel,
+            seed: request.seed,
+            steps: request.steps,
+            guidanceScale: request.guidanceScale,
+            safetyChecker: request.safety !== 'off',
+            style: request.style,
+            onProgress: request.onProgress && falProgressMessage(request.onProgress),
+            projectId: request.projectId,
+            signal: request.signal
+        }),
+};
+
+// Offline and deterministic: every request yields the fixed placeholder page for its aspect ratio
+const mockProvider: ImageProvider = {
+    id: 'mock',
+    label: 'モック',
+    capabilities: () => ({ referenceImages: true, sizeControl: true, seed: true, negativePrompt: true, steps: true, guidance: true, safety: true, inpainting: true }),
+    checkConfig: () => null,
+    generate: async (request) => generateMockImage(request),
+    // The placeholder again; only its masked part ends up on the page
+    edit: async (request) => generateMockImage(request),
+};
+
+export const IMAGE_PROVIDERS: Record<ImageProviderId, ImageProvider> = {
+    gemini: geminiProvider,
+    fal: falProvider,
+    mock: mockProvider,
+};
+
+export function getImageProvider(id: ImageProviderId): ImageProvider {
+    const provider = IMAGE_PROVIDERS[id];
+    if (!provider) throw new Error(`Unknown image provider: ${id}`);
+    return provider;
+}
+
+// The subset of the parameters a provider actually accepts; this is what gets recorded on a page
+export function supportedParams(id: ImageProviderId, params: GenerationParams, ctx: ProviderContext): GenerationParams {
+    const capabilities = getImageProvider(id).capabilities(ctx);
+    return {
+        seed: capabilities.seed ? params.seed : undefined,
+        steps: capabilities.steps ? params.steps : undefined,
+        guidanceScale: capabilities.guidance ? params.guidanceScale : undefined,
+        negativePrompt: capabilities.negativePrompt ? params.negativePrompt : undefined,
+        safety: capabilities.safety ? params.safety : undefined,
+        planningTemperature: params.planningTemperature,
+        styleId: params.styleId,
+    };
+}
+
+// Drop inputs the provider can't use so they never leak into a request
+function supportedRequest(provider: ImageProvider, request: ImageRequest, ctx: ProviderContext): ImageRequest {
+    const params = supportedParams(provider.id, request, ctx);
+    return {
+        ...request,
+        seed: params.seed,
+        steps: params.steps,
+        guidanceScale: params.guidanceScale,
+        negativePrompt: params.negativePrompt,
+        safety: params.safety,
+        referenceImages: provider.capabilities(ctx).referenceImages ? request.referenceImages : [],
+    };
+}
+
+// Generate through the registry and normalize failures
+export async function generateWithProvider(id: ImageProviderId, request: ImageRequest, ctx: ProviderContext): Promise<Blob> {
+    const provider = getImageProvider(id);
+    try {
+        return await provider.generate(supportedRequest(provider, request, ctx), ctx);
+    } catch (err) {
+        throw normalizeImageError(id, err);
+    }
+}
+
+// `count` takes of the same request, batched when the provider can. Repeated single requests
+// step the seed so the takes differ; each take reports the seed it was made with.
+export async function generateVariations(
+    id: ImageProviderId,
+    request: ImageRequest,
+    count: number,
+    ctx: ProviderContext
+): Promise<{ data: Blob; seed?: number }[]> {
+    const provider = getImageProvider(id);
+    const supported = supportedRequest(provider, request, ctx);
+    try {
+        if (provider.generateMany) {
+            const images = await provider.generateMany(supported, count, ctx);
+            return images.map(data => ({ data, seed: supported.seed }));
+        }
+        const images: { data: Blob; seed?: number }[] = [];
+        for (let i = 0; i < count; i++) {
+            const seed = supported.seed !== undefined ? supported.seed + i : undefined;
+            images.push({ data: await provider.generate({ ...supported, seed }, ctx), seed });
+        }
+        return images;
+    } catch (err) {
+        throw normalizeImageError(id, err);
+    }
+}
+
+// Region edit through the registry; parameters are filtered and failures normalized like generate()
+export async function editWithProvider(id: ImageProviderId, request: ImageEditRequest, ctx: ProviderContext): Promise<Blob> {
+    const provider = getImageProvider(id);
+    if (!provider.edit || !provider.capabilities(ctx).inpainting) {
+        throw new ImageProviderError(`${provider.label}は部分修正に対応していません`, id, 'invalid_request');
+    }
+    const params = supportedParams(id, request, ctx);
+    try {
+        return await provider.edit({
+            ...request,
+            seed: params.seed,
+            steps: params.steps,
+            guidanceScale: params.guidanceScale,
+            negativePrompt: params.negativePrompt,
+            safety: params.safety,
+        }, ctx);
+    } catch (err) {
+        throw normalizeImageError(id, err);
+    }
+}
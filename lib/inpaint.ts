@@ -0,0 +1,70 @@
+import { loadImageElement } from '@/lib/utils';
+
+// Region edits: the painted mask is sent to the provider as black / white, and the provider's
+// result is pasted back through the same mask so nothing outside the region changes.
+
+// True when anything has been painted on the mask canvas
+export function hasMask(mask: HTMLCanvasElement): boolean {
+    const ctx = mask.getContext('2d');
+    if (!ctx) return false;
+    const { data } = ctx.getImageData(0, 0, mask.width, mask.height);
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] > 0) return true;
+    }
+    return false;
+}
+
+// Painted area (any colour, alpha > 0) becomes white on black, as inpainting models expect. Base64 PNG.
+export function maskToBlackWhite(mask: HTMLCanvasElement): string {
+    const white = document.createElement('canvas');
+    white.width = mask.width;
+    white.height = mask.height;
+    const whiteCtx = white.getContext('2d');
+    if (!whiteCtx) throw new Error('Canvas is not supported');
+    whiteCtx.drawImage(mask, 0, 0);
+    whiteCtx.globalCompositeOperation = 'source-in';
+    whiteCtx.fillStyle = '#ffffff';
+    whiteCtx.fillRect(0, 0, white.width, white.height);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = mask.width;
+    canvas.height = mask.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported');
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(white, 0, 0);
+    return canvas.toDataURL('image/png').split(',')[1];
+}
+
+// Paste the edited image over the original inside the mask, with a soft edge. Resolves to base64 PNG.
+export async function compositeMasked(
+    originalUrl: string,
+    editedUrl: string,
+    mask: HTMLCanvasElement,
+    feather = 8
+): Promise<string> {
+    const [original, edited] = await Promise.all([loadImageElement(originalUrl), loadImageElement(editedUrl)]);
+    const width = original.naturalWidth;
+    const height = original.naturalHeight;
+
+    // Providers may return another size; the edit is stretched back onto the page
+    const layer = document.createElement('canvas');
+    layer.width = width;
+    layer.height = height;
+    const layerCtx = layer.getContext('2d');
+    if (!layerCtx) throw new Error('Canvas is not supported');
+    layerCtx.drawImage(edited, 0, 0, width, height);
+    layerCtx.globalCompositeOperation = 'destination-in';
+    layerCtx.filter = feather > 0 ? `blur(${feather}px)` : 'none';
+    layerCtx.drawImage(mask, 0, 0, width, height);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported');
+    ctx.drawImage(original, 0, 0);
+    ctx.drawImage(layer, 0, 0);
+    return canvas.toDataURL('image/png').split(',')[1];
+}
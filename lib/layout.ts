@@ -0,0 +1,266 @@
+import { loadImageElement } from '@/lib/utils';
+
+// Panel layout engine: page templates and custom grids in normalized coordinates, placed on a
+// page with margins, gutters, borders and bleed, and composited from separately generated panels.
+
+export type Point = [number, number];
+
+// Panel outline inside the live area, (0,0) top-left to (1,1) bottom-right. Panels must be convex.
+export interface LayoutPanel {
+    points: Point[];
+    bleed?: boolean; // edges on the live area boundary run off the page
+}
+
+export interface PanelLayout {
+    id: string;
+    name: string;
+    panels: LayoutPanel[];
+}
+
+// Custom grid: relative row heights, each row with relative column widths
+export interface GridRow {
+    height: number;
+    columns: number[];
+}
+
+export interface LayoutSettings {
+    templateId: string; // a LAYOUT_TEMPLATES id or 'custom'
+    grid: GridRow[];
+    gutter: number; // px between panels
+    margin: number; // px from the trim edge to the live area
+    border: number; // panel border width in px
+    bleed: number; // px added outside the trim edge on every side
+}
+
+export interface PlacedPanel {
+    polygon: Point[]; // px on the page canvas
+    box: { x: number; y: number; width: number; height: number };
+    aspectRatio: string; // closest ratio the providers accept
+}
+
+const PAGE_WIDTH = 1600; // trim width in px
+
+// A composited page keeps its panel prompts in the page prompt, one block per panel
+export const PANEL_SEPARATOR = '\n\n---\n\n';
+
+export function splitPanelPrompts(prompt: string): string[] {
+    return prompt.split(PANEL_SEPARATOR).map(p => p.trim()).filter(Boolean);
+}
+
+// Ratios offered in the Workspace, which every provider understands
+const PANEL_RATIOS = ['1:1', '2:3', '3:2', '9:16', '16:9'];
+
+function rect(x: number, y: number, width: number, height: number, bleed = false): LayoutPanel {
+    return { points: [[x, y], [x + width, y], [x + width, y + height], [x, y + height]], bleed };
+}
+
+export const LAYOUT_TEMPLATES: PanelLayout[] = [
+    {
+        id: 'yonkoma',
+        name: '4コマ',
+        panels: [0, 1, 2, 3].map(i => rect(0, i / 4, 1, 1 / 4)),
+    },
+    {
+        id: 'three-tier',
+        name: '3段',
+        panels: [
+            rect(0, 0, 0.6, 1 / 3), rect(0.6, 0, 0.4, 1 / 3),
+            rect(0, 1 / 3, 1, 1 / 3),
+            rect(0, 2 / 3, 0.4, 1 / 3), rect(0.4, 2 / 3, 0.6, 1 / 3),
+        ],
+    },
+    {
+        id: 'splash',
+        name: '大ゴマ (裁ち切り)',
+        panels: [rect(0, 0, 1, 1, true)],
+    },
+    {
+        id: 'diagonal',
+        name: '斜めコマ',
+        panels: [
+            { points: [[0, 0], [1, 0], [1, 0.3], [0, 0.4]] },
+            { points: [[0, 0.4], [0.62, 0.338], [0.42, 0.678], [0, 0.72]] },
+            { points: [[0.62, 0.338], [1, 0.3], [1, 0.62], [0.42, 0.678]] },
+            { points: [[0, 0.72], [1, 0.62], [1, 1], [0, 1]] },
+        ],
+    },
+];
+
+export const DEFAULT_GRID: GridRow[] = [
+    { height: 1, columns: [1, 1] },
+    { height: 1, columns: [1] },
+    { height: 1, columns: [1, 1] },
+];
+
+export const DEFAULT_LAYOUT_SETTINGS: LayoutSettings = {
+    templateId: 'three-tier',
+    grid: DEFAULT_GRID,
+    gutter: 24,
+    margin: 60,
+    border: 6,
+    bleed: 0,
+};
+
+export function gridLayout(rows: GridRow[], id = 'custom', name = 'カスタム'): PanelLayout {
+    const totalHeight = rows.reduce((sum, row) => sum + row.height, 0) || 1;
+    const panels: LayoutPanel[] = [];
+    let y = 0;
+    for (const row of rows) {
+        const height = row.height / totalHeight;
+        const totalWidth = row.columns.reduce((sum, w) => sum + w, 0) || 1;
+        let x = 0;
+        for (const column of row.columns) {
+            const width = column / totalWidth;
+            panels.push(rect(x, y, width, height));
+            x += width;
+        }
+        y += height;
+    }
+    return { id, name, panels };
+}
+
+// Rows of two panels; an odd panel out gets a full-width row in the middle of the page
+export function autoLayout(count: number): PanelLayout {
+    const columns: number[] = Array(Math.floor(count / 2)).fill(2);
+    if (count % 2 === 1) columns.splice(Math.floor(columns.length / 2), 0, 1);
+    return gridLayout(columns.map(n => ({ height: 1, columns: Array(n).fill(1) })), 'auto', '自動');
+}
+
+// The chosen layout, or an automatic grid when its panel count doesn't match the page
+export function resolveLayout(settings: LayoutSettings, panelCount: number): PanelLayout {
+    const layout = settings.templateId === 'custom'
+        ? gridLayout(settings.grid)
+        : LAYOUT_TEMPLATES.find(t => t.id === settings.templateId);
+    return layout && layout.panels.length === panelCount ? layout : autoLayout(panelCount);
+}
+
+export function layoutPanelCount(settings: LayoutSettings): number | undefined {
+    if (settings.templateId === 'custom') return gridLayout(settings.grid).panels.length;
+    return LAYOUT_TEMPLATES.find(t => t.id === settings.templateId)?.panels.length;
+}
+
+// Canvas size for a page ratio, bleed included
+export function pageSize(aspectRatio: string, settings: LayoutSettings): { width: number; height: number } {
+    const [w, h] = aspectRatio.split(':').map(Number);
+    const trimHeight = Math.round(PAGE_WIDTH * (h || 3) / (w || 2));
+    return { width: PAGE_WIDTH + settings.bleed * 2, height: trimHeight + settings.bleed * 2 };
+}
+
+function closestRatio(width: number, height: number): string {
+    const target = Math.log(width / height);
+    return PANEL_RATIOS.reduce((best, ratio) => {
+        const [w, h] = ratio.split(':').map(Number);
+        const [bw, bh] = best.split(':').map(Number);
+        return Math.abs(Math.log(w / h) - target) < Math.abs(Math.log(bw / bh) - target) ? ratio : best;
+    });
+}
+
+// Grid fractions don't always add up to exactly 1
+function onBoundary(p: Point, q: Point): boolean {
+    const edge = (a: number, b: number) => [0, 1].some(v => Math.abs(a - v) < 1e-6 && Math.abs(b - v) < 1e-6);
+    return edge(p[0], q[0]) || edge(p[1], q[1]);
+}
+
+// Move every edge of a convex polygon inwards by its own distance (negative = outwards)
+function offsetPolygon(points: Point[], distances: number[]): Point[] {
+    const cx = points.reduce((sum, p) => sum + p[0], 0) / points.length;
+    const cy = points.reduce((sum, p) => sum + p[1], 0) / points.length;
+
+    const lines = points.map((p, i) => {
+        const q = points[(i + 1) % points.length];
+        const length = Math.hypot(q[0] - p[0], q[1] - p[1]) || 1;
+        const d: Point = [(q[0] - p[0]) / length, (q[1] - p[1]) / length];
+        let n: Point = [-d[1], d[0]];
+        if (n[0] * (cx - p[0]) + n[1] * (cy - p[1]) < 0) n = [-n[0], -n[1]];
+        return { p: [p[0] + n[0] * distances[i], p[1] + n[1] * distances[i]] as Point, d };
+    });
+
+    return lines.map((line, i) => {
+        const prev = lines[(i - 1 + lines.length) % lines.length];
+        const cross = prev.d[0] * line.d[1] - prev.d[1] * line.d[0];
+        if (Math.abs(cross) < 1e-9) return line.p;
+        const t = ((line.p[0] - prev.p[0]) * line.d[1] - (line.p[1] - prev.p[1]) * line.d[0]) / cross;
+        return [prev.p[0] + prev.d[0] * t, prev.p[1] + prev.d[1] * t] as Point;
+    });
+}
+
+// Panel outlines in page pixels: interior edges give up half a gutter each,
+// boundary edges of bleed panels run out to the canvas edge
+export function placePanels(layout: PanelLayout, settings: LayoutSettings, size: { width: number; height: number }): PlacedPanel[] {
+    const live = {
+        x: settings.bleed + settings.margin,
+        y: settings.bleed + settings.margin,
+        width: size.width - 2 * (settings.bleed + settings.margin),
+        height: size.height - 2 * (settings.bleed + settings.margin),
+    };
+
+    return layout.panels.map(panel => {
+        const pixels = panel.points.map(([u, v]) => [live.x + u * live.width, live.y + v * live.height] as Point);
+        const distances = panel.points.map((p, i) => {
+            const q = panel.points[(i + 1) % panel.points.length];
+            if (!onBoundary(p, q)) return settings.gutter / 2;
+            return panel.bleed ? -(settings.margin + settings.bleed) : 0;
+        });
+        const polygon = offsetPolygon(pixels, distances);
+
+        const xs = polygon.map(p => p[0]);
+        const ys = polygon.map(p => p[1]);
+        const box = {
+            x: Math.min(...xs),
+            y: Math.min(...ys),
+            width: Math.max(...xs) - Math.min(...xs),
+            height: Math.max(...ys) - Math.min(...ys),
+        };
+        return { polygon, box, aspectRatio: closestRatio(box.width, box.height) };
+    });
+}
+
+// Draw each panel image cover-fitted into its outline, then the borders. Resolves to base64 PNG.
+export async function composePage(
+    panelUrls: string[],
+    placed: PlacedPanel[],
+    settings: LayoutSettings,
+    size: { width: number; height: number }
+): Promise<string> {
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width;
+    canvas.height = size.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported');
+
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, size.width, size.height);
+
+    const images = await Promise.all(panelUrls.map(loadImageElement));
+    const tracePath = (polygon: Point[]) => {
+        ctx.beginPath();
+        polygon.forEach(([x, y], i) => i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y));
+        ctx.closePath();
+    };
+
+    placed.forEach((panel, i) => {
+        const img = images[i];
+        if (!img) return;
+        const scale = Math.max(panel.box.width / img.naturalWidth, panel.box.height / img.naturalHeight);
+        const width = img.naturalWidth * scale;
+        const height = img.naturalHeight * scale;
+
+        ctx.save();
+        tracePath(panel.polygon);
+        ctx.clip();
+        ctx.drawImage(img, panel.box.x + (panel.box.width - width) / 2, panel.box.y + (panel.box.height - height) / 2, width, height);
+        ctx.restore();
+    });
+
+    if (settings.border > 0) {
+        ctx.strokeStyle = '#000000';
+        ctx.lineWidth = settings.border;
+        ctx.lineJoin = 'miter';
+        placed.forEach(panel => {
+            tracePath(panel.polygon);
+            ctx.stroke();
+        });
+    }
+
+    return canvas.toDataURL('image/png').split(',')[1];
+}
@@ -0,0 +1,274 @@
+import { loadImageElement } from '@/lib/utils';
+
+// Lettering (speech bubbles and text) drawn over a generated page.
+// Positions and sizes are fractions of the page so the same layout works at any resolution.
+
+export type BubbleKind = 'round' | 'shout' | 'thought' | 'narration';
+
+export interface Bubble {
+    id: string;
+    kind: BubbleKind;
+    x: number; // left, 0-1 of page width
+    y: number; // top, 0-1 of page height
+    width: number; // 0-1 of page width
+    height: number; // 0-1 of page height
+    text: string; // Furigana uses ruby markup: ｜漢字《かんじ》 or 漢字《かんじ》
+    vertical: boolean; // Tategaki (top-to-bottom, right-to-left columns)
+    fontFamily: string;
+    fontSize: number; // 0-1 of page width
+}
+
+export const BUBBLE_KINDS: { value: BubbleKind; label: string }[] = [
+    { value: 'round', label: '通常' },
+    { value: 'shout', label: '叫び' },
+    { value: 'thought', label: '思考' },
+    { value: 'narration', label: 'ナレーション' },
+];
+
+// Plain CSS font stacks so the same value works in the DOM and on a canvas
+export const FONT_OPTIONS: { value: string; label: string }[] = [
+    { value: '"Hiragino Sans", "Noto Sans JP", "Yu Gothic", sans-serif', label: 'ゴシック' },
+    { value: '"Hiragino Mincho ProN", "Noto Serif JP", "Yu Mincho", serif', label: '明朝' },
+    { value: '"Hiragino Maru Gothic ProN", "M PLUS Rounded 1c", "Kosugi Maru", sans-serif', label: '丸ゴシック' },
+    { value: '"Klee One", "Comic Sans MS", cursive', label: '手書き風' },
+];
+
+export function createBubble(patch: Partial<Bubble> = {}): Bubble {
+    return {
+        id: crypto.randomUUID(),
+        kind: 'round',
+        x: 0.35,
+        y: 0.1,
+        width: 0.18,
+        height: 0.28,
+        text: '',
+        vertical: true,
+        fontFamily: FONT_OPTIONS[0].value,
+        fontSize: 0.028,
+        ...patch,
+    };
+}
+
+// --- Ruby (furigana) ---
+
+export interface TextSegment {
+    text: string;
+    ruby?: string;
+}
+
+// Matches ｜base《ruby》 (explicit base) or a run of kanji followed by 《ruby》
+const RUBY_PATTERN = /[｜|]([^｜|《》\n]+)《([^》\n]+)》|([一-鿿々〆ヶ]+)《([^》\n]+)》/g;
+
+export function parseRuby(line: string): TextSegment[] {
+    const segments: TextSegment[] = [];
+    let lastIndex = 0;
+    for (const match of line.matchAll(RUBY_PATTERN)) {
+        const index = match.index ?? 0;
+        if (index > lastIndex) segments.push({ text: line.slice(lastIndex, index) });
+        segments.push({ text: match[1] ?? match[3], ruby: match[2] ?? match[4] });
+        lastIndex = index + match[0].length;
+    }
+    if (lastIndex < line.length) segments.push({ text: line.slice(lastIndex) });
+    return segments;
+}
+
+// --- Bubble shapes ---
+
+// SVG path for a bubble of the given pixel size. Used for the DOM overlay and (via Path2D) for export.
+export function bubblePath(kind: BubbleKind, w: number, h: number): string {
+    const cx = w / 2;
+    const cy = h / 2;
+
+    if (kind === 'narration') {
+        return `M 0 0 H ${w} V ${h} H 0 Z`;
+    }
+
+    if (kind === 'shout') {
+        const spikes = 16;
+        const points: string[] = [];
+        for (let i = 0; i < spikes * 2; i++) {
+            const angle = (Math.PI * i) / spikes;
+            const r = i % 2 === 0 ? 1 : 0.78;
+            points.push(`${cx + Math.cos(angle) * cx * r} ${cy + Math.sin(angle) * cy * r}`);
+        }
+        return `M ${points.join(' L ')} Z`;
+    }
+
+    if (kind === 'thought') {
+        // Scalloped cloud: arcs bulging outward between points on a slightly smaller ellipse
+        const bumps = 11;
+        const points = Array.from({ length: bumps }, (_, i) => {
+            const angle = (2 * Math.PI * i) / bumps;
+            return [cx + Math.cos(angle) * cx * 0.86, cy + Math.sin(angle) * cy * 0.86];
+        });
+        const r = (Math.PI * Math.max(w, h) * 0.86) / bumps / 1.6;
+        let d = `M ${points[0][0]} ${points[0][1]}`;
+        for (let i = 1; i <= bumps; i++) {
+            const [x, y] = points[i % bumps];
+            d += ` A ${r} ${r} 0 0 1 ${x} ${y}`;
+        }
+        return d + ' Z';
+    }
+
+    // round
+    return `M 0 ${cy} A ${cx} ${cy} 0 1 0 ${w} ${cy} A ${cx} ${cy} 0 1 0 0 ${cy} Z`;
+}
+
+// Inner box (in bubble pixels) the text is laid out in, keeping clear of the curved outline
+export function textInsets(kind: BubbleKind, w: number, h: number) {
+    const ratio = kind === 'narration' ? 0.08 : kind === 'shout' ? 0.24 : 0.18;
+    return { x: w * ratio, y: h * ratio, width: w * (1 - ratio * 2), height: h * (1 - ratio * 2) };
+}
+
+// --- Canvas export ---
+
+// Characters that are rotated a quarter turn when set vertically
+const ROTATED_IN_VERTICAL = 'ー―－～〜…‥「」『』（）()【】〈〉《》[]-~';
+// Small punctuation that sits in the upper right of its cell when set vertically
+const SHIFTED_IN_VERTICAL = '、。，．';
+
+function drawVerticalText(ctx: CanvasRenderingContext2D, bubble: Bubble, box: { x: number; y: number; width: number; height: number }, fontSize: number) {
+    const step = fontSize * 1.05;
+    const columnGap = fontSize * 1.6; // room for ruby beside each column
+    const perColumn = Math.max(1, Math.floor(box.height / step));
+
+    // Break lines into columns first so the block can be centered horizontally
+    const columns: { char: string; ruby?: string; rubyStart?: boolean; rubyLength?: number }[][] = [];
+    for (const line of bubble.text.split('\n')) {
+        let column: (typeof columns)[number] = [];
+        for (const segment of parseRuby(line)) {
+            const chars = Array.from(segment.text);
+            chars.forEach((char, i) => {
+                if (column.length >= perColumn) {
+                    columns.push(column);
+                    column = [];
+                }
+                column.push(segment.ruby
+                    ? { char, ruby: segment.ruby, rubyStart: i === 0, rubyLength: chars.length }
+                    : { char });
+            });
+        }
+        columns.push(column);
+    }
+
+    const blockWidth = columns.length * columnGap;
+    let x = box.x + (box.width + blockWidth) / 2 - columnGap / 2;
+
+    for (const column of columns) {
+        const columnHeight = column.length * step;
+        let y = box.y + Math.max(0, (box.height - columnHeight) / 2);
+
+        column.forEach((cell) => {
+            ctx.font = `${fontSize}px ${bubble.fontFamily}`;
+            if (ROTATED_IN_VERTICAL.includes(cell.char)) {
+                ctx.save();
+                ctx.translate(x, y + step / 2);
+                ctx.rotate(Math.PI / 2);
+                ctx.fillText(cell.char, 0, 0);
+                ctx.restore();
+            } else if (SHIFTED_IN_VERTICAL.includes(cell.char)) {
+                ctx.fillText(cell.char, x + fontSize * 0.6, y + step / 2 - fontSize * 0.55);
+            } else {
+                ctx.fillText(cell.char, x, y + step / 2);
+            }
+
+            // Ruby is spread along the base characters on the right side of the column
+            if (cell.ruby && cell.rubyStart && cell.rubyLength) {
+                const rubyChars = Array.from(cell.ruby);
+                const rubySize = fontSize * 0.5;
+                const span = cell.rubyLength * step;
+                const rubyStep = Math.min(span / rubyChars.length, rubySize * 1.1);
+                let ry = y + (span - rubyStep * rubyChars.length) / 2;
+                ctx.font = `${rubySize}px ${bubble.fontFamily}`;
+                rubyChars.forEach(rc => {
+                    ctx.fillText(rc, x + fontSize * 0.8, ry + rubyStep / 2);
+                    ry += rubyStep;
+                });
+            }
+            y += step;
+        });
+        x -= columnGap;
+    }
+}
+
+function drawHorizontalText(ctx: CanvasRenderingContext2D, bubble: Bubble, box: { x: number; y: number; width: number; height: number }, fontSize: number) {
+    const lineHeight = fontSize * 1.7; // room for ruby above each line
+    const lines = bubble.text.split('\n');
+    let y = box.y + Math.max(0, (box.height - lines.length * lineHeight) / 2) + lineHeight * 0.6;
+
+    for (const line of lines) {
+        const segments = parseRuby(line);
+        ctx.font = `${fontSize}px ${bubble.fontFamily}`;
+        const lineWidth = segments.reduce((sum, seg) => sum + ctx.measureText(seg.text).width, 0);
+        let x = box.x + (box.width - lineWidth) / 2;
+
+        for (const segment of segments) {
+            ctx.font = `${fontSize}px ${bubble.fontFamily}`;
+            const width = ctx.measureText(segment.text).width;
+            ctx.textAlign = 'left';
+            ctx.fillText(segment.text, x, y);
+            if (segment.ruby) {
+                ctx.font = `${fontSize * 0.5}px ${bubble.fontFamily}`;
+                ctx.textAlign = 'center';
+                ctx.fillText(segment.ruby, x + width / 2, y - fontSize * 0.9);
+            }
+            x += width;
+        }
+        y += lineHeight;
+    }
+    ctx.textAlign = 'center';
+}
+
+export function drawLettering(ctx: CanvasRenderingContext2D, bubbles: Bubble[], width: number, height: number) {
+    for (const bubble of bubbles) {
+        const bx = bubble.x * width;
+        const by = bubble.y * height;
+        const bw = bubble.width * width;
+        const bh = bubble.height * height;
+
+        ctx.save();
+        ctx.translate(bx, by);
+        const path = new Path2D(bubblePath(bubble.kind, bw, bh));
+        ctx.fillStyle = '#ffffff';
+        ctx.strokeStyle = '#000000';
+        ctx.lineWidth = Math.max(2, width * 0.0025);
+        ctx.lineJoin = 'round';
+        ctx.fill(path);
+        ctx.stroke(path);
+        ctx.restore();
+
+        if (!bubble.text.trim()) continue;
+
+        const inset = textInsets(bubble.kind, bw, bh);
+        const box = { x: bx + inset.x, y: by + inset.y, width: inset.width, height: inset.height };
+        const fontSize = bubble.fontSize * width;
+
+        ctx.save();
+        ctx.fillStyle = '#000000';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        if (bubble.vertical) {
+            drawVerticalText(ctx, bubble, box, fontSize);
+        } else {
+            ctx.textBaseline = 'alphabetic';
+            drawHorizontalText(ctx, bubble, box, fontSize);
+        }
+        ctx.restore();
+    }
+}
+
+// Flatten the lettering onto the artwork and return a PNG data URL
+export async function flattenLettering(imageUrl: string, bubbles: Bubble[]): Promise<string> {
+    if (bubbles.length === 0) return imageUrl;
+
+    const img = await loadImageElement(imageUrl);
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported');
+
+    ctx.drawImage(img, 0, 0);
+    drawLettering(ctx, bubbles, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png');
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it, vi } from 'vitest';
+import responses from '@/lib/__fixtures__/gemini-responses.json';
+import { ContentModel, ContentRequest, generateStructured } from '@/lib/llm';
+import { STORYBOARD_SCHEMA, STRING_LIST_SCHEMA } from '@/lib/structured-output';
+import { validateStoryboard } from '@/lib/storyboard';
+
+// Edited prompt versions live on disk; the tests use the built-in templates
+vi.mock('@/lib/prompt-store', async () => {
+    const { PROMPT_TEMPLATES, renderTemplate } = await import('@/lib/prompts');
+    return {
+        renderActivePrompt: async (id: keyof typeof PROMPT_TEMPLATES, variables: Record<string, string>) =>
+            renderTemplate(PROMPT_TEMPLATES[id].text, variables),
+    };
+});
+
+// Plays back recorded responses in order and keeps the requests it was sent
+function recordedModel(texts: string[]) {
+    const requests: ContentRequest[] = [];
+    const model: ContentModel = {
+        provider: 'google',
+        generate: async request => {
+            requests.push(request);
+            const text = texts.shift();
+            if (text === undefined) throw new Error('No recorded response left');
+            return { text, images: [] };
+        },
+    };
+    return { model, requests };
+}
+
+const request: ContentRequest = { model: 'gemini-test', parts: [{ text: 'Plan two pages' }] };
+
+describe('generateStructured', () => {
+    it('returns a valid first response without a repair', async () => {
+        const { model, requests } = recordedModel([responses.promptListWithCommentary]);
+        await expect(generateStructured<string[]>(model, request, STRING_LIST_SCHEMA)).resolves.toHaveLength(2);
+        expect(requests).toHaveLength(1);
+        expect(requests[0].schema).toBe(STRING_LIST_SCHEMA);
+    });
+
+    it('sends a malformed response back with its problems and uses the repaired one', async () => {
+        const { model, requests } = recordedModel([responses.promptListTruncated, responses.promptListFenced]);
+        const prompts = await generateStructured<string[]>(model, request, STRING_LIST_SCHEMA);
+
+        expect(prompts[0]).toBe('Page 1: A girl finds a glowing key on the beach at dusk.');
+        expect(requests).toHaveLength(2);
+        const repair = requests[1];
+        expect(repair.model).toBe('gemini-test');
+        expect(repair.temperature).toBe(0);
+        expect(repair.parts).toHaveLength(1);
+        expect((repair.parts[0] as { text: string }).text).toContain('- not valid JSON');
+        expect((repair.parts[0] as { text: string }).text).toContain(responses.promptListTruncated);
+    });
+
+    it('repairs output that normalize rejects', async () => {
+        const { model, requests } = recordedModel([responses.storyboardBlankDescription, responses.storyboardValid]);
+        const pages = await generateStructured(model, request, STORYBOARD_SCHEMA, { normalize: validateStoryboard });
+
+        expect(pages).toHaveLength(2);
+        expect((requests[1].parts[0] as { text: string }).text).toContain('page 1, panel 1 has no description');
+    });
+
+    it('gives up with the failure message once the repairs run out', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const { model, requests } = recordedModel([responses.promptListWrongShape, responses.promptListTruncated, responses.promptListWrongShape]);
+
+        await expect(generateStructured(model, request, STRING_LIST_SCHEMA, { repairs: 2, failure: 'No plan' })).rejects.toThrow('No plan');
+        expect(requests).toHaveLength(3);
+    });
+});
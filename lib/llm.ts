@@ -0,0 +1,267 @@
+import { GoogleGenerativeAI, Part as GooglePart, SchemaType as GoogleSchemaType, GenerationConfig as GoogleGenerationConfig, SafetySetting as GoogleSafetySetting } from '@google/generative-ai';
+import { VertexAI, VertexInit, Part as VertexPart, SchemaType as VertexSchemaType, GenerationConfig as VertexGenerationConfig, SafetySetting as VertexSafetySetting } from '@google-cloud/vertexai';
+import { PredictionServiceClient, helpers } from '@google-cloud/aiplatform';
+import type { GeminiConfig, GeminiProvider, ImageGenerationOptions } from '@/app/actions/gemini';
+import type { SafetyLevel } from '@/lib/generation';
+import type { UsageRecord } from '@/lib/usage';
+import { tracked } from '@/lib/usage-log';
+import { resolveProfile } from '@/lib/vault';
+import { renderActivePrompt } from '@/lib/prompt-store';
+import { Schema, StructuredOutputError, parseStructured, toResponseSchema } from '@/lib/structured-output';
+
+// Server-side generation core. Google AI Studio and Vertex AI sit behind one thin adapter
+// (a single generateContent call each); text, structured output and images are built on top.
+// Only import this from Server Actions; the adapters hold the credentials.
+
+export type ContentPart = { text: string } | { inlineData: { data: string; mimeType: string } };
+
+export interface ContentRequest {
+    model: string;
+    parts: ContentPart[];
+    temperature?: number;
+    maxOutputTokens?: number;
+    safety?: SafetyLevel;
+    schema?: Schema; // asks for JSON of this shape
+}
+
+export interface ContentResponse {
+    text: string;
+    images: { data: string; mimeType: string }[]; // base64
+}
+
+export type UsageContext = Pick<UsageRecord, 'kind' | 'projectId'>;
+
+export interface ContentModel {
+    provider: GeminiProvider;
+    generate: (request: ContentRequest, usage: UsageContext) => Promise<ContentResponse>;
+}
+
+export function imagePart(image: { base64: string; type: string }): ContentPart {
+    return { inlineData: { data: image.base64, mimeType: image.type } };
+}
+
+// Google AI Studio key from a credential profile
+export async function geminiApiKey(profile?: string): Promise<string> {
+    const { geminiApiKey } = await resolveProfile(profile);
+    if (!geminiApiKey) throw new Error("Gemini API Key is required for Google AI Studio provider.");
+    return geminiApiKey;
+}
+
+// Service account JSON from GOOGLE_VERTEX_CREDENTIALS (stringified, e.g. on Vercel); undefined falls back to ADC
+export function vertexCredentials(): Record<string, string> | undefined {
+    const envCredentials = process.env.GOOGLE_VERTEX_CREDENTIALS;
+    if (!envCredentials) return undefined;
+    try {
+        return JSON.parse(envCredentials);
+    } catch (e) {
+        console.error("Failed to parse GOOGLE_VERTEX_CREDENTIALS", e);
+        return undefined;
+    }
+}
+
+function createVertexAI(config: GeminiConfig): VertexAI {
+    if (!config.projectId || !config.location) {
+        throw new Error("Project ID and Location are required for Vertex AI provider.");
+    }
+    const vertexOptions: VertexInit = {
+        project: config.projectId,
+        location: config.location,
+    };
+
+    const credentials = vertexCredentials();
+    if (credentials) {
+        vertexOptions.googleAuthOptions = { credentials };
+    }
+
+    return new VertexAI(vertexOptions);
+}
+
+// Same threshold for every harm category; 'default' leaves the API defaults in place
+function safetySettings(safety?: SafetyLevel) {
+    if (!safety || safety === 'default') return undefined;
+    const threshold = safety === 'strict' ? 'BLOCK_LOW_AND_ABOVE' : 'BLOCK_NONE';
+    return [
+        'HARM_CATEGORY_HARASSMENT',
+        'HARM_CATEGORY_HATE_SPEECH',
+        'HARM_CATEGORY_SEXUALLY_EXPLICIT',
+        'HARM_CATEGORY_DANGEROUS_CONTENT',
+    ].map(category => ({ category, threshold }));
+}
+
+// Both SDKs return the same candidate structure
+interface SdkResponse {
+    usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+    candidates?: { content?: { parts?: { text?: string; inlineData?: { data: string; mimeType: string } }[] } }[];
+}
+
+function readResponse(response: SdkResponse): ContentResponse {
+    const parts = response.candidates?.[0]?.content?.parts || [];
+    return {
+        text: parts.map(part => part.text || '').join(''),
+        images: parts.flatMap(part => part.inlineData?.mimeType.startsWith('image/') ? [part.inlineData] : []),
+    };
+}
+
+// Token and image counts for the usage log
+function responseUsage({ response }: { response: SdkResponse }) {
+    return {
+        inputTokens: response.usageMetadata?.promptTokenCount,
+        outputTokens: response.usageMetadata?.candidatesTokenCount,
+        images: readResponse(response).images.length,
+    };
+}
+
+// The SDKs type the config separately; the callers cast to their own GenerationConfig
+function generationConfig(request: ContentRequest, schemaType: typeof GoogleSchemaType | typeof VertexSchemaType): Record<string, unknown> {
+    return {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxOutputTokens,
+        ...(request.schema ? { responseMimeType: 'application/json', responseSchema: toResponseSchema(request.schema, schemaType) } : {}),
+    };
+}
+
+export async function contentModel(config: GeminiConfig): Promise<ContentModel> {
+    if (config.provider === 'google') {
+        const genAI = new GoogleGenerativeAI(await geminiApiKey(config.profile));
+        return {
+            provider: 'google',
+            generate: async (request, usage) => {
+                const model = genAI.getGenerativeModel({
+                    model: request.model,
+                    generationConfig: generationConfig(request, GoogleSchemaType) as GoogleGenerationConfig,
+                    safetySettings: safetySettings(request.safety) as GoogleSafetySetting[] | undefined
+                });
+                const result = await tracked(
+                    { provider: 'google', model: request.model, ...usage },
+                    () => model.generateContent({ contents: [{ role: 'user', parts: request.parts as GooglePart[] }] }),
+                    responseUsage
+                );
+                return readResponse(result.response);
+            },
+        };
+    }
+
+    if (config.provider === 'vertex') {
+        const vertexAI = createVertexAI(config);
+        return {
+            provider: 'vertex',
+            generate: async (request, usage) => {
+                const model = vertexAI.getGenerativeModel({
+                    model: request.model,
+                    generationConfig: generationConfig(request, VertexSchemaType) as VertexGenerationConfig,
+                    safetySettings: safetySettings(request.safety) as VertexSafetySetting[] | undefined
+                });
+                const result = await tracked(
+                    { provider: 'vertex', model: request.model, ...usage },
+                    () => model.generateContent({ contents: [{ role: 'user', parts: request.parts as VertexPart[] }] }),
+                    responseUsage
+                );
+                return readResponse(result.response);
+            },
+        };
+    }
+
+    throw new Error("Invalid provider");
+}
+
+export async function generateText(model: ContentModel, request: ContentRequest, usage: UsageContext = { kind: 'text' }): Promise<string> {
+    return (await model.generate(request, usage)).text;
+}
+
+// JSON output checked against `schema`. A response that doesn't parse or match (or that
+// `normalize` rejects) goes back to the model with the problems listed, up to `repairs` times.
+export async function generateStructured<T>(
+    model: ContentModel,
+    request: ContentRequest,
+    schema: Schema,
+    options: { normalize?: (value: unknown) => T; repairs?: number; failure?: string } = {}
+): Promise<T> {
+    const { normalize = (value: unknown) => value as T, repairs = 2, failure = "Failed to generate valid structured output" } = options;
+
+    let text = await generateText(model, { ...request, schema });
+    for (let attempt = 0; ; attempt++) {
+        try {
+            const value = parseStructured<unknown>(text, schema);
+            try {
+                return normalize(value);
+            } catch (err) {
+                throw new StructuredOutputError([err instanceof Error ? err.message : String(err)], text);
+            }
+        } catch (err) {
+            if (!(err instanceof StructuredOutputError)) throw err;
+            if (attempt >= repairs) {
+                console.error("Failed to parse structured output", text, err.problems);
+                throw new Error(failure);
+            }
+            const repairPrompt = await renderActivePrompt('repairJson', { errors: err.problems.map(p => `- ${p}`).join('\n'), output: text });
+            text = await generateText(model, { model: request.model, parts: [{ text: repairPrompt }], temperature: 0, schema });
+        }
+    }
+}
+
+// Imagen only supports these ratios; the portrait / landscape page ratios map to the closest one
+const IMAGEN_ASPECT_RATIOS: Record<string, string> = {
+    '1:1': '1:1',
+    '2:3': '3:4',
+    '3:2': '4:3',
+    '3:4': '3:4',
+    '4:3': '4:3',
+    '9:16': '9:16',
+    '16:9': '16:9',
+};
+
+const IMAGEN_SAFETY: Record<SafetyLevel, string> = {
+    strict: 'block_low_and_above',
+    default: 'block_medium_and_above',
+    off: 'block_only_high', // block_none needs allowlisting on Imagen
+};
+
+// Vertex AI Imagen through the aiplatform `predict` endpoint. `prompt` is final (see imagePrompt).
+export async function generateImagenImages(
+    config: GeminiConfig,
+    modelName: string,
+    prompt: string,
+    options: ImageGenerationOptions
+): Promise<string[]> {
+    if (!config.projectId || !config.location) {
+        throw new Error("Project ID and Location are required for Vertex AI provider.");
+    }
+
+    const credentials = vertexCredentials();
+    const client = new PredictionServiceClient({
+        apiEndpoint: `${config.location}-aiplatform.googleapis.com`,
+        ...(credentials ? { credentials } : {})
+    });
+
+    const endpoint = `projects/${config.projectId}/locations/${config.location}/publishers/google/models/${modelName}`;
+    const instance = helpers.toValue({ prompt });
+    const parameters = helpers.toValue({
+        sampleCount: Math.min(Math.max(options.sampleCount || 1, 1), 4),
+        aspectRatio: IMAGEN_ASPECT_RATIOS[options.aspectRatio || '1:1'] || '1:1',
+        ...(options.negativePrompt ? { negativePrompt: options.negativePrompt } : {}),
+        // A fixed seed only takes effect with the invisible watermark turned off
+        ...(options.seed !== undefined ? { seed: options.seed, addWatermark: false } : {}),
+        personGeneration: config.personGeneration || 'allow_adult',
+        safetySetting: IMAGEN_SAFETY[options.safety || 'default'],
+    });
+
+    const [response] = await tracked(
+        { provider: 'vertex', model: modelName, kind: 'image', projectId: options.projectId },
+        () => client.predict({
+            endpoint,
+            instances: instance ? [instance] : [],
+            parameters
+        }),
+        ([result]) => ({ images: (result.predictions || []).filter(p => p.structValue?.fields?.bytesBase64Encoded).length })
+    );
+
+    const predictions = (response.predictions || [])
+        .map(prediction => helpers.fromValue(prediction as Parameters<typeof helpers.fromValue>[0]) as { bytesBase64Encoded?: string; raiFilteredReason?: string } | null);
+    const images = predictions.map(p => p?.bytesBase64Encoded).filter((b): b is string => !!b);
+
+    if (images.length === 0) {
+        const reason = predictions.find(p => p?.raiFilteredReason)?.raiFilteredReason;
+        throw new Error(reason ? `Imagen blocked the request (SAFETY): ${reason}` : "No image data found in Imagen response");
+    }
+    return images;
+}
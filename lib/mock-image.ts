@@ -0,0 +1,17 @@
+// Placeholder pages for the offline mock provider: one fixed PNG per aspect ratio (three panel
+// tiers at 1/16 of the real page size), so the mock runs without a DOM and never varies.
+
+import type { ImageRequest } from '@/lib/image-provider';
+import { base64ToBlob } from '@/lib/utils';
+
+const MOCK_PAGES: Record<string, string> = {
+    '1:1': 'iVBORw0KGgoAAAANSUhEUgAAAEAAAABACAAAAACPAi4CAAAAR0lEQVR42u3XsQ0AIAgEQPZf1SG0srISYoLJ/QCX0DwQs5hoAUQ6GxjJAAAAwAH0bqQAAACAG+BppZVHsJkAAMBfZ97nz/cCNsmhUoJuVeAAAAAASUVORK5CYII=',
+    '2:3': 'iVBORw0KGgoAAAANSUhEUgAAADQAAABMCAAAAAAHYsubAAAAQklEQVR42u3XsQ0AIAzEQO+/KkOQip5EEaTw99daenZhPEWkdtBKTCQSia7Q7xohEolEddSYMKZkWSQSibq7N/gcBz9lL36ZOhN4AAAAAElFTkSuQmCC',
+    '3:2': 'iVBORw0KGgoAAAANSUhEUgAAAEwAAAA0CAAAAAAFjYFbAAAARUlEQVR42u3XwQ0AIAzDQO+/KkPAiwGQImiFM8A9rZYZHKUxItvYCExMTKw41rkaiImJdccuJ4hHpRUTE/OkOurZB8/rAgsjCsZQmm5CAAAAAElFTkSuQmCC',
+    '9:16': 'iVBORw0KGgoAAAANSUhEUgAAADAAAABVCAAAAAAqUDiyAAAAQ0lEQVR42u3XsQ0AIAzEQO+/KkNARR8klE9h99e+EvZjtADKXbCKCQQCQRfIDBkCgUAQBF+Wj+x6CwQCwbAjcdjHfgDln6K/+6hmUgAAAABJRU5ErkJggg==',
+    '16:9': 'iVBORw0KGgoAAAANSUhEUgAAAFUAAAAwCAAAAABFp2lvAAAASUlEQVR42mP4TwvAMMRMZaAugJn6mppg1NRRU0dNHZKm0qZ0Gcgyi4Em4Tpq6qipo6YODlOHX5k1Wm+Nmjpq6mg7i8TSZWT3jgHdyN1TYUaD9wAAAABJRU5ErkJggg==',
+};
+
+export function generateMockImage(request: Pick<ImageRequest, 'aspectRatio'>): Blob {
+    return base64ToBlob(MOCK_PAGES[request.aspectRatio] || MOCK_PAGES['1:1'], 'image/png');
+}
@@ -0,0 +1,50 @@
+// Model choices for each task. Chosen on the Settings page and stored in localStorage
+// next to the API keys; anything left empty falls back to these defaults.
+
+export interface ModelSettings {
+    textModel: string; // prompt planning / storyboard
+    imageModel: string; // Gemini page rendering
+    visionModel: string; // character image analysis
+    falModel: string; // fal.ai endpoint id
+    falInpaintModel: string; // fal.ai endpoint for region edits
+}
+
+export const DEFAULT_MODELS: ModelSettings = {
+    textModel: 'gemini-3-flash-preview',
+    imageModel: 'gemini-3-pro-image-preview',
+    visionModel: 'gemini-3-flash-preview',
+    falModel: 'fal-ai/flux/dev',
+    falInpaintModel: 'fal-ai/flux-general/inpainting',
+};
+
+const STORAGE_KEYS: Record<keyof ModelSettings, string> = {
+    textModel: 'text_model',
+    imageModel: 'image_model',
+    visionModel: 'vision_model',
+    falModel: 'fal_model',
+    falInpaintModel: 'fal_inpaint_model',
+};
+
+export function loadModelSettings(): ModelSettings {
+    const read = (key: keyof ModelSettings) => localStorage.getItem(STORAGE_KEYS[key])?.trim() || DEFAULT_MODELS[key];
+    return {
+        textModel: read('textModel'),
+        imageModel: read('imageModel'),
+        visionModel: read('visionModel'),
+        falModel: read('falModel'),
+        falInpaintModel: read('falInpaintModel'),
+    };
+}
+
+export function saveModelSettings(settings: ModelSettings) {
+    for (const key of Object.keys(STORAGE_KEYS) as (keyof ModelSettings)[]) {
+        const value = settings[key].trim();
+        if (value) localStorage.setItem(STORAGE_KEYS[key], value);
+        else localStorage.removeItem(STORAGE_KEYS[key]);
+    }
+}
+
+// Imagen models are served through Vertex AI `predict`, not `generateContent`
+export function isImagenModel(model: string): boolean {
+    return model.startsWith('imagen-') || model.startsWith('imagegeneration');
+}
@@ -0,0 +1,52 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { PROMPT_TEMPLATES } from '@/lib/prompts';
+
+let dir: string;
+let storePath: string;
+let store: typeof import('@/lib/prompt-store');
+
+beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'prompts-'));
+    storePath = path.join(dir, 'prompts.json');
+    process.env.PROMPT_STORE_PATH = storePath;
+    store = await import('@/lib/prompt-store');
+});
+
+beforeEach(async () => {
+    await rm(storePath, { force: true });
+});
+
+afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+});
+
+const text = PROMPT_TEMPLATES.rewritePrompt.text;
+
+describe('savePromptVersion', () => {
+    it('numbers edits on their own, apart from the built-in version', async () => {
+        const first = await store.savePromptVersion('rewritePrompt', text, 'first');
+        const second = await store.savePromptVersion('rewritePrompt', text, 'second');
+        expect([first.version, second.version]).toEqual([1, 2]);
+
+        const { versions, activeId } = await store.listPromptVersions('rewritePrompt');
+        expect(versions.map(v => v.id)).toEqual(['builtin:rewritePrompt', first.id, second.id]);
+        expect(versions[0].version).toBe(PROMPT_TEMPLATES.rewritePrompt.version);
+        expect(activeId).toBe(second.id);
+    });
+
+    it('keeps every version when saves run at the same time', async () => {
+        const saved = await Promise.all([1, 2, 3, 4].map(n => store.savePromptVersion('rewritePrompt', text, `edit ${n}`)));
+        const { versions } = await store.listPromptVersions('rewritePrompt');
+        expect(versions.slice(1).map(v => v.id)).toEqual(saved.map(v => v.id));
+        expect(saved.map(v => v.version)).toEqual([1, 2, 3, 4]);
+    });
+
+    it('refuses to save over a store it cannot read', async () => {
+        await writeFile(storePath, '{"versions": [');
+        await expect(store.savePromptVersion('rewritePrompt', text)).rejects.toThrow('読み込めません');
+        await expect(store.listPromptVersions('rewritePrompt')).rejects.toThrow('読み込めません');
+    });
+});
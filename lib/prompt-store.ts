@@ -0,0 +1,117 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { createWriteQueue, isMissingFile, writeFileAtomic } from '@/lib/data-file';
+import { PROMPT_TEMPLATES, PromptTemplateId, PromptVariables, renderTemplate, unknownVariables } from '@/lib/prompts';
+
+// Server-side prompt versions: edits made on the prompt page, kept as a history per template in a
+// local file, with one version per template marked active. Templates without an active edit use
+// the built-in text. Only import this from Server Actions; it uses the file system.
+
+export interface PromptVersion {
+    id: string; // `builtin:<templateId>` for the text shipped in lib/prompts
+    templateId: PromptTemplateId;
+    version: number; // the built-in template's version, or the edit's own count from 1
+    text: string;
+    note?: string;
+    createdAt: number; // 0 for the built-in version
+}
+
+interface PromptStoreFile {
+    versions: PromptVersion[];
+    active: Partial<Record<PromptTemplateId, string>>; // version id
+}
+
+const STORE_PATH = process.env.PROMPT_STORE_PATH || path.join(process.cwd(), '.data', 'prompts.json');
+
+function builtinVersion(templateId: PromptTemplateId): PromptVersion {
+    const template = PROMPT_TEMPLATES[templateId];
+    return { id: `builtin:${templateId}`, templateId, version: template.version, text: template.text, createdAt: 0 };
+}
+
+// A file that can't be read or parsed throws rather than reading as empty, so a save never
+// replaces the stored versions
+async function readStore(): Promise<PromptStoreFile> {
+    let text: string;
+    try {
+        text = await readFile(STORE_PATH, 'utf8');
+    } catch (err) {
+        if (isMissingFile(err)) return { versions: [], active: {} }; // nothing edited yet
+        throw err;
+    }
+    try {
+        return JSON.parse(text);
+    } catch {
+        throw new Error(`プロンプトの保存ファイルを読み込めません: ${STORE_PATH}`);
+    }
+}
+
+async function writeStore(store: PromptStoreFile): Promise<void> {
+    await writeFileAtomic(STORE_PATH, JSON.stringify(store, null, 2));
+}
+
+// Saves and activations are read-modify-write on the whole file; run them one at a time
+const serialized = createWriteQueue();
+
+// Built-in version first, then the edits from oldest to newest
+export async function listPromptVersions(templateId: PromptTemplateId): Promise<{ versions: PromptVersion[]; activeId: string }> {
+    const store = await readStore();
+    const versions = [builtinVersion(templateId), ...store.versions.filter(v => v.templateId === templateId)];
+    const activeId = versions.some(v => v.id === store.active[templateId]) ? store.active[templateId]! : versions[0].id;
+    return { versions, activeId };
+}
+
+export async function getPromptVersion(id: string): Promise<PromptVersion> {
+    if (id.startsWith('builtin:')) {
+        const templateId = id.slice('builtin:'.length) as PromptTemplateId;
+        if (templateId in PROMPT_TEMPLATES) return builtinVersion(templateId);
+    }
+    const version = (await readStore()).versions.find(v => v.id === id);
+    if (!version) throw new Error(`プロンプトのバージョンが見つかりません: ${id}`);
+    return version;
+}
+
+// Saves `text` as the next version of the template and makes it active
+export async function savePromptVersion(templateId: PromptTemplateId, text: string, note?: string): Promise<PromptVersion> {
+    if (!(templateId in PROMPT_TEMPLATES)) throw new Error(`Unknown prompt template: ${templateId}`);
+    if (!text.trim()) throw new Error('プロンプトが空です');
+    const unknown = unknownVariables(templateId, text);
+    if (unknown.length > 0) {
+        throw new Error(`このテンプレートでは使えない変数があります: ${unknown.map(name => `{{${name}}}`).join(', ')}`);
+    }
+    // A section left open renders as a literal tag
+    const sample = Object.fromEntries(Object.keys(PROMPT_TEMPLATES[templateId].variables).map(name => [name, name]));
+    if (/\{\{[#/]\w+\}\}/.test(renderTemplate(text, sample))) {
+        throw new Error('{{#変数}} と {{/変数}} の対応が取れていません');
+    }
+
+    return serialized(async () => {
+        const store = await readStore();
+        // Edits count on their own, so a bump of the built-in text never shares a number with one
+        const previous = store.versions.filter(v => v.templateId === templateId).map(v => v.version);
+        const version: PromptVersion = {
+            id: crypto.randomUUID(),
+            templateId,
+            version: Math.max(0, ...previous) + 1,
+            text,
+            note: note?.trim() || undefined,
+            createdAt: Date.now(),
+        };
+        await writeStore({ versions: [...store.versions, version], active: { ...store.active, [templateId]: version.id } });
+        return version;
+    });
+}
+
+export async function activatePromptVersion(templateId: PromptTemplateId, versionId: string): Promise<void> {
+    const version = await getPromptVersion(versionId);
+    if (version.templateId !== templateId) throw new Error(`プロンプトのバージョンが見つかりません: ${versionId}`);
+    await serialized(async () => {
+        const store = await readStore();
+        await writeStore({ ...store, active: { ...store.active, [templateId]: versionId } });
+    });
+}
+
+// The text the app sends for `templateId`, with the variables filled in
+export async function renderActivePrompt(templateId: PromptTemplateId, variables: PromptVariables): Promise<string> {
+    const { versions, activeId } = await listPromptVersions(templateId);
+    return renderTemplate(versions.find(v => v.id === activeId)!.text, variables);
+}
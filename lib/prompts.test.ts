@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { PROMPT_TEMPLATES, PromptTemplateId, renderTemplate, templateVariables, unknownVariables } from '@/lib/prompts';
+
+describe('renderTemplate', () => {
+    it('fills in variables', () => {
+        expect(renderTemplate('{{pageCount}} pages in {{style}}', { pageCount: 3, style: 'ink' })).toBe('3 pages in ink');
+    });
+
+    it('keeps a section only when its variable is not empty', () => {
+        const text = 'Story: {{story}}\n{{#characters}}\nCast:\n{{characters}}\n{{/characters}}\nEnd';
+        expect(renderTemplate(text, { story: 'S', characters: '' })).toBe('Story: S\nEnd');
+        expect(renderTemplate(text, { story: 'S', characters: '- Aoi' })).toBe('Story: S\nCast:\n- Aoi\nEnd');
+    });
+
+    it('throws on a variable the caller did not pass', () => {
+        expect(() => renderTemplate('{{story}} {{mood}}', { story: 'S' })).toThrow('Unknown prompt variable: {{mood}}');
+    });
+
+    it('renders every built-in template with its declared variables', () => {
+        for (const id of Object.keys(PROMPT_TEMPLATES) as PromptTemplateId[]) {
+            const template = PROMPT_TEMPLATES[id];
+            const variables = Object.fromEntries(Object.keys(template.variables).map(name => [name, `<${name}>`]));
+            expect(unknownVariables(id, template.text)).toEqual([]);
+            expect(renderTemplate(template.text, variables)).not.toMatch(/\{\{/);
+        }
+    });
+});
+
+describe('templateVariables', () => {
+    it('lists each name once, including section names', () => {
+        expect(templateVariables('{{#a}}{{a}}{{/a}} {{b}}')).toEqual(['a', 'b']);
+    });
+});
@@ -0,0 +1,307 @@
+import { DEFAULT_STYLE } from '@/lib/styles';
+
+// Every instruction the app sends to a model, as versioned templates. `{{name}}` is replaced by a
+// variable and `{{#name}}...{{/name}}` is kept only when the variable is not empty.
+// Bump a template's version whenever its wording changes. Edited versions made on the prompt
+// page are stored on the server (see lib/prompt-store) and take precedence over these.
+
+export type PromptTemplateId =
+    | 'ideaPrompts'
+    | 'scriptPrompts'
+    | 'storyboard'
+    | 'webtoonPanels'
+    | 'rewritePrompt'
+    | 'characterAnalysis'
+    | 'regionEdit'
+    | 'repairJson';
+
+export interface PromptTemplate {
+    id: PromptTemplateId;
+    version: number;
+    label: string;
+    variables: Record<string, string>; // what the caller fills in, with a description for the editor
+    text: string;
+}
+
+export type PromptVariables = Record<string, string | number>;
+
+// Shared by every planning template that writes page or panel prompts
+const SPEECH_BUBBLE_RULE = 'For speech bubbles, prioritize clear, empty bubble shapes. English or Japanese text inside bubbles may be distorted, so focus on the visual placement of bubbles.';
+const REFERENCE_RULE = 'CRITICAL: If reference images are provided, you MUST EXPLICITLY DESCRIBE their visual appearance in EVERY prompt (e.g., "Young man with spiky black hair, yellow eyes, wearing a techwear jacket"). Do NOT just say "similar to Reference Image 1" because the image generator CANNOT see the reference images. You must translate the image into words.';
+
+export const PROMPT_TEMPLATES: Record<PromptTemplateId, PromptTemplate> = {
+    ideaPrompts: {
+        id: 'ideaPrompts',
+        version: 1,
+        label: '構成案 (アイデア)',
+        variables: { pageCount: '作る案の数', style: 'スタイルの構成指示', story: 'ストーリーのアイデア', characters: 'キャラクターシート (登場人物がいなければ空)' },
+        text: `Your task is to create detailed image generation prompts for a manga based on the user's story idea.
+You need to generate {{pageCount}} prompt(s).
+
+Each prompt will be used to generate a SINGLE IMAGE that looks like a complete {{style}} with multiple panels.
+
+IMPORTANT: The user wants {{pageCount}} DIFFERENT VARIATIONS of the same story.
+Do NOT split the story across multiple pages.
+Each of the {{pageCount}} prompts must represent the COMPLETION of the user's entire prompt within a single page.
+Make each variation slightly different in composition, camera angles, or panel layout.
+
+Output Format: JSON Array of strings.
+Example:
+[
+  "A high-quality {{style}} with 4 panels. Panel 1 (top): Close up of a young man with spiky black hair... Panel 2 (middle): Wide shot of..."
+]
+
+STRICT constraints:
+1. Output EXACTLY {{pageCount}} strings in a JSON array.
+2. Each string must be a highly detailed visual description of one full manga page.
+3. Include instructions for 'panels', 'layout', 'characters', and 'speech bubbles'.
+4. ${REFERENCE_RULE}
+5. The art style should be consistent: "{{style}}, professional layout".
+6. Output ONLY valid JSON.
+7. ${SPEECH_BUBBLE_RULE}
+{{#characters}}
+
+Character Sheet:
+The following characters appear in this manga. Whenever a character appears, call them by name and describe them using these exact visual traits.
+{{characters}}
+{{/characters}}
+
+User Story Idea:
+{{story}}`,
+    },
+    scriptPrompts: {
+        id: 'scriptPrompts',
+        version: 1,
+        label: '構成案 (脚本)',
+        variables: { pageCount: 'ページ数', style: 'スタイルの構成指示', story: '脚本', characters: 'キャラクターシート (登場人物がいなければ空)' },
+        text: `Your task is to act as a professional manga editor and storyboarder.
+You have been provided with a script/story text.
+Your goal is to split this script into EXACTLY {{pageCount}} sequential manga pages.
+
+Instructions:
+1. Divide the story/script logically into {{pageCount}} parts (pages).
+2. For EACH page, write a highly detailed image generation prompt.
+3. The prompt should describe the layout, panels, characters, and action for that specific part of the story.
+4. Ensure flow and continuity from Page 1 to Page {{pageCount}}.
+
+Output Format: JSON Array of strings (size {{pageCount}}).
+Example:
+[
+  "Page 1: {{style}}, 5 panels. Panel 1: Intro shot of city... Panel 2: Protagonist enters...",
+  "Page 2: {{style}}, 4 panels. Panel 1: Dialogue scene...",
+  ...
+]
+
+Constraints:
+- Output ONLY valid JSON.
+- The array length must be EXACTLY {{pageCount}}.
+- Style: {{style}}
+- ${REFERENCE_RULE}
+- ${SPEECH_BUBBLE_RULE}
+{{#characters}}
+
+Character Sheet:
+The following characters appear in this manga. Whenever a character appears, call them by name and describe them using these exact visual traits.
+{{characters}}
+{{/characters}}
+
+Input Script:
+{{story}}`,
+    },
+    storyboard: {
+        id: 'storyboard',
+        version: 1,
+        label: '絵コンテ',
+        variables: { pageCount: 'ページ数', panels: '1ページのコマ数の指示', style: 'スタイルの構成指示', story: 'ストーリーまたは脚本', characters: 'キャラクターシート (登場人物がいなければ空)' },
+        text: `Your task is to act as a professional manga editor and storyboarder.
+Turn the user's story or script into a storyboard of EXACTLY {{pageCount}} sequential manga pages.
+
+Instructions:
+1. Divide the story logically into {{pageCount}} pages with {{panels}} each.
+2. For each panel, write a detailed visual description in English (setting, action, expressions, composition).
+3. Put any dialogue or narration for the panel in "dialogue", keeping the story's original language. Use an empty string if there is none.
+4. Give each panel a camera angle (close-up, medium shot, wide shot, bird's-eye view, etc.).
+5. List the names of the characters that appear in each panel.
+6. CRITICAL: If reference images are provided, describe the characters' visual appearance explicitly in the panel descriptions.
+7. Ensure flow and continuity from Page 1 to Page {{pageCount}}.
+8. Plan panels and compositions that suit this art style: "{{style}}"
+{{#characters}}
+
+Character Sheet (use these names in "characters"):
+{{characters}}
+{{/characters}}
+
+Story:
+{{story}}`,
+    },
+    webtoonPanels: {
+        id: 'webtoonPanels',
+        version: 1,
+        label: '縦読みコマ',
+        variables: { pageCount: 'コマ数', source: '入力の種類 (script / story idea)', style: 'スタイルの構成指示', story: 'ストーリーまたは脚本', characters: 'キャラクターシート (登場人物がいなければ空)' },
+        text: `Your task is to act as a professional webtoon storyboarder.
+Turn the user's {{source}} into EXACTLY {{pageCount}} sequential panels of a vertical-scroll webtoon.
+The panels are stacked top to bottom and read by scrolling, so every panel is a single tall image.
+
+Instructions:
+1. Each prompt describes ONE panel only: a single tall vertical composition, never a multi-panel page.
+2. Describe setting, characters, action, expressions and camera angle for that panel in detail.
+3. Use the vertical format: tall establishing shots, dramatic drops, close-ups that fill the width.
+4. Leave room for speech bubbles where dialogue happens and describe empty bubble shapes, not their text.
+5. Pace the story across the scroll, with the reveal or cliffhanger in the last panels.
+6. ${REFERENCE_RULE}
+7. The art style should be consistent: "{{style}}".
+
+Output Format: JSON Array of strings (size {{pageCount}}).
+Constraints:
+- Output ONLY valid JSON.
+- The array length must be EXACTLY {{pageCount}}.
+{{#characters}}
+
+Character Sheet:
+Whenever a character appears, call them by name and describe them using these exact visual traits.
+{{characters}}
+{{/characters}}
+
+User {{source}}:
+{{story}}`,
+    },
+    rewritePrompt: {
+        id: 'rewritePrompt',
+        version: 1,
+        label: 'プロンプトの書き直し',
+        variables: { format: '形式 (manga / vertical-scroll webtoon)', source: '入力の種類 (script / story idea)', goal: '書き直す対象と目的', shape: '出力する描写の形', style: 'スタイルの構成指示', plan: '現在の構成 (全ページ)', story: 'ストーリーまたは脚本', characters: 'キャラクターシート (登場人物がいなければ空)' },
+        text: `Your task is to rewrite ONE image generation prompt in an existing {{format}} plan.
+The plan below was generated from the user's {{source}}.
+{{goal}}
+
+Constraints:
+1. {{shape}}
+2. ${REFERENCE_RULE}
+3. The art style should be consistent: "{{style}}, professional layout".
+4. ${SPEECH_BUBBLE_RULE}
+5. Output ONLY the new prompt text. No JSON, no markdown, no commentary.
+
+Current Plan:
+{{plan}}
+{{#characters}}
+
+Character Sheet:
+{{characters}}
+{{/characters}}
+
+User {{source}}:
+{{story}}`,
+    },
+    characterAnalysis: {
+        id: 'characterAnalysis',
+        version: 1,
+        label: 'キャラクター解析',
+        variables: {},
+        text: `Analyze this character image and provide a highly detailed visual description suitable for an image generation AI.
+Focus strictly on visual traits:
+- Hair (style, color)
+- Eyes (shape, color)
+- Clothing (specific items, colors, style)
+- Accessories
+- Art style (e.g. thick lines, sketch, anime)
+
+Output format: A dense string of descriptive keywords and phrases.
+Example: "young man, spiky silver hair, sharp red eyes, wearing a black trench coat with high collar, futuristic cyberpunk aesthetic, cel shaded"`,
+    },
+    regionEdit: {
+        id: 'regionEdit',
+        version: 1,
+        label: '部分修正',
+        variables: { instruction: '修正の指示' },
+        text: `Edit the first attached image, a manga page. The second attached image is a mask.
+Change ONLY the area that is white in the mask and keep everything outside it exactly as it is: composition, line work, tones and lettering.
+Return the whole page at the same size.
+
+Instruction for the masked area: {{instruction}}`,
+    },
+    repairJson: {
+        id: 'repairJson',
+        version: 1,
+        label: 'JSONの修復',
+        variables: { errors: '検出された問題の一覧', output: '修復するモデルの出力' },
+        text: `The JSON below does not match the required structure.
+Problems:
+{{errors}}
+
+Return the corrected JSON only, keeping the content unchanged wherever possible. No markdown, no commentary.
+
+JSON:
+{{output}}`,
+    },
+};
+
+export function renderTemplate(text: string, variables: PromptVariables): string {
+    const value = (name: string) => {
+        if (!(name in variables)) throw new Error(`Unknown prompt variable: {{${name}}}`);
+        return String(variables[name]);
+    };
+    return text
+        .replace(/\{\{#(\w+)\}\}\n?([\s\S]*?)\{\{\/\1\}\}\n?/g, (_, name: string, body: string) => value(name).trim() ? body : '')
+        .replace(/\{\{(\w+)\}\}/g, (_, name: string) => value(name))
+        .trim();
+}
+
+// Names used as `{{name}}` or `{{#name}}` in a template text
+export function templateVariables(text: string): string[] {
+    return Array.from(new Set(Array.from(text.matchAll(/\{\{[#/]?(\w+)\}\}/g), match => match[1])));
+}
+
+// Variables an edited text uses that its template never fills in
+export function unknownVariables(id: PromptTemplateId, text: string): string[] {
+    return templateVariables(text).filter(name => !(name in PROMPT_TEMPLATES[id].variables));
+}
+
+// Templates that plan pages from a story; these can be compared side by side
+export const PLANNING_TEMPLATES: PromptTemplateId[] = ['ideaPrompts', 'scriptPrompts', 'storyboard', 'webtoonPanels'];
+
+// Variables of the planning templates, shared by the planner actions and the comparison
+export function planningVariables(options: {
+    pageCount: number;
+    style: string; // planning line of the style preset
+    story: string;
+    characters?: { name: string; description: string }[];
+    isScriptMode?: boolean;
+    panelsPerPage?: number;
+}): PromptVariables {
+    return {
+        pageCount: options.pageCount,
+        style: options.style,
+        story: options.story,
+        characters: characterSheet(options.characters || []),
+        source: options.isScriptMode ? 'script' : 'story idea',
+        panels: options.panelsPerPage ? `EXACTLY ${options.panelsPerPage} panel(s)` : '3 to 6 panels',
+    };
+}
+
+// `{{characters}}`: one line per character from the library
+export function characterSheet(characters: { name: string; description: string }[]): string {
+    return characters
+        .map(c => `- ${c.name}: ${c.description || '(no description, refer to the attached images)'}`)
+        .join('\n');
+}
+
+// Final text of an image prompt. Models without real size control (Gemini) get the aspect ratio
+// and target resolution as hints; every provider gets the style preset's render line.
+export function imagePrompt(prompt: string, options: { style?: string; aspectRatio?: string; sizeHints?: boolean } = {}): string {
+    let enhanced = prompt;
+    if (options.sizeHints) {
+        if (options.aspectRatio) {
+            enhanced += `\n\nAspect Ratio: ${options.aspectRatio}`;
+            // Pixel hints for known ratios guide the model towards a "2K" page
+            if (options.aspectRatio === '2:3') {
+                enhanced += `\nTarget Dimensions: 1696x2528 pixels`;
+            } else if (options.aspectRatio === '3:2') {
+                enhanced += `\nTarget Dimensions: 2528x1696 pixels`;
+            }
+        }
+        enhanced += `\nOutput Resolution: 2K`;
+        enhanced += `\nImage Quality: HD, High Definition`;
+    }
+    return `${enhanced}\nStyle: ${options.style || DEFAULT_STYLE.render}`;
+}
@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ImageProviderError } from '@/lib/image-provider';
+import { QueueJob, backoffDelay, createJobs, isTransientError, runQueue } from '@/lib/queue';
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+});
+
+// Final state of every job after the run, in job order
+function collect(jobs: QueueJob[]) {
+    const latest = new Map(jobs.map(job => [job.id, job]));
+    return {
+        onUpdate: (job: QueueJob) => latest.set(job.id, job),
+        result: () => jobs.map(job => latest.get(job.id)!),
+    };
+}
+
+describe('isTransientError', () => {
+    it('retries rate limits and server failures only', () => {
+        expect(isTransientError(new ImageProviderError('slow down', 'fal', 'rate_limit', 429))).toBe(true);
+        expect(isTransientError(new ImageProviderError('down', 'gemini', 'server', 503))).toBe(true);
+        expect(isTransientError(new ImageProviderError('bad key', 'fal', 'auth', 401))).toBe(false);
+        expect(isTransientError(new ImageProviderError('blocked', 'gemini', 'safety'))).toBe(false);
+        expect(isTransientError(new Error('[429 Too Many Requests] quota'))).toBe(true);
+        expect(isTransientError(new Error('TypeError: fetch failed'))).toBe(true);
+        expect(isTransientError(new Error('Prompt is empty'))).toBe(false);
+    });
+});
+
+describe('backoffDelay', () => {
+    it('doubles per attempt within the upper half of the delay and stops at the cap', () => {
+        vi.spyOn(Math, 'random').mockReturnValue(0);
+        expect([1, 2, 3].map(backoffDelay)).toEqual([1000, 2000, 4000]);
+        expect(backoffDelay(10)).toBe(15000);
+
+        vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+        expect(backoffDelay(1)).toBeCloseTo(2000, 0);
+        expect(backoffDelay(10)).toBeCloseTo(30000, 0);
+    });
+});
+
+describe('runQueue', () => {
+    it('runs no more jobs at once than the concurrency allows', async () => {
+        const jobs = createJobs(['a', 'b', 'c', 'd', 'e']);
+        const { onUpdate, result } = collect(jobs);
+        let running = 0;
+        let peak = 0;
+
+        await runQueue(jobs, async job => {
+            peak = Math.max(peak, ++running);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            running--;
+            return `page-${job.order}`;
+        }, { concurrency: 2, maxRetries: 0, onUpdate });
+
+        expect(peak).toBe(2);
+        expect(result().map(job => [job.status, job.pageId])).toEqual(jobs.map(job => ['done', `page-${job.order}`]));
+    });
+
+    it('retries transient errors with backoff and fails other errors at once', async () => {
+        vi.useFakeTimers();
+        const jobs = createJobs(['flaky', 'broken']);
+        const { onUpdate, result } = collect(jobs);
+        const worker = vi.fn(async (job: QueueJob) => {
+            if (job.prompt === 'broken') throw new Error('Prompt is empty');
+            if (job.attempts < 3) throw new ImageProviderError('busy', 'fal', 'server', 503);
+            return 'page';
+        });
+
+        const run = runQueue(jobs, worker, { concurrency: 1, maxRetries: 3, onUpdate });
+        await vi.runAllTimersAsync();
+        await run;
+
+        const [flaky, broken] = result();
+        expect(flaky).toMatchObject({ status: 'done', attempts: 3, pageId: 'page' });
+        expect(broken).toMatchObject({ status: 'failed', attempts: 1, error: 'Prompt is empty' });
+    });
+
+    it('gives up once the retries are used', async () => {
+        vi.useFakeTimers();
+        const jobs = createJobs(['a']);
+        const { onUpdate, result } = collect(jobs);
+        const worker = vi.fn(async () => { throw new ImageProviderError('busy', 'fal', 'rate_limit', 429); });
+
+        const run = runQueue(jobs, worker, { concurrency: 1, maxRetries: 2, onUpdate });
+        await vi.runAllTimersAsync();
+        await run;
+
+        expect(worker).toHaveBeenCalledTimes(3);
+        expect(result()[0]).toMatchObject({ status: 'failed', error: 'busy' });
+    });
+
+    it('leaves unfinished jobs queued on cancel and resumes only those', async () => {
+        const jobs = createJobs(['a', 'b', 'c']);
+        const { onUpdate, result } = collect(jobs);
+        const controller = new AbortController();
+
+        await runQueue(jobs, async job => {
+            if (job.order === 1) {
+                controller.abort();
+                throw new Error('aborted');
+            }
+            return `page-${job.order}`;
+        }, { concurrency: 1, maxRetries: 3, signal: controller.signal, onUpdate });
+        expect(result().map(job => job.status)).toEqual(['done', 'queued', 'queued']);
+
+        const worker = vi.fn(async (job: QueueJob) => `page-${job.order}`);
+        await runQueue(result(), worker, { concurrency: 1, maxRetries: 3, onUpdate });
+        expect(worker.mock.calls.map(([job]) => job.order)).toEqual([1, 2]);
+        expect(result().map(job => job.status)).toEqual(['done', 'done', 'done']);
+    });
+});
@@ -0,0 +1,136 @@
+// Page generation queue: per-page status, bounded concurrency, retries with backoff
+// for transient provider errors, and cancel / resume without losing finished pages.
+
+import { ImageProviderError, ImageProviderId } from '@/lib/image-provider';
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface QueueJob {
+    id: string;
+    order: number;
+    prompt: string;
+    dialogue: string[];
+    status: JobStatus;
+    attempts: number;
+    error?: string;
+    pageId?: string;
+    progress?: string; // latest provider status while running
+}
+
+export interface QueueSettings {
+    concurrency: Record<ImageProviderId, number>;
+    maxRetries: number;
+}
+
+// Gemini pages are generated through Server Actions, which the client runs one at a time, so
+// Gemini stays at 1 rather than offering a setting that has no effect
+export const DEFAULT_QUEUE_SETTINGS: QueueSettings = {
+    concurrency: { gemini: 1, fal: 2, mock: 4 },
+    maxRetries: 3,
+};
+
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 30000;
+
+export function createJobs(prompts: string[], dialogues: string[][] = []): QueueJob[] {
+    return prompts.map((prompt, i) => ({
+        id: crypto.randomUUID(),
+        order: i,
+        prompt,
+        dialogue: dialogues[i] || [],
+        status: 'queued',
+        attempts: 0,
+    }));
+}
+
+// Settings page stores these next to the API keys
+export function loadQueueSettings(): QueueSettings {
+    const read = (key: string, fallback: number, min: number) => {
+        const value = parseInt(localStorage.getItem(key) || '');
+        return Number.isFinite(value) && value >= min ? value : fallback;
+    };
+    return {
+        concurrency: {
+            gemini: DEFAULT_QUEUE_SETTINGS.concurrency.gemini,
+            fal: read('queue_concurrency_fal', DEFAULT_QUEUE_SETTINGS.concurrency.fal, 1),
+            mock: DEFAULT_QUEUE_SETTINGS.concurrency.mock,
+        },
+        maxRetries: read('queue_max_retries', DEFAULT_QUEUE_SETTINGS.maxRetries, 0),
+    };
+}
+
+// Rate limits (429) and server-side failures (5xx) are worth retrying; everything else is not
+export function isTransientError(err: unknown): boolean {
+    if (err instanceof ImageProviderError) return err.retryable;
+    const message = err instanceof Error ? err.message : String(err);
+    return /\b(429|500|502|503|504)\b|Too Many Requests|RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded|fetch failed/i.test(message);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            resolve();
+        }, { once: true });
+    });
+}
+
+// Doubles per attempt up to MAX_DELAY_MS, randomized over the upper half
+export function backoffDelay(attempt: number): number {
+    const delay = Math.min(BASE_DELAY_MS * 2 ** (attempt - 1), MAX_DELAY_MS);
+    return delay / 2 + Math.random() * delay / 2; // jitter
+}
+
+interface RunQueueOptions {
+    concurrency: number;
+    maxRetries: number;
+    signal?: AbortSignal;
+    onUpdate: (job: QueueJob) => void;
+}
+
+// Run every job that isn't done yet. A failed job doesn't stop the others; after cancel, running
+// jobs are aborted where the provider can be (others finish) and the rest stay queued so the run
+// can be resumed later.
+export async function runQueue(
+    jobs: QueueJob[],
+    worker: (job: QueueJob) => Promise<string>,
+    { concurrency, maxRetries, signal, onUpdate }: RunQueueOptions
+): Promise<void> {
+    const pending = jobs.filter(job => job.status !== 'done');
+    for (const job of pending) {
+        onUpdate({ ...job, status: 'queued', attempts: 0, error: undefined });
+    }
+
+    let next = 0;
+    const runWorker = async () => {
+        while (next < pending.length && !signal?.aborted) {
+            let job: QueueJob = { ...pending[next++], attempts: 0, error: undefined };
+
+            for (;;) {
+                job = { ...job, status: 'running', attempts: job.attempts + 1 };
+                onUpdate(job);
+                try {
+                    const pageId = await worker(job);
+                    onUpdate({ ...job, status: 'done', pageId, error: undefined });
+                    break;
+                } catch (err) {
+                    if (signal?.aborted) {
+                        onUpdate({ ...job, status: 'queued', error: undefined }); // cancelled mid-job
+                        break;
+                    }
+                    const error = err instanceof Error ? err.message : String(err);
+                    if (!isTransientError(err) || job.attempts > maxRetries) {
+                        onUpdate({ ...job, status: 'failed', error });
+                        break;
+                    }
+                    onUpdate({ ...job, status: 'queued', error });
+                    await sleep(backoffDelay(job.attempts), signal);
+                    if (signal?.aborted) break; // stays queued for resume
+                }
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.max(1, concurrency) }, runWorker));
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import responses from '@/lib/__fixtures__/gemini-responses.json';
+import { validateStoryboard } from '@/lib/storyboard';
+
+describe('validateStoryboard', () => {
+    it('renumbers pages and panels and trims descriptions', () => {
+        const pages = validateStoryboard(JSON.parse(responses.storyboardValid));
+        expect(pages.map(p => p.pageNumber)).toEqual([1, 2]);
+        expect(pages[0].panels.map(p => p.panelNumber)).toEqual([1, 2]);
+        expect(pages[0].panels[0]).toEqual({
+            panelNumber: 1,
+            description: 'Wide shot of a rainy street at night.',
+            dialogue: '雨か…',
+            cameraAngle: 'wide shot',
+            characters: ['Aoi'],
+        });
+    });
+
+    it('drops character entries that are not names', () => {
+        const [page] = validateStoryboard([{ panels: [{ description: 'A cat', characters: ['Aoi', 3, null] }] }]);
+        expect(page.panels[0].characters).toEqual(['Aoi']);
+    });
+
+    it('rejects a panel without a description', () => {
+        expect(() => validateStoryboard(JSON.parse(responses.storyboardMissingFields))).toThrow('page 1, panel 1 has no description');
+        expect(() => validateStoryboard(JSON.parse(responses.storyboardBlankDescription))).toThrow('page 1, panel 1 has no description');
+    });
+
+    it('rejects pages without panels', () => {
+        expect(() => validateStoryboard([{ pageNumber: 1, panels: [] }])).toThrow('page 1 is empty');
+        expect(() => validateStoryboard([{ pageNumber: 1 }])).toThrow('page 1 has no panels');
+        expect(() => validateStoryboard({})).toThrow('not an array of pages');
+    });
+});
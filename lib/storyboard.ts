@@ -0,0 +1,84 @@
+// One planned page of a storyboard, as returned by the planner and edited in the storyboard editor
+export interface MangaPage {
+    pageNumber: number;
+    panels: {
+        panelNumber: number;
+        description: string;
+        dialogue: string;
+        cameraAngle?: string;
+        characters?: string[];
+        imageUrl?: string;
+    }[];
+}
+
+export type MangaPanel = MangaPage['panels'][number];
+
+// Validate the storyboard returned by Gemini. The response schema keeps the shape mostly right,
+// but the model can still drop fields or renumber things, so we normalize here.
+export function validateStoryboard(data: unknown): MangaPage[] {
+    if (!Array.isArray(data)) throw new Error("Invalid storyboard: not an array of pages");
+
+    return data.map((page, pageIdx) => {
+        if (!page || typeof page !== 'object' || !Array.isArray(page.panels)) {
+            throw new Error(`Invalid storyboard: page ${pageIdx + 1} has no panels`);
+        }
+        if (page.panels.length === 0) {
+            throw new Error(`Invalid storyboard: page ${pageIdx + 1} is empty`);
+        }
+
+        return {
+            pageNumber: pageIdx + 1,
+            panels: page.panels.map((panel: Partial<MangaPanel>, panelIdx: number) => {
+                if (!panel || typeof panel.description !== 'string' || !panel.description.trim()) {
+                    throw new Error(`Invalid storyboard: page ${pageIdx + 1}, panel ${panelIdx + 1} has no description`);
+                }
+                return {
+                    panelNumber: panelIdx + 1,
+                    description: panel.description.trim(),
+                    dialogue: typeof panel.dialogue === 'string' ? panel.dialogue : '',
+                    cameraAngle: typeof panel.cameraAngle === 'string' ? panel.cameraAngle : undefined,
+                    characters: Array.isArray(panel.characters)
+                        ? panel.characters.filter((c): c is string => typeof c === 'string')
+                        : undefined,
+                };
+            }),
+        };
+    });
+}
+
+// Build the image generation prompt for one page from its (possibly edited) storyboard
+export function buildStoryboardPrompt(page: MangaPage): string {
+    const panelLines = page.panels.map(panel => {
+        let line = `Panel ${panel.panelNumber}`;
+        if (panel.cameraAngle) line += ` (${panel.cameraAngle})`;
+        line += `: ${panel.description}`;
+        if (panel.characters && panel.characters.length > 0) {
+            line += ` Characters: ${panel.characters.join(', ')}.`;
+        }
+        if (panel.dialogue) {
+            line += ` Speech bubble for: "${panel.dialogue}".`;
+        }
+        return line;
+    });
+
+    return [
+        `Manga page ${page.pageNumber}. Professional layout with ${page.panels.length} panels.`,
+        ...panelLines,
+        `Draw clear, empty speech bubbles where dialogue occurs; text inside bubbles may be distorted.`,
+    ].join('\n');
+}
+
+// Prompt for a single panel when panels are generated separately and composited into a layout
+export function buildPanelPrompt(panel: MangaPanel): string {
+    const lines = [
+        `A single manga panel: one continuous image, no panel borders, no frames, no other panels.`,
+        `${panel.cameraAngle ? `${panel.cameraAngle}. ` : ''}${panel.description}`,
+    ];
+    if (panel.characters && panel.characters.length > 0) {
+        lines.push(`Characters: ${panel.characters.join(', ')}.`);
+    }
+    if (panel.dialogue) {
+        lines.push(`Leave room for one clear, empty speech bubble for: "${panel.dialogue}".`);
+    }
+    return lines.join('\n');
+}
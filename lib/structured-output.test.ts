@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import responses from '@/lib/__fixtures__/gemini-responses.json';
+import { STORYBOARD_SCHEMA, STRING_LIST_SCHEMA, StructuredOutputError, extractJson, parseStructured, validateSchema } from '@/lib/structured-output';
+
+describe('extractJson', () => {
+    it('strips markdown fences', () => {
+        expect(JSON.parse(extractJson(responses.promptListFenced))).toHaveLength(2);
+    });
+
+    it('drops commentary around the JSON', () => {
+        expect(extractJson(responses.promptListWithCommentary)).toBe('["Page 1: A quiet morning in the bakery.", "Page 2: The oven explodes with light."]');
+    });
+
+    it('leaves text without JSON alone', () => {
+        expect(extractJson('  no json here ')).toBe('no json here');
+    });
+});
+
+describe('validateSchema', () => {
+    it('accepts a matching storyboard', () => {
+        expect(validateSchema(JSON.parse(responses.storyboardValid), STORYBOARD_SCHEMA)).toEqual([]);
+    });
+
+    it('lists every mismatch with its path', () => {
+        expect(validateSchema(JSON.parse(responses.storyboardMissingFields), STORYBOARD_SCHEMA)).toEqual([
+            '$[0].panels[0].description: missing',
+            '$[1].pageNumber: expected integer',
+            '$[1].panels: expected at least 1 item(s)',
+        ]);
+    });
+
+    it('rejects the wrong top-level type', () => {
+        expect(validateSchema(JSON.parse(responses.promptListWrongShape), STRING_LIST_SCHEMA)).toEqual(['$: expected array']);
+    });
+});
+
+describe('parseStructured', () => {
+    it('parses a fenced response', () => {
+        expect(parseStructured<string[]>(responses.promptListFenced, STRING_LIST_SCHEMA)[1]).toBe('Page 2: She opens a door that stands alone in the sand.');
+    });
+
+    it('reports truncated JSON as a structured output error', () => {
+        try {
+            parseStructured(responses.promptListTruncated, STRING_LIST_SCHEMA);
+            expect.unreachable();
+        } catch (err) {
+            expect(err).toBeInstanceOf(StructuredOutputError);
+            expect((err as StructuredOutputError).problems[0]).toMatch(/^not valid JSON/);
+            expect((err as StructuredOutputError).text).toBe(responses.promptListTruncated);
+        }
+    });
+
+    it('reports schema mismatches as problems', () => {
+        expect(() => parseStructured(responses.promptListWrongShape, STRING_LIST_SCHEMA)).toThrow('Invalid structured output: $: expected array');
+    });
+});
@@ -0,0 +1,108 @@
+// Structured model output: one small schema type that both becomes the SDKs' `responseSchema`
+// and validates what comes back, plus the JSON clean-up every planner response needs.
+
+export type Schema =
+    | { type: 'string'; description?: string }
+    | { type: 'integer'; description?: string }
+    | { type: 'array'; items: Schema; minItems?: number; description?: string }
+    | { type: 'object'; properties: Record<string, Schema>; required?: string[]; description?: string };
+
+// Thrown when a response is not valid JSON or doesn't match its schema; `problems` feed the repair prompt
+export class StructuredOutputError extends Error {
+    constructor(public problems: string[], public text: string) {
+        super(`Invalid structured output: ${problems.join('; ')}`);
+        this.name = 'StructuredOutputError';
+    }
+}
+
+export const STRING_LIST_SCHEMA: Schema = { type: 'array', items: { type: 'string' }, minItems: 1 };
+
+export const STORYBOARD_SCHEMA: Schema = {
+    type: 'array',
+    minItems: 1,
+    items: {
+        type: 'object',
+        properties: {
+            pageNumber: { type: 'integer' },
+            panels: {
+                type: 'array',
+                minItems: 1,
+                items: {
+                    type: 'object',
+                    properties: {
+                        panelNumber: { type: 'integer' },
+                        description: { type: 'string', description: "Detailed visual description of the panel in English" },
+                        dialogue: { type: 'string', description: "Dialogue or narration in the panel, in the story's original language. Empty if none." },
+                        cameraAngle: { type: 'string', description: "e.g. close-up, wide shot, bird's-eye view" },
+                        characters: { type: 'array', items: { type: 'string' } },
+                    },
+                    required: ["panelNumber", "description", "dialogue"],
+                },
+            },
+        },
+        required: ["pageNumber", "panels"],
+    },
+};
+
+// The schema in an SDK's terms. Both SDKs share the shape but use different enum casing.
+export function toResponseSchema(schema: Schema, t: { STRING: string; INTEGER: string; ARRAY: string; OBJECT: string }): Record<string, unknown> {
+    const description = schema.description ? { description: schema.description } : {};
+    switch (schema.type) {
+        case 'string': return { type: t.STRING, ...description };
+        case 'integer': return { type: t.INTEGER, ...description };
+        case 'array': return { type: t.ARRAY, items: toResponseSchema(schema.items, t), ...description };
+        case 'object': return {
+            type: t.OBJECT,
+            properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toResponseSchema(value, t)])),
+            ...(schema.required ? { required: schema.required } : {}),
+            ...description,
+        };
+    }
+}
+
+// Every mismatch between `value` and `schema`, as readable paths like "$[2].panels: expected array"
+export function validateSchema(value: unknown, schema: Schema, path = '$'): string[] {
+    switch (schema.type) {
+        case 'string':
+            return typeof value === 'string' ? [] : [`${path}: expected string`];
+        case 'integer':
+            return Number.isInteger(value) ? [] : [`${path}: expected integer`];
+        case 'array': {
+            if (!Array.isArray(value)) return [`${path}: expected array`];
+            const problems = value.flatMap((item, i) => validateSchema(item, schema.items, `${path}[${i}]`));
+            if (schema.minItems && value.length < schema.minItems) problems.unshift(`${path}: expected at least ${schema.minItems} item(s)`);
+            return problems;
+        }
+        case 'object': {
+            if (!value || typeof value !== 'object' || Array.isArray(value)) return [`${path}: expected object`];
+            const record = value as Record<string, unknown>;
+            return Object.entries(schema.properties).flatMap(([key, property]) => {
+                if (record[key] === undefined || record[key] === null) {
+                    return schema.required?.includes(key) ? [`${path}.${key}: missing`] : [];
+                }
+                return validateSchema(record[key], property, `${path}.${key}`);
+            });
+        }
+    }
+}
+
+// Models wrap JSON in markdown fences or a sentence of commentary; keep the outermost array / object
+export function extractJson(text: string): string {
+    const unfenced = text.replace(/```(?:json)?/g, '').trim();
+    const start = unfenced.search(/[[{]/);
+    if (start === -1) return unfenced;
+    const end = Math.max(unfenced.lastIndexOf(']'), unfenced.lastIndexOf('}'));
+    return end > start ? unfenced.slice(start, end + 1) : unfenced.slice(start);
+}
+
+export function parseStructured<T>(text: string, schema: Schema): T {
+    let value: unknown;
+    try {
+        value = JSON.parse(extractJson(text));
+    } catch (err) {
+        throw new StructuredOutputError([`not valid JSON (${err instanceof Error ? err.message : String(err)})`], text);
+    }
+    const problems = validateSchema(value, schema);
+    if (problems.length > 0) throw new StructuredOutputError(problems, text);
+    return value as T;
+}
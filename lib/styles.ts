@@ -0,0 +1,92 @@
+// Art style presets. The same preset drives the planning prompt (how pages are described)
+// and the rendering prompt (the style line every provider appends), so both stay in sync.
+
+export interface StylePreset {
+    id: string;
+    name: string;
+    planning: string; // art direction for the planner, e.g. "Shonen manga page in black and white ink..."
+    render: string; // appended to every image prompt as "Style: ..."
+    negativePrompt?: string; // merged with the advanced panel's negative prompt where supported
+    referenceImageIds: string[]; // asset images sent as style (not character) references
+    builtIn?: boolean;
+    createdAt: number;
+}
+
+// What the server actions need from a preset
+export type StyleGuide = Pick<StylePreset, 'planning' | 'render'>;
+
+export const DEFAULT_STYLE_ID = 'manga';
+
+export const BUILT_IN_STYLES: StylePreset[] = [
+    {
+        id: 'manga',
+        name: '標準 (漫画・アニメ調)',
+        planning: 'Manga page. High quality, detailed, anime style.',
+        render: 'Manga style, anime style, high quality. Masterpiece, best quality, highly detailed.',
+        referenceImageIds: [],
+        builtIn: true,
+        createdAt: 0,
+    },
+    {
+        id: 'shonen-ink',
+        name: '少年漫画 (墨線)',
+        planning: 'Black and white shonen manga page. Bold, dynamic ink lines, speed lines and impact effects, dramatic perspective, solid blacks and screentone shading.',
+        render: 'Black and white shonen manga, bold confident ink lines, speed lines, impact effects, dramatic angles, solid blacks, screentone shading, highly detailed.',
+        negativePrompt: 'color, photorealistic, 3d render',
+        referenceImageIds: [],
+        builtIn: true,
+        createdAt: 0,
+    },
+    {
+        id: 'shojo-screentone',
+        name: '少女漫画 (スクリーントーン)',
+        planning: 'Black and white shojo manga page. Delicate fine line work, large expressive eyes, flowers and sparkles in the backgrounds, soft gradient screentones, free-flowing panel borders.',
+        render: 'Black and white shojo manga, delicate thin lines, large sparkling eyes, floral and sparkle backgrounds, soft gradient screentones, elegant composition.',
+        negativePrompt: 'color, harsh shadows, photorealistic',
+        referenceImageIds: [],
+        builtIn: true,
+        createdAt: 0,
+    },
+    {
+        id: 'yonkoma',
+        name: '4コマ',
+        planning: '4-koma (yonkoma) strip: exactly four equal panels stacked vertically, gag or slice-of-life pacing with the punchline in panel 4. Simple, clean, cute art.',
+        render: 'Yonkoma manga, four equal panels stacked vertically, simple clean line art, cute expressive characters, light screentone, uncluttered backgrounds.',
+        referenceImageIds: [],
+        builtIn: true,
+        createdAt: 0,
+    },
+    {
+        id: 'webtoon-color',
+        name: 'Webtoon (フルカラー)',
+        planning: 'Full colour webtoon episode. Vertical scrolling flow, wide panels with generous spacing, clean digital line art, soft cel shading, vibrant colours.',
+        render: 'Full colour webtoon, clean digital line art, soft cel shading, vibrant saturated colours, high quality.',
+        negativePrompt: 'black and white, monochrome, screentone',
+        referenceImageIds: [],
+        builtIn: true,
+        createdAt: 0,
+    },
+    {
+        id: 'gekiga',
+        name: '劇画',
+        planning: 'Black and white gekiga page. Realistic, mature and cinematic: realistic anatomy, heavy cross-hatching, gritty shadows, grounded camera work.',
+        render: 'Gekiga style, realistic proportions, heavy ink and cross-hatching, gritty deep shadows, cinematic composition, black and white, masterpiece.',
+        negativePrompt: 'chibi, cute, moe, color',
+        referenceImageIds: [],
+        builtIn: true,
+        createdAt: 0,
+    },
+];
+
+export const DEFAULT_STYLE: StylePreset = BUILT_IN_STYLES[0];
+
+// Built-ins first, then the user's presets; unknown ids fall back to the default style
+export function findStyle(styles: StylePreset[], id: string | undefined): StylePreset {
+    return styles.find(style => style.id === id) || DEFAULT_STYLE;
+}
+
+// The advanced panel's negative prompt comes first; the style only adds to it
+export function mergeNegativePrompt(negativePrompt: string | undefined, style: StylePreset): string | undefined {
+    const merged = [negativePrompt, style.negativePrompt].map(p => p?.trim()).filter(Boolean).join(', ');
+    return merged || undefined;
+}
@@ -0,0 +1,51 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+let dir: string;
+let usageLog: typeof import('@/lib/usage-log');
+let actions: typeof import('@/app/actions/usage');
+
+beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'usage-'));
+    process.env.USAGE_LOG_PATH = path.join(dir, 'usage.jsonl');
+    usageLog = await import('@/lib/usage-log');
+    actions = await import('@/app/actions/usage');
+});
+
+afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+});
+
+const image = { provider: 'fal', model: 'fal-ai/flux/dev', kind: 'image' } as const;
+
+describe('tracked', () => {
+    it('logs calls while under the caps and refuses them once a cap is reached', async () => {
+        await usageLog.writeUsageSettings({
+            prices: [{ model: 'fal-ai/flux/dev', inputPerMillion: 0, outputPerMillion: 0, perImage: 0.5 }],
+            budget: { perProject: 1 },
+        });
+
+        for (let i = 0; i < 2; i++) {
+            await usageLog.tracked({ ...image, projectId: 'p1' }, async () => 'ok', () => ({ images: 1 }));
+        }
+        expect(await usageLog.readUsage()).toHaveLength(2);
+
+        const call = vi.fn(async () => 'ok');
+        await expect(usageLog.tracked({ ...image, projectId: 'p1' }, call, () => ({ images: 1 }))).rejects.toThrow('予算上限');
+        expect(call).not.toHaveBeenCalled();
+        expect(await usageLog.readUsage()).toHaveLength(2);
+
+        // Other projects are still under their cap
+        await expect(usageLog.tracked({ ...image, projectId: 'p2' }, call, () => ({ images: 1 }))).resolves.toBe('ok');
+    });
+});
+
+describe('clearUsageAction', () => {
+    it('clears the log', async () => {
+        expect((await usageLog.readUsage()).length).toBeGreaterThan(0);
+        await actions.clearUsageAction();
+        expect(await usageLog.readUsage()).toEqual([]);
+    });
+});
@@ -0,0 +1,97 @@
+import { appendFile, mkdir, readFile, rm } from 'fs/promises';
+import path from 'path';
+import { writeFileAtomic } from '@/lib/data-file';
+import { UsageRecord, UsageSettings, DEFAULT_USAGE_SETTINGS, budgetProblem } from '@/lib/usage';
+
+// Server-side usage log: one JSON line per model call in a local file, plus the price table and
+// budget caps it is checked against. Only import this from Server Actions; it uses the file system.
+
+const LOG_PATH = process.env.USAGE_LOG_PATH || path.join(process.cwd(), '.data', 'usage.jsonl');
+const SETTINGS_PATH = process.env.USAGE_SETTINGS_PATH || path.join(path.dirname(LOG_PATH), 'usage-settings.json');
+
+// Logging never fails the call it records
+export async function appendUsage(entry: Omit<UsageRecord, 'id' | 'createdAt'>): Promise<void> {
+    const record: UsageRecord = { ...entry, id: crypto.randomUUID(), createdAt: Date.now() };
+    try {
+        await mkdir(path.dirname(LOG_PATH), { recursive: true });
+        await appendFile(LOG_PATH, JSON.stringify(record) + '\n');
+    } catch (e) {
+        console.error("Failed to write usage log", e);
+    }
+}
+
+export async function readUsage(): Promise<UsageRecord[]> {
+    let text: string;
+    try {
+        text = await readFile(LOG_PATH, 'utf8');
+    } catch {
+        return []; // nothing logged yet
+    }
+    return text.split('\n').filter(Boolean).flatMap(line => {
+        try {
+            return [JSON.parse(line) as UsageRecord];
+        } catch {
+            return []; // a line cut short by a crash
+        }
+    });
+}
+
+export async function clearUsage(): Promise<void> {
+    await rm(LOG_PATH, { force: true });
+}
+
+// Null until the usage page has saved them once
+export async function readUsageSettings(): Promise<UsageSettings | null> {
+    try {
+        return { ...DEFAULT_USAGE_SETTINGS, ...JSON.parse(await readFile(SETTINGS_PATH, 'utf8')) };
+    } catch {
+        return null;
+    }
+}
+
+export async function writeUsageSettings(settings: UsageSettings): Promise<void> {
+    await writeFileAtomic(SETTINGS_PATH, JSON.stringify(settings, null, 2));
+}
+
+// The budget caps as a user-facing message, null while generation may continue
+export async function checkBudget(projectId?: string): Promise<string | null> {
+    const { prices, budget } = (await readUsageSettings()) || DEFAULT_USAGE_SETTINGS;
+    return budgetProblem(await readUsage(), prices, budget, projectId);
+}
+
+type UsageMeasure = Pick<UsageRecord, 'inputTokens' | 'outputTokens' | 'images'>;
+
+// Thrown by a call the user stopped; logged as 'cancelled' instead of as a failure
+export class CallCancelledError extends Error {
+    constructor(message = 'Cancelled') {
+        super(message);
+        this.name = 'CallCancelledError';
+    }
+}
+
+// Time a model call and log it with its outcome; `measure` reads token and image counts from the result.
+// A reached budget cap refuses the call before it is made.
+export async function tracked<T>(
+    entry: Pick<UsageRecord, 'provider' | 'model' | 'kind' | 'projectId'>,
+    call: () => Promise<T>,
+    measure: (result: T) => Partial<UsageMeasure>
+): Promise<T> {
+    const overBudget = await checkBudget(entry.projectId);
+    if (overBudget) throw new Error(overBudget);
+
+    const started = Date.now();
+    try {
+        const result = await call();
+        await appendUsage({ ...entry, images: 0, ...measure(result), latencyMs: Date.now() - started, outcome: 'success' });
+        return result;
+    } catch (err) {
+        await appendUsage({
+            ...entry,
+            images: 0,
+            latencyMs: Date.now() - started,
+            outcome: err instanceof CallCancelledError ? 'cancelled' : 'error',
+            error: err instanceof Error ? err.message : String(err)
+        });
+        throw err;
+    }
+}
@@ -0,0 +1,117 @@
+// Usage log entries for every paid model call, the price table used to estimate their cost,
+// and the budget caps checked before generating. The log, the prices and the caps are all kept
+// on the server (lib/usage-log.ts), which checks the caps before every call.
+
+export type UsageProvider = 'google' | 'vertex' | 'fal';
+
+export interface UsageRecord {
+    id: string;
+    createdAt: number;
+    provider: UsageProvider;
+    model: string;
+    kind: 'text' | 'image';
+    inputTokens?: number; // from usageMetadata; fal reports none
+    outputTokens?: number;
+    images: number;
+    latencyMs: number;
+    outcome: 'success' | 'error' | 'cancelled'; // cancelled: stopped by the user before it finished
+    error?: string;
+    projectId?: string; // page renders only; planning happens before the project exists
+}
+
+// USD. Gemini image models bill their images as output tokens, so they need no per-image price.
+export interface ModelPrice {
+    model: string;
+    inputPerMillion: number;
+    outputPerMillion: number;
+    perImage: number;
+}
+
+export interface BudgetCaps {
+    daily?: number; // USD per calendar day
+    monthly?: number; // USD per calendar month
+    perProject?: number; // USD per project
+}
+
+// Rough list prices as a starting point; edit them on the usage page to match your contract
+export const DEFAULT_PRICES: ModelPrice[] = [
+    { model: 'gemini-3-flash-preview', inputPerMillion: 0.5, outputPerMillion: 3, perImage: 0 },
+    { model: 'gemini-3-pro-preview', inputPerMillion: 2, outputPerMillion: 12, perImage: 0 },
+    { model: 'gemini-3-pro-image-preview', inputPerMillion: 2, outputPerMillion: 120, perImage: 0 },
+    { model: 'gemini-2.5-flash-image', inputPerMillion: 0.3, outputPerMillion: 30, perImage: 0 },
+    { model: 'imagen-4.0-generate-001', inputPerMillion: 0, outputPerMillion: 0, perImage: 0.04 },
+    { model: 'fal-ai/flux/dev', inputPerMillion: 0, outputPerMillion: 0, perImage: 0.025 },
+    { model: 'fal-ai/flux-general/inpainting', inputPerMillion: 0, outputPerMillion: 0, perImage: 0.025 },
+];
+
+export interface UsageSettings {
+    prices: ModelPrice[];
+    budget: BudgetCaps;
+}
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = { prices: DEFAULT_PRICES, budget: {} };
+
+// Failed calls are still billed for the tokens they report
+export function estimateCost(record: UsageRecord, prices: ModelPrice[]): number {
+    const price = prices.find(p => p.model === record.model);
+    if (!price) return 0;
+    return (record.inputTokens || 0) / 1e6 * price.inputPerMillion
+        + (record.outputTokens || 0) / 1e6 * price.outputPerMillion
+        + record.images * price.perImage;
+}
+
+export interface UsageTotals {
+    key: string;
+    calls: number;
+    errors: number;
+    inputTokens: number;
+    outputTokens: number;
+    images: number;
+    cost: number;
+}
+
+// Local calendar day, e.g. 2025-01-31
+export function dayKey(time: number): string {
+    const date = new Date(time);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Totals per key, largest cost first
+export function summarize(records: UsageRecord[], prices: ModelPrice[], keyOf: (record: UsageRecord) => string): UsageTotals[] {
+    const totals = new Map<string, UsageTotals>();
+    for (const record of records) {
+        const key = keyOf(record);
+        const row = totals.get(key) || { key, calls: 0, errors: 0, inputTokens: 0, outputTokens: 0, images: 0, cost: 0 };
+        row.calls++;
+        if (record.outcome === 'error') row.errors++;
+        row.inputTokens += record.inputTokens || 0;
+        row.outputTokens += record.outputTokens || 0;
+        row.images += record.images;
+        row.cost += estimateCost(record, prices);
+        totals.set(key, row);
+    }
+    return Array.from(totals.values()).sort((a, b) => b.cost - a.cost);
+}
+
+function spent(records: UsageRecord[], prices: ModelPrice[], filter: (record: UsageRecord) => boolean): number {
+    return records.filter(filter).reduce((sum, record) => sum + estimateCost(record, prices), 0);
+}
+
+// A user-facing message when a cap has been reached, null while generation may continue
+export function budgetProblem(records: UsageRecord[], prices: ModelPrice[], caps: BudgetCaps, projectId?: string): string | null {
+    const now = Date.now();
+    const today = dayKey(now);
+    const month = today.slice(0, 7);
+
+    if (caps.daily !== undefined && spent(records, prices, r => dayKey(r.createdAt) === today) >= caps.daily) {
+        return `本日の予算上限 ($${caps.daily}) に達しました。使用量の画面で上限を変更できます。`;
+    }
+    if (caps.monthly !== undefined && spent(records, prices, r => dayKey(r.createdAt).startsWith(month)) >= caps.monthly) {
+        return `今月の予算上限 ($${caps.monthly}) に達しました。使用量の画面で上限を変更できます。`;
+    }
+    if (projectId && caps.perProject !== undefined && spent(records, prices, r => r.projectId === projectId) >= caps.perProject) {
+        return `このプロジェクトの予算上限 ($${caps.perProject}) に達しました。使用量の画面で上限を変更できます。`;
+    }
+    return null;
+}
@@ -0,0 +1,52 @@
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+let dir: string;
+let vault: typeof import('@/lib/vault');
+
+beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'vault-'));
+    process.env.VAULT_DIR = dir;
+    delete process.env.VAULT_SECRET;
+    vault = await import('@/lib/vault');
+});
+
+afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+});
+
+describe('vault', () => {
+    it('keeps every profile when saves run concurrently', async () => {
+        await Promise.all(['a', 'b', 'c', 'd'].map(name => vault.saveProfile(name, { geminiApiKey: `key-${name}` })));
+
+        const profiles = await vault.listProfiles();
+        expect(profiles.map(p => p.name).sort()).toEqual(['a', 'b', 'c', 'd']);
+        expect((await vault.resolveProfile('c')).geminiApiKey).toBe('key-c');
+        expect(await readdir(dir)).toEqual(['vault.json', 'vault.key']); // no temp files left
+    });
+
+    it('merges keys and removes them with an empty string', async () => {
+        await vault.saveProfile('a', { falApiKey: 'fal-a' });
+        await vault.saveProfile('a', { geminiApiKey: '' });
+        const profile = await vault.resolveProfile('a');
+        expect(profile.falApiKey).toBe('fal-a');
+        expect(profile.geminiApiKey).toBeUndefined();
+    });
+
+    it('deletes a profile', async () => {
+        await vault.deleteProfile('b');
+        await expect(vault.resolveProfile('b')).rejects.toThrow('見つかりません');
+    });
+
+    it('refuses to save over a vault file it cannot read', async () => {
+        const file = path.join(dir, 'vault.json');
+        const intact = await readFile(file, 'utf8');
+        await writeFile(file, intact.slice(0, intact.length / 2));
+
+        await expect(vault.listProfiles()).rejects.toThrow('読み込めません');
+        await expect(vault.saveProfile('e', { falApiKey: 'fal-e' })).rejects.toThrow('読み込めません');
+        expect(await readFile(file, 'utf8')).toBe(intact.slice(0, intact.length / 2));
+    });
+});
@@ -0,0 +1,136 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { createWriteQueue, isMissingFile, writeFileAtomic } from '@/lib/data-file';
+import { DEFAULT_PROFILE } from '@/lib/credentials';
+
+// Server-side credential vault: API keys grouped into named profiles, stored AES-256-GCM encrypted
+// in a local file. Only import this from Server Actions; keys never leave the server.
+//
+// The encryption key is derived from VAULT_SECRET. Without it a random key is generated next to
+// the vault on first use, which protects the file on its own but not a copy of the whole directory.
+
+export interface CredentialProfile {
+    name: string;
+    geminiApiKey?: string; // Google AI Studio
+    falApiKey?: string;
+    updatedAt: number;
+}
+
+interface VaultFile {
+    version: 1;
+    salt: string; // hex
+    iv: string; // hex
+    tag: string; // hex
+    data: string; // base64 of the encrypted profile list
+}
+
+const DATA_DIR = process.env.VAULT_DIR || path.join(process.cwd(), '.data');
+const VAULT_PATH = path.join(DATA_DIR, 'vault.json');
+const KEY_PATH = path.join(DATA_DIR, 'vault.key');
+
+let generatedSecret: Promise<string> | undefined;
+
+async function secret(): Promise<string> {
+    if (process.env.VAULT_SECRET) return process.env.VAULT_SECRET;
+    if (!generatedSecret) {
+        generatedSecret = readOrCreateKey();
+        generatedSecret.catch(() => { generatedSecret = undefined; }); // retried on the next call
+    }
+    return generatedSecret;
+}
+
+// Exclusive create: when two servers race for the first key, the loser reads the winner's
+async function readOrCreateKey(): Promise<string> {
+    try {
+        return (await readFile(KEY_PATH, 'utf8')).trim();
+    } catch (err) {
+        if (!isMissingFile(err)) throw err;
+    }
+    const generated = randomBytes(32).toString('hex');
+    await mkdir(DATA_DIR, { recursive: true });
+    try {
+        await writeFile(KEY_PATH, generated, { mode: 0o600, flag: 'wx' });
+        return generated;
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+        return (await readFile(KEY_PATH, 'utf8')).trim();
+    }
+}
+
+// Saves are read-modify-write on the whole file; run them one at a time
+const serialized = createWriteQueue();
+
+// A vault that exists but can't be read or parsed throws, so a save never replaces it with an
+// empty profile list
+async function readProfiles(): Promise<CredentialProfile[]> {
+    let text: string;
+    try {
+        text = await readFile(VAULT_PATH, 'utf8');
+    } catch (err) {
+        if (isMissingFile(err)) return []; // no vault yet
+        throw err;
+    }
+    let file: VaultFile;
+    try {
+        file = JSON.parse(text);
+    } catch {
+        throw new Error(`認証情報ストアを読み込めません: ${VAULT_PATH}`);
+    }
+    try {
+        const key = scryptSync(await secret(), Buffer.from(file.salt, 'hex'), 32);
+        const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'hex'));
+        decipher.setAuthTag(Buffer.from(file.tag, 'hex'));
+        const plain = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+        return JSON.parse(plain.toString('utf8'));
+    } catch {
+        throw new Error('認証情報ストアを復号できません。VAULT_SECRET が保存時と同じか確認してください。');
+    }
+}
+
+async function writeProfiles(profiles: CredentialProfile[]): Promise<void> {
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const key = scryptSync(await secret(), salt, 32);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(profiles), 'utf8'), cipher.final()]);
+    const file: VaultFile = {
+        version: 1,
+        salt: salt.toString('hex'),
+        iv: iv.toString('hex'),
+        tag: cipher.getAuthTag().toString('hex'),
+        data: data.toString('base64'),
+    };
+    await writeFileAtomic(VAULT_PATH, JSON.stringify(file), { mode: 0o600 });
+}
+
+export async function listProfiles(): Promise<CredentialProfile[]> {
+    return readProfiles();
+}
+
+// Keys left undefined keep their stored value; an empty string removes the key
+export async function saveProfile(name: string, keys: Pick<CredentialProfile, 'geminiApiKey' | 'falApiKey'>): Promise<CredentialProfile> {
+    return serialized(async () => {
+        const profiles = await readProfiles();
+        const existing = profiles.find(p => p.name === name);
+        const merged: CredentialProfile = { ...existing, name, updatedAt: Date.now() };
+        for (const field of ['geminiApiKey', 'falApiKey'] as const) {
+            const value = keys[field];
+            if (value === undefined) continue;
+            if (value.trim()) merged[field] = value.trim();
+            else delete merged[field];
+        }
+        await writeProfiles([...profiles.filter(p => p.name !== name), merged]);
+        return merged;
+    });
+}
+
+export async function deleteProfile(name: string): Promise<void> {
+    await serialized(async () => writeProfiles((await readProfiles()).filter(p => p.name !== name)));
+}
+
+export async function resolveProfile(name: string = DEFAULT_PROFILE): Promise<CredentialProfile> {
+    const profile = (await readProfiles()).find(p => p.name === name);
+    if (!profile) throw new Error(`認証情報のプロファイル「${name}」が見つかりません。設定画面でAPIキーを登録してください。`);
+    return profile;
+}
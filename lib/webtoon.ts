@@ -0,0 +1,101 @@
+import { loadImageElement } from '@/lib/utils';
+
+// Vertical-scroll webtoon output: panels are rendered one by one, stitched into a single
+// long strip at the platform's width, and exported as slices no taller than it accepts.
+
+export interface WebtoonPlatform {
+    id: string;
+    label: string;
+    width: number; // px
+    maxSliceHeight: number; // px
+}
+
+export const WEBTOON_PLATFORMS: WebtoonPlatform[] = [
+    { id: 'line-webtoon', label: 'LINE WEBTOON / Canvas (800×1280)', width: 800, maxSliceHeight: 1280 },
+    { id: 'custom', label: 'カスタム', width: 800, maxSliceHeight: 1280 },
+];
+
+export interface WebtoonSettings {
+    platformId: string;
+    width: number;
+    sliceHeight: number;
+    gutter: number; // px between panels, at strip width
+    background: string;
+}
+
+export const DEFAULT_WEBTOON_SETTINGS: WebtoonSettings = {
+    platformId: 'line-webtoon',
+    width: 800,
+    sliceHeight: 1280,
+    gutter: 120,
+    background: '#ffffff',
+};
+
+// Tallest ratio every provider accepts; panels are scaled to the strip width when stitching
+export const WEBTOON_PANEL_RATIO = '9:16';
+
+export interface StitchedStrip {
+    canvas: HTMLCanvasElement;
+    panels: { top: number; bottom: number }[];
+}
+
+// Stack the panels top to bottom at `settings.width`, separated by the gutter
+export async function stitchStrip(panelUrls: string[], settings: WebtoonSettings): Promise<StitchedStrip> {
+    if (panelUrls.length === 0) throw new Error('結合するコマがありません');
+
+    const images = await Promise.all(panelUrls.map(loadImageElement));
+    const heights = images.map(img => Math.round(img.naturalHeight * settings.width / img.naturalWidth));
+    const totalHeight = heights.reduce((sum, h) => sum + h, 0) + settings.gutter * (images.length - 1);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = settings.width;
+    canvas.height = totalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported');
+
+    ctx.fillStyle = settings.background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    const panels: StitchedStrip['panels'] = [];
+    let y = 0;
+    images.forEach((img, i) => {
+        ctx.drawImage(img, 0, y, settings.width, heights[i]);
+        panels.push({ top: y, bottom: y + heights[i] });
+        y += heights[i] + settings.gutter;
+    });
+
+    return { canvas, panels };
+}
+
+// Slice boundaries no taller than `maxHeight`. A cut lands in the middle of a gutter when one
+// falls in the lower half of the slice, so panels are only split when they are taller than that.
+export function sliceBounds(strip: StitchedStrip, maxHeight: number): { top: number; height: number }[] {
+    const total = strip.canvas.height;
+    const gutterCuts = strip.panels.slice(0, -1).map((panel, i) => Math.round((panel.bottom + strip.panels[i + 1].top) / 2));
+
+    const slices: { top: number; height: number }[] = [];
+    let top = 0;
+    while (top < total) {
+        let bottom = Math.min(top + maxHeight, total);
+        if (bottom < total) {
+            const cut = gutterCuts.filter(c => c > top + maxHeight / 2 && c <= bottom).pop();
+            if (cut !== undefined) bottom = cut;
+        }
+        slices.push({ top, height: bottom - top });
+        top = bottom;
+    }
+    return slices;
+}
+
+// One PNG data URL per slice; the caller transcodes them with the export settings
+export function sliceStrip(strip: StitchedStrip, maxHeight: number): string[] {
+    return sliceBounds(strip, maxHeight).map(({ top, height }) => {
+        const canvas = document.createElement('canvas');
+        canvas.width = strip.canvas.width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Canvas is not supported');
+        ctx.drawImage(strip.canvas, 0, top, canvas.width, height, 0, 0, canvas.width, height);
+        return canvas.toDataURL('image/png');
+    });
+}
@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Loads its gRPC protos from disk at runtime, so it must not be bundled
+  serverExternalPackages: ["@google-cloud/aiplatform"],
 };
 
 export default nextConfig;